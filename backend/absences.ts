@@ -0,0 +1,138 @@
+import { Absence, AbsenceType, OfficeEmployee } from "./types";
+
+/** Значения колонки «Вид» для каждого вида отсутствия. */
+const ABSENCE_TYPE_NAMES: Record<AbsenceType, string[]> = {
+  vacation: ["отпуск", "vacation"],
+  "sick-leave": ["больничный", "болезнь", "sick leave", "sick-leave"],
+  "business-trip": ["командировка", "business trip", "business-trip"],
+};
+
+// 2026-10-28, а также дата из ячейки Excel: 2026-10-28T00:00:00.000Z
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:T[\d:.]+Z?)?$/;
+const RU_DATE_PATTERN = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/;
+
+const normalizeName = (value: string) =>
+  value.toLowerCase().replace(/ё/g, "е").replace(/\s+/g, " ").trim();
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** Допустимые значения колонки «Вид» для сообщений об ошибках. */
+export const ABSENCE_TYPE_HINT = Object.values(ABSENCE_TYPE_NAMES)
+  .map((names) => names[0])
+  .join(", ");
+
+/**
+ * Определяет вид отсутствия по значению колонки «Вид».
+ * @returns Вид отсутствия или null, если значение не распознано.
+ */
+export function parseAbsenceType(value: string): AbsenceType | null {
+  const normalized = normalizeName(value);
+  const found = (Object.keys(ABSENCE_TYPE_NAMES) as AbsenceType[]).find(
+    (type) => ABSENCE_TYPE_NAMES[type].includes(normalized)
+  );
+  return found || null;
+}
+
+/**
+ * Приводит дату из ячейки к виду ГГГГ-ММ-ДД. Принимаются «28.10.2026»,
+ * «2026-10-28» и даты, которые Excel хранит как дату.
+ * @returns Дата или null, если значение не похоже на дату.
+ */
+export function parseAbsenceDate(value: string): string | null {
+  const iso = value.match(ISO_DATE_PATTERN);
+  const ru = value.match(RU_DATE_PATTERN);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : ru
+    ? [Number(ru[3]), Number(ru[2]), Number(ru[1])]
+    : [NaN, NaN, NaN];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    Number.isNaN(date.getTime()) ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Текущая дата сервера в виде ГГГГ-ММ-ДД.
+ * @param time - Момент времени; по умолчанию — сейчас.
+ */
+export function localDate(time: Date = new Date()): string {
+  return `${time.getFullYear()}-${pad(time.getMonth() + 1)}-${pad(
+    time.getDate()
+  )}`;
+}
+
+/**
+ * Поиск сотрудника по значению из книги: сначала как ID, затем как ФИО.
+ * @param office - Сотрудники справочника.
+ * @returns Функция, возвращающая всех подходящих сотрудников.
+ */
+export function createEmployeeLookup(
+  office: OfficeEmployee[]
+): (reference: string) => OfficeEmployee[] {
+  const byId = new Map(office.map((e) => [e.id, e]));
+  const byName = new Map<string, OfficeEmployee[]>();
+  office.forEach((e) => {
+    const key = normalizeName(e.fullName);
+    byName.set(key, [...(byName.get(key) || []), e]);
+  });
+  return (reference) => {
+    const value = reference.trim();
+    if (!value) return [];
+    return byId.has(value)
+      ? [byId.get(value)!]
+      : byName.get(normalizeName(value)) || [];
+  };
+}
+
+/**
+ * Отмечает сотрудников, которые отсутствуют в указанную дату. Если на дату
+ * приходится несколько отсутствий, берётся то, что закончится позже.
+ * Сотрудники и замещающие, указанные неоднозначно или не найденные,
+ * пропускаются: о них сообщает отчёт об импорте.
+ * @param office - Сотрудники справочника.
+ * @param absences - Строки листа «Отсутствия».
+ * @param date - Дата в виде ГГГГ-ММ-ДД.
+ * @returns Новый список сотрудников с заполненным полем absence.
+ */
+export function applyAbsences(
+  office: OfficeEmployee[],
+  absences: Absence[],
+  date: string
+): OfficeEmployee[] {
+  const lookup = createEmployeeLookup(office);
+  const current = new Map<string, Absence>();
+  absences
+    .filter((absence) => absence.from <= date && date <= absence.to)
+    .forEach((absence) => {
+      const employees = lookup(absence.employee);
+      if (employees.length !== 1) return;
+      const previous = current.get(employees[0].id);
+      if (!previous || previous.to < absence.to) {
+        current.set(employees[0].id, absence);
+      }
+    });
+
+  return office.map((employee) => {
+    const absence = current.get(employee.id);
+    if (!absence) return { ...employee, absence: null };
+    const substitutes = lookup(absence.substitute);
+    const substitute = substitutes.length === 1 ? substitutes[0] : null;
+    return {
+      ...employee,
+      absence: {
+        type: absence.type,
+        from: absence.from,
+        to: absence.to,
+        substituteId: substitute?.id ?? null,
+        substituteName: substitute?.fullName ?? absence.substitute,
+      },
+    };
+  });
+}
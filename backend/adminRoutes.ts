@@ -0,0 +1,288 @@
+import express, { NextFunction, Request, Response, Router } from "express";
+import rateLimit from "express-rate-limit";
+import logger from "./logger";
+import { countRateLimitRejections } from "./metrics";
+import { authenticate } from "./adminUsers";
+import {
+  AdminSession,
+  createSession,
+  destroySession,
+  getSession,
+  requireRole,
+  requireSession,
+  setSessionCookie,
+} from "./adminSessions";
+import { AuditLog } from "./auditLog";
+import {
+  EditResult,
+  EditValidationError,
+  HandbookEditor,
+  ReadOnlySourceError,
+  RecordNotFoundError,
+} from "./handbookEditor";
+import { RecordSheetKey } from "./tableImport";
+
+export interface AdminRouterOptions {
+  /** Путь к JSON-файлу пользователей (см. scripts/addAdminUser.ts). */
+  usersFile: string;
+  editor: HandbookEditor;
+  auditLog: AuditLog;
+  sessionTtlMs: number;
+  /** Отправлять cookie сессии только по HTTPS. */
+  secureCookie: boolean;
+  /** Вызывается после записи изменения в источник данных. */
+  onDataChanged: () => Promise<void>;
+}
+
+// Адреса наборов данных в API -> листы источника
+const DATASETS: Record<string, RecordSheetKey> = {
+  employees: "office",
+  cabinets: "cabinets",
+  departments: "departments",
+};
+const AUDIT_PAGE_SIZE = 50;
+const AUDIT_MAX_PAGE_SIZE = 200;
+
+const sessionInfo = (session: AdminSession) => ({
+  username: session.username,
+  role: session.role,
+  internalNumber: session.internalNumber,
+  csrfToken: session.csrfToken,
+});
+
+/**
+ * Требует JSON в теле запроса: HTML-форма с другого сайта не может
+ * отправить такой запрос без предварительной проверки CORS.
+ */
+export function requireJson(req: Request, res: Response, next: NextFunction) {
+  if (!req.is("application/json")) {
+    return res.status(415).json({
+      status: "error",
+      message: "Ожидается тело запроса в формате JSON.",
+    });
+  }
+  next();
+}
+
+/**
+ * Создаёт роутер администрирования: вход по логину и паролю, изменение
+ * сотрудников и кабинетов с записью в источник данных и журнал действий.
+ * @param options - Зависимости и настройки роутера.
+ */
+export function createAdminRouter(options: AdminRouterOptions): Router {
+  const router = Router();
+  const { editor, auditLog } = options;
+
+  router.use(express.json({ limit: "100kb" }));
+
+  // Ограничение попыток входа; успешные попытки не учитываются
+  const loginLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 10,
+    skipSuccessfulRequests: true,
+    standardHeaders: true,
+    legacyHeaders: false,
+    handler: countRateLimitRejections("login"),
+    message: {
+      status: "error",
+      message: "Слишком много попыток входа. Попробуйте позже.",
+    },
+  });
+
+  // Текущая сессия и CSRF-токен для последующих запросов
+  router.get("/session", (req: Request, res: Response) => {
+    const session = getSession(req);
+    if (!session) {
+      return res
+        .status(401)
+        .json({ status: "error", message: "Требуется вход в систему." });
+    }
+    res.json({ status: "success", data: sessionInfo(session) });
+  });
+
+  router.post(
+    "/login",
+    loginLimiter,
+    requireJson,
+    async (req: Request, res: Response) => {
+      const { username, password } = req.body || {};
+      if (typeof username !== "string" || typeof password !== "string") {
+        return res.status(400).json({
+          status: "error",
+          message: "Укажите имя пользователя и пароль.",
+        });
+      }
+      try {
+        const user = await authenticate(options.usersFile, username, password);
+        if (!user) {
+          logger.warn(`Неудачная попытка входа: ${username} - ${req.ip}`);
+          await auditLog.append({
+            username,
+            ip: req.ip || "",
+            action: "login-failed",
+          });
+          return res.status(401).json({
+            status: "error",
+            message: "Неверное имя пользователя или пароль.",
+          });
+        }
+        const session = createSession(
+          user.username,
+          user.role,
+          options.sessionTtlMs,
+          user.internalNumber || null
+        );
+        setSessionCookie(res, session, options.secureCookie);
+        await auditLog.append({
+          username: user.username,
+          ip: req.ip || "",
+          action: "login",
+        });
+        res.json({ status: "success", data: sessionInfo(session) });
+      } catch (error) {
+        logger.error("Ошибка входа администратора:", error);
+        res
+          .status(500)
+          .json({ status: "error", message: "Внутренняя ошибка сервера." });
+      }
+    }
+  );
+
+  router.post(
+    "/logout",
+    requireSession,
+    async (req: Request, res: Response) => {
+      const session: AdminSession = res.locals.session;
+      destroySession(session.id);
+      setSessionCookie(res, null, options.secureCookie);
+      try {
+        await auditLog.append({
+          username: session.username,
+          ip: req.ip || "",
+          action: "logout",
+        });
+      } catch (error) {
+        logger.error("Ошибка записи в журнал действий:", error);
+      }
+      res.json({ status: "success", data: null });
+    }
+  );
+
+  /**
+   * Оборачивает изменение записи: выполняет его, пишет журнал
+   * и переводит ошибки редактора в ответы API.
+   */
+  const withEdit =
+    (
+      action: "create" | "update" | "delete",
+      run: (sheet: RecordSheetKey, req: Request) => Promise<EditResult>
+    ) =>
+    async (req: Request, res: Response) => {
+      const session: AdminSession = res.locals.session;
+      const sheet = DATASETS[req.params.dataset];
+      let result: EditResult;
+      try {
+        result = await run(sheet, req);
+      } catch (error) {
+        if (error instanceof EditValidationError) {
+          return res
+            .status(400)
+            .json({ status: "error", message: error.message });
+        }
+        if (error instanceof RecordNotFoundError) {
+          return res
+            .status(404)
+            .json({ status: "error", message: error.message });
+        }
+        if (error instanceof ReadOnlySourceError) {
+          return res
+            .status(409)
+            .json({ status: "error", message: error.message });
+        }
+        logger.error(`Ошибка изменения ${req.path}:`, error);
+        return res.status(500).json({
+          status: "error",
+          message: "Не удалось записать изменение в источник данных.",
+        });
+      }
+
+      // Изменение уже записано: ошибки журнала и перезагрузки только
+      // логируются, иначе повтор запроса продублировал бы новую запись
+      const recordId = (result.after || result.before)?.id;
+      logger.info(
+        `Администратор ${session.username}: ${action} ${sheet} ${recordId}`
+      );
+      try {
+        await auditLog.append({
+          username: session.username,
+          ip: req.ip || "",
+          action,
+          sheet,
+          recordId,
+          before: result.before,
+          after: result.after,
+        });
+      } catch (error) {
+        logger.error(
+          `Ошибка записи в журнал действий (${action} ${sheet} ${recordId}):`,
+          error
+        );
+      }
+      try {
+        await options.onDataChanged();
+      } catch (error) {
+        logger.error("Ошибка перезагрузки справочника после изменения:", error);
+      }
+      res
+        .status(action === "create" ? 201 : 200)
+        .json({ status: "success", data: result.after });
+    };
+
+  const datasetPath = "/:dataset(employees|cabinets|departments)";
+
+  router.post(
+    datasetPath,
+    requireRole("admin"),
+    requireJson,
+    withEdit("create", (sheet, req) => editor.create(sheet, req.body))
+  );
+  router.put(
+    `${datasetPath}/:id`,
+    requireRole("admin"),
+    requireJson,
+    withEdit("update", (sheet, req) =>
+      editor.update(sheet, req.params.id, req.body)
+    )
+  );
+  router.delete(
+    `${datasetPath}/:id`,
+    requireRole("admin"),
+    withEdit("delete", (sheet, req) => editor.remove(sheet, req.params.id))
+  );
+
+  // Журнал действий, начиная с последних записей
+  router.get(
+    "/audit",
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      const limit = Math.min(
+        parseInt(String(req.query.limit), 10) || AUDIT_PAGE_SIZE,
+        AUDIT_MAX_PAGE_SIZE
+      );
+      const offset = Math.max(parseInt(String(req.query.offset), 10) || 0, 0);
+      try {
+        res.json({
+          status: "success",
+          data: await auditLog.read(limit, offset),
+        });
+      } catch (error) {
+        logger.error("Ошибка чтения журнала действий:", error);
+        res
+          .status(500)
+          .json({ status: "error", message: "Внутренняя ошибка сервера." });
+      }
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,175 @@
+import crypto from "crypto";
+import { NextFunction, Request, Response } from "express";
+import { AdminRole } from "./adminUsers";
+import { Role } from "./types";
+import { roleAllows } from "./visibility";
+
+export interface AdminSession {
+  id: string;
+  username: string;
+  role: AdminRole;
+  /** Внутренний номер пользователя для звонков через АТС. */
+  internalNumber: string | null;
+  /** Токен, который клиент присылает в заголовке X-CSRF-Token. */
+  csrfToken: string;
+  expiresAt: number;
+}
+
+export const SESSION_COOKIE = "handbook_admin";
+export const CSRF_HEADER = "x-csrf-token";
+
+// Сессии хранятся в памяти: после перезапуска сервера нужно войти заново
+const sessions = new Map<string, AdminSession>();
+
+const randomToken = () => crypto.randomBytes(32).toString("base64url");
+
+/**
+ * Разбирает заголовок Cookie.
+ * @returns Значения cookie по имени.
+ */
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  (header || "").split(";").forEach((part) => {
+    const index = part.indexOf("=");
+    if (index === -1) return;
+    const name = part.slice(0, index).trim();
+    try {
+      cookies[name] = decodeURIComponent(part.slice(index + 1).trim());
+    } catch {
+      // Некорректно закодированное значение пропускается
+    }
+  });
+  return cookies;
+}
+
+function tokensEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return (
+    bufferA.length === bufferB.length &&
+    crypto.timingSafeEqual(bufferA, bufferB)
+  );
+}
+
+/**
+ * Создаёт сессию после успешного входа.
+ * @param username - Имя пользователя.
+ * @param role - Роль пользователя.
+ * @param ttlMs - Время жизни сессии.
+ * @param internalNumber - Внутренний номер пользователя, если он указан.
+ */
+export function createSession(
+  username: string,
+  role: AdminRole,
+  ttlMs: number,
+  internalNumber: string | null = null
+): AdminSession {
+  const session: AdminSession = {
+    id: randomToken(),
+    username,
+    role,
+    internalNumber,
+    csrfToken: randomToken(),
+    expiresAt: Date.now() + ttlMs,
+  };
+  sessions.set(session.id, session);
+  return session;
+}
+
+export function destroySession(id: string) {
+  sessions.delete(id);
+}
+
+/**
+ * Возвращает действующую сессию по cookie запроса.
+ */
+export function getSession(req: Request): AdminSession | null {
+  const id = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+  const session = id ? sessions.get(id) : undefined;
+  if (!session) return null;
+  if (session.expiresAt <= Date.now()) {
+    sessions.delete(session.id);
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Устанавливает cookie сессии. Cookie недоступна скриптам страницы
+ * и не отправляется с запросами, начатыми на других сайтах.
+ * @param secure - Отправлять cookie только по HTTPS.
+ */
+export function setSessionCookie(
+  res: Response,
+  session: AdminSession | null,
+  secure: boolean
+) {
+  res.cookie(SESSION_COOKIE, session ? session.id : "", {
+    httpOnly: true,
+    sameSite: "strict",
+    secure,
+    // Сессия нужна и справочнику: от роли зависит, какие данные видны
+    path: "/api",
+    maxAge: session ? session.expiresAt - Date.now() : 0,
+  });
+}
+
+/**
+ * Пропускает только запросы с действующей сессией. Для запросов,
+ * изменяющих данные, дополнительно проверяется CSRF-токен.
+ * Сессия доступна обработчикам через res.locals.session.
+ */
+export function requireSession(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const session = getSession(req);
+  if (!session) {
+    return res
+      .status(401)
+      .json({ status: "error", message: "Требуется вход в систему." });
+  }
+  if (
+    req.method !== "GET" &&
+    !tokensEqual(String(req.headers[CSRF_HEADER] || ""), session.csrfToken)
+  ) {
+    return res
+      .status(403)
+      .json({ status: "error", message: "Неверный CSRF-токен." });
+  }
+  res.locals.session = session;
+  next();
+}
+
+/**
+ * Роль пользователя, отправившего запрос; без сессии — anonymous.
+ */
+export function sessionRole(req: Request): Role {
+  return getSession(req)?.role || "anonymous";
+}
+
+/**
+ * Как requireSession, но дополнительно требует роль не ниже указанной.
+ * @param minRole - Наименьшая роль, которой доступен маршрут.
+ */
+export function requireRole(minRole: AdminRole) {
+  return (req: Request, res: Response, next: NextFunction) =>
+    requireSession(req, res, () => {
+      const session: AdminSession = res.locals.session;
+      if (!roleAllows(session.role, minRole)) {
+        return res
+          .status(403)
+          .json({ status: "error", message: "Недостаточно прав." });
+      }
+      next();
+    });
+}
+
+// Периодически удаляем истёкшие сессии, чтобы они не копились в памяти
+setInterval(() => {
+  const now = Date.now();
+  sessions.forEach((session, id) => {
+    if (session.expiresAt <= now) sessions.delete(id);
+  });
+}, 10 * 60 * 1000).unref();
@@ -0,0 +1,161 @@
+import crypto from "crypto";
+import fs from "fs";
+import { promisify } from "util";
+import { writeFileAtomic } from "./dataSources/atomicWrite";
+import { Role } from "./types";
+
+/** Роль пользователя, который входит по логину и паролю. */
+export type AdminRole = Exclude<Role, "anonymous">;
+
+export const ADMIN_ROLES: AdminRole[] = ["employee", "hr", "admin"];
+
+export interface AdminUser {
+  username: string;
+  /** Хэш пароля в формате scrypt$N$r$p$соль$хэш (base64). */
+  passwordHash: string;
+  role: AdminRole;
+  /** Внутренний номер пользователя: с него звонит АТС при звонке из справочника. */
+  internalNumber?: string;
+}
+
+interface UsersFile {
+  users: AdminUser[];
+}
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// Параметры scrypt: N=2^15 требует около 32 МБ памяти на одну проверку
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+const USERNAME_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+// Хэш для проверки пароля несуществующего пользователя: время ответа
+// не должно выдавать, есть ли такой логин
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * Хэширует пароль с помощью scrypt и случайной соли.
+ * @param password - Пароль.
+ * @returns Строка для поля passwordHash.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const { N, r, p } = SCRYPT_PARAMS;
+  const hash = await scrypt(password, salt, KEY_LENGTH, {
+    N,
+    r,
+    p,
+    maxmem: 128 * N * r * 2,
+  });
+  return ["scrypt", N, r, p, salt.toString("base64"), hash.toString("base64")]
+    .map(String)
+    .join("$");
+}
+
+/**
+ * Проверяет пароль по хэшу, сохранённому функцией hashPassword.
+ * @param password - Введённый пароль.
+ * @param stored - Сохранённый хэш.
+ */
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<boolean> {
+  const [scheme, n, r, p, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const N = Number(n);
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scrypt(
+    password,
+    Buffer.from(salt, "base64"),
+    expected.length,
+    {
+      N,
+      r: Number(r),
+      p: Number(p),
+      maxmem: 128 * N * Number(r) * 2,
+    }
+  );
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Проверяет имя пользователя на допустимые символы.
+ */
+export function isValidUsername(username: string): boolean {
+  return USERNAME_PATTERN.test(username);
+}
+
+/**
+ * Читает файл пользователей. Отсутствующий файл означает пустой список.
+ * @param filePath - Путь к JSON-файлу пользователей.
+ */
+export async function readUsers(filePath: string): Promise<AdminUser[]> {
+  if (!fs.existsSync(filePath)) return [];
+  const content = JSON.parse(
+    await fs.promises.readFile(filePath, "utf-8")
+  ) as Partial<UsersFile>;
+  return Array.isArray(content.users) ? content.users : [];
+}
+
+/**
+ * Добавляет пользователя или меняет пароль существующего.
+ * @param filePath - Путь к JSON-файлу пользователей.
+ * @param username - Имя пользователя.
+ * @param password - Пароль.
+ * @param role - Роль; без неё у существующего пользователя роль
+ * сохраняется, новый становится администратором.
+ * @param internalNumber - Внутренний номер; без него у существующего
+ * пользователя сохраняется прежний.
+ * @returns true, если пользователь создан, и false, если пароль изменён.
+ */
+export async function saveUser(
+  filePath: string,
+  username: string,
+  password: string,
+  role?: AdminRole,
+  internalNumber?: string
+): Promise<boolean> {
+  const users = await readUsers(filePath);
+  const index = users.findIndex((u) => u.username === username);
+  const user: AdminUser = {
+    username,
+    passwordHash: await hashPassword(password),
+    role: role || (index === -1 ? "admin" : users[index].role),
+  };
+  const number = internalNumber ?? users[index]?.internalNumber;
+  if (number) user.internalNumber = number;
+  if (index === -1) users.push(user);
+  else users[index] = user;
+  await writeFileAtomic(filePath, JSON.stringify({ users }, null, 2) + "\n");
+  return index === -1;
+}
+
+/**
+ * Проверяет имя пользователя и пароль. Файл перечитывается при каждом
+ * входе, поэтому новые пользователи доступны без перезапуска сервера.
+ * @param filePath - Путь к JSON-файлу пользователей.
+ * @param username - Имя пользователя.
+ * @param password - Пароль.
+ * @returns Пользователь или null, если имя или пароль неверны.
+ */
+export async function authenticate(
+  filePath: string,
+  username: string,
+  password: string
+): Promise<AdminUser | null> {
+  const user = (await readUsers(filePath)).find((u) => u.username === username);
+  if (!user) {
+    dummyHash =
+      dummyHash || hashPassword(crypto.randomBytes(16).toString("hex"));
+    await verifyPassword(password, await dummyHash);
+    return null;
+  }
+  return (await verifyPassword(password, user.passwordHash)) ? user : null;
+}
@@ -0,0 +1,226 @@
+import net from "net";
+
+/** Сообщение AMI: пары «Ключ: значение» до пустой строки. */
+export type AmiMessage = Record<string, string>;
+
+export interface AmiConfig {
+  host: string;
+  port: number;
+  username: string;
+  secret: string;
+  /** Канал вызывающего абонента; {extension} заменяется его номером. */
+  channel: string;
+  /** Контекст диалплана, в котором набирается номер собеседника. */
+  context: string;
+  /** Сколько ждать ответа АТС на каждое действие. */
+  timeoutMs: number;
+}
+
+export interface Dialer {
+  /**
+   * Соединяет два номера: сначала звонит телефон from, после ответа
+   * АТС набирает to.
+   */
+  originate(from: string, to: string): Promise<void>;
+}
+
+/**
+ * Ошибка обмена с АТС: нет соединения, отказ во входе или в действии.
+ */
+export class AmiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AmiError";
+  }
+}
+
+const MESSAGE_SEPARATOR = "\r\n\r\n";
+// Сколько звонить на телефон вызывающего, прежде чем отменить вызов
+const RING_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Разбирает одно сообщение AMI. Ключи приводятся к нижнему регистру:
+ * разные версии Asterisk пишут их по-разному («ActionID», «ActionId»).
+ */
+export function parseAmiMessage(block: string): AmiMessage {
+  const message: AmiMessage = {};
+  block.split("\r\n").forEach((line) => {
+    const separator = line.indexOf(":");
+    if (separator === -1) return;
+    message[line.slice(0, separator).trim().toLowerCase()] = line
+      .slice(separator + 1)
+      .trim();
+  });
+  return message;
+}
+
+/**
+ * Записывает сообщение AMI. Переводы строк из значений удаляются,
+ * иначе через них можно было бы дописать в действие свои поля.
+ */
+export function formatAmiMessage(fields: AmiMessage): string {
+  return (
+    Object.entries(fields)
+      .map(([key, value]) => `${key}: ${value.replace(/[\r\n]/g, "")}`)
+      .join("\r\n") + MESSAGE_SEPARATOR
+  );
+}
+
+/**
+ * Соединение с AMI. Ответы сопоставляются с действиями по ActionID,
+ * события АТС пропускаются.
+ */
+class AmiConnection {
+  private buffer = "";
+  private bannerReceived = false;
+  private onBanner: (() => void) | null = null;
+  private nextActionId = 1;
+  private closedError: AmiError | null = null;
+  private readonly pending = new Map<
+    string,
+    { resolve: (message: AmiMessage) => void; reject: (error: Error) => void }
+  >();
+
+  private constructor(
+    private readonly socket: net.Socket,
+    private readonly timeoutMs: number
+  ) {
+    socket.setEncoding("utf-8");
+    socket.on("data", (chunk: string) => this.receive(chunk));
+    socket.on("error", (error) =>
+      this.fail(new AmiError(`Ошибка соединения с АТС: ${error.message}`))
+    );
+    socket.on("close", () =>
+      this.fail(new AmiError("АТС закрыла соединение."))
+    );
+  }
+
+  /**
+   * Подключается к АТС и ждёт приветствия «Asterisk Call Manager».
+   */
+  static connect(config: AmiConfig): Promise<AmiConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect({ host: config.host, port: config.port });
+      const connection = new AmiConnection(socket, config.timeoutMs);
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new AmiError("АТС не ответила на подключение."));
+      }, config.timeoutMs);
+      socket.once("error", (error) => {
+        clearTimeout(timer);
+        reject(new AmiError(`Не удалось подключиться к АТС: ${error.message}`));
+      });
+      socket.once("close", () => {
+        clearTimeout(timer);
+        reject(new AmiError("АТС закрыла соединение."));
+      });
+      connection.onBanner = () => {
+        clearTimeout(timer);
+        resolve(connection);
+      };
+    });
+  }
+
+  /**
+   * Отправляет действие и ждёт ответа на него.
+   * @throws AmiError, если АТС ответила ошибкой или не ответила вовремя.
+   */
+  send(action: AmiMessage): Promise<AmiMessage> {
+    if (this.closedError) return Promise.reject(this.closedError);
+    const actionId = String(this.nextActionId++);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(actionId);
+        reject(new AmiError(`АТС не ответила на действие ${action.Action}.`));
+      }, this.timeoutMs);
+      this.pending.set(actionId, {
+        resolve: (message) => {
+          clearTimeout(timer);
+          if (message.response?.toLowerCase() === "error") {
+            reject(
+              new AmiError(
+                message.message || `Ошибка действия ${action.Action}.`
+              )
+            );
+          } else {
+            resolve(message);
+          }
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      this.socket.write(formatAmiMessage({ ...action, ActionID: actionId }));
+    });
+  }
+
+  close() {
+    this.socket.end();
+  }
+
+  private receive(chunk: string) {
+    this.buffer += chunk;
+    if (!this.bannerReceived) {
+      const lineEnd = this.buffer.indexOf("\r\n");
+      if (lineEnd === -1) return;
+      this.buffer = this.buffer.slice(lineEnd + 2);
+      this.bannerReceived = true;
+      this.onBanner?.();
+    }
+    let separator = this.buffer.indexOf(MESSAGE_SEPARATOR);
+    while (separator !== -1) {
+      const message = parseAmiMessage(this.buffer.slice(0, separator));
+      this.buffer = this.buffer.slice(separator + MESSAGE_SEPARATOR.length);
+      const waiting = message.actionid && this.pending.get(message.actionid);
+      if (waiting && message.response) {
+        this.pending.delete(message.actionid);
+        waiting.resolve(message);
+      }
+      separator = this.buffer.indexOf(MESSAGE_SEPARATOR);
+    }
+  }
+
+  private fail(error: AmiError) {
+    if (this.closedError) return;
+    this.closedError = error;
+    this.pending.forEach((waiting) => waiting.reject(error));
+    this.pending.clear();
+  }
+}
+
+/**
+ * Создаёт звонилку через Asterisk AMI. Для каждого звонка открывается
+ * отдельное соединение: звонки редки, а постоянное соединение пришлось бы
+ * восстанавливать после перезапуска АТС.
+ * @param config - Адрес, учётная запись AMI и параметры вызова.
+ */
+export function createAmiDialer(config: AmiConfig): Dialer {
+  return {
+    async originate(from, to) {
+      const connection = await AmiConnection.connect(config);
+      try {
+        await connection.send({
+          Action: "Login",
+          Username: config.username,
+          Secret: config.secret,
+          Events: "off",
+        });
+        // Async: АТС отвечает сразу, не дожидаясь, пока абонент снимет трубку
+        await connection.send({
+          Action: "Originate",
+          Channel: config.channel.replace("{extension}", from),
+          Context: config.context,
+          Exten: to,
+          Priority: "1",
+          CallerID: `<${to}>`,
+          Timeout: String(RING_TIMEOUT_MS),
+          Async: "true",
+        });
+        await connection.send({ Action: "Logoff" }).catch(() => undefined);
+      } finally {
+        connection.close();
+      }
+    },
+  };
+}
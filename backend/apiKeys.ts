@@ -0,0 +1,131 @@
+import crypto from "crypto";
+import fs from "fs";
+import logger from "./logger";
+import { writeFileAtomic } from "./dataSources/atomicWrite";
+import { Role } from "./types";
+
+/** Ограничение частоты запросов для ключа. */
+export interface ApiKeyRateLimit {
+  /** Сколько запросов разрешено за окно. */
+  max: number;
+  windowMinutes: number;
+}
+
+export interface ApiKey {
+  /** Название системы-клиента: «helpdesk», «intranet-widget». */
+  name: string;
+  /** SHA-256 ключа в шестнадцатеричном виде; сам ключ не хранится. */
+  keyHash: string;
+  /** Собственное ограничение ключа; без него — DEFAULT_API_KEY_RATE_LIMIT. */
+  rateLimit?: ApiKeyRateLimit;
+  /** Какие данные видны системе-клиенту; без роли — DEFAULT_API_KEY_ROLE. */
+  role?: Role;
+}
+
+interface ApiKeysFile {
+  keys: ApiKey[];
+}
+
+export const DEFAULT_API_KEY_RATE_LIMIT: ApiKeyRateLimit = {
+  max: 600,
+  windowMinutes: 15,
+};
+
+export const DEFAULT_API_KEY_ROLE: Role = "employee";
+
+/** Роль, с которой система-клиент видит данные справочника. */
+export const apiKeyRole = (key: ApiKey): Role =>
+  key.role || DEFAULT_API_KEY_ROLE;
+
+const KEY_PREFIX = "hb_";
+const KEY_BYTES = 32;
+const KEY_NAME_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+/**
+ * Хэширует ключ. Ключ — случайная строка длиной 256 бит, поэтому
+ * медленный хэш, как для паролей, не нужен.
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Проверяет название ключа на допустимые символы.
+ */
+export function isValidApiKeyName(name: string): boolean {
+  return KEY_NAME_PATTERN.test(name);
+}
+
+/**
+ * Читает файл ключей. Отсутствующий файл означает пустой список.
+ * @param filePath - Путь к JSON-файлу ключей.
+ */
+export async function readApiKeys(filePath: string): Promise<ApiKey[]> {
+  if (!fs.existsSync(filePath)) return [];
+  const content = JSON.parse(
+    await fs.promises.readFile(filePath, "utf-8")
+  ) as Partial<ApiKeysFile>;
+  return Array.isArray(content.keys) ? content.keys : [];
+}
+
+/**
+ * Создаёт ключ для системы-клиента или заменяет ключ с тем же названием.
+ * @param filePath - Путь к JSON-файлу ключей.
+ * @param name - Название системы-клиента.
+ * @param rateLimit - Собственное ограничение частоты запросов.
+ * @returns Новый ключ; он показывается один раз и больше нигде не хранится.
+ */
+export async function createApiKey(
+  filePath: string,
+  name: string,
+  rateLimit?: ApiKeyRateLimit
+): Promise<string> {
+  const key = KEY_PREFIX + crypto.randomBytes(KEY_BYTES).toString("base64url");
+  const keys = (await readApiKeys(filePath)).filter((k) => k.name !== name);
+  keys.push({
+    name,
+    keyHash: hashApiKey(key),
+    ...(rateLimit && { rateLimit }),
+  });
+  await writeFileAtomic(filePath, JSON.stringify({ keys }, null, 2) + "\n");
+  return key;
+}
+
+/**
+ * Ключи публичного API. Файл перечитывается при изменении, поэтому
+ * новый или отозванный ключ действует без перезапуска сервера.
+ */
+export class ApiKeyStore {
+  // Хэш ключа -> ключ
+  private keys = new Map<string, ApiKey>();
+  // Время изменения файла, по которому построен keys
+  private loadedAt: number | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Находит ключ по значению из запроса.
+   * @returns Ключ или null, если такого ключа нет.
+   */
+  async find(key: string): Promise<ApiKey | null> {
+    await this.refresh();
+    return this.keys.get(hashApiKey(key)) || null;
+  }
+
+  private async refresh(): Promise<void> {
+    const stat = await fs.promises.stat(this.filePath).catch(() => null);
+    const mtime = stat ? stat.mtimeMs : 0;
+    if (mtime === this.loadedAt) return;
+    try {
+      const keys = await readApiKeys(this.filePath);
+      this.keys = new Map(keys.map((k) => [k.keyHash, k]));
+      this.loadedAt = mtime;
+    } catch (error) {
+      // Прежние ключи остаются в силе, пока файл не исправят
+      logger.error(
+        `Не удалось прочитать ключи API из ${this.filePath}:`,
+        error
+      );
+    }
+  }
+}
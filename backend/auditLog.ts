@@ -0,0 +1,63 @@
+import fs from "fs";
+import path from "path";
+import { RecordSheetKey } from "./tableImport";
+
+export type AuditAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "login"
+  | "login-failed"
+  | "logout";
+
+export interface AuditEntry {
+  time: string;
+  username: string;
+  ip: string;
+  action: AuditAction;
+  sheet?: RecordSheetKey;
+  recordId?: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditLog {
+  append(entry: Omit<AuditEntry, "time">): Promise<void>;
+  /**
+   * Возвращает записи журнала, начиная с последних.
+   * @param limit - Количество записей.
+   * @param offset - Сколько последних записей пропустить.
+   */
+  read(
+    limit: number,
+    offset: number
+  ): Promise<{ total: number; entries: AuditEntry[] }>;
+}
+
+/**
+ * Создаёт журнал действий администраторов. Журнал — файл JSON Lines,
+ * в который записи только дописываются.
+ * @param filePath - Путь к файлу журнала.
+ */
+export function createAuditLog(filePath: string): AuditLog {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  return {
+    async append(entry) {
+      const line = JSON.stringify({ time: new Date().toISOString(), ...entry });
+      await fs.promises.appendFile(filePath, line + "\n", { flag: "a" });
+    },
+    async read(limit, offset) {
+      if (!fs.existsSync(filePath)) return { total: 0, entries: [] };
+      const lines = (await fs.promises.readFile(filePath, "utf-8"))
+        .split("\n")
+        .filter(Boolean);
+      const end = Math.max(lines.length - offset, 0);
+      const entries = lines
+        .slice(Math.max(end - limit, 0), end)
+        .reverse()
+        .map((line) => JSON.parse(line) as AuditEntry);
+      return { total: lines.length, entries };
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Записывает файл атомарно: содержимое пишется во временный файл в том же
+ * каталоге и затем переименовывается поверх исходного. Читатели (и сам
+ * сервер) никогда не видят наполовину записанный файл.
+ * @param filePath - Путь к файлу.
+ * @param content - Новое содержимое.
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  content: string | Uint8Array
+): Promise<void> {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`
+  );
+  const handle = await fs.promises.open(tempPath, "w");
+  try {
+    await handle.writeFile(content);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  try {
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,176 @@
+import fs from "fs";
+import { parse } from "csv-parse/sync";
+import {
+  ColumnAliases,
+  RawTable,
+  SheetKey,
+  importTables,
+} from "../tableImport";
+import { writeFileAtomic } from "./atomicWrite";
+import { getFilesVersion } from "./fileVersion";
+import { HandbookDataSource, SheetEdit } from "./types";
+
+/**
+ * Определяет разделитель по строке заголовков: Excel с русской локалью
+ * сохраняет CSV через «;», большинство остальных программ — через «,».
+ */
+function detectDelimiter(content: string): string {
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const semicolons = (firstLine.match(/;/g) || []).length;
+  const commas = (firstLine.match(/,/g) || []).length;
+  return semicolons >= commas ? ";" : ",";
+}
+
+interface CsvFile {
+  records: string[][];
+  delimiter: string;
+  hasBom: boolean;
+  newline: string;
+}
+
+/**
+ * Читает CSV-файл вместе с особенностями оформления, которые нужно
+ * сохранить при записи изменений.
+ * @param filePath - Путь к файлу.
+ * @param delimiter - Разделитель или undefined для автоопределения.
+ */
+async function readCsvFile(
+  filePath: string,
+  delimiter?: string
+): Promise<CsvFile> {
+  const content = await fs.promises.readFile(filePath, "utf-8");
+  const hasBom = content.startsWith("\uFEFF");
+  const text = hasBom ? content.slice(1) : content;
+  const usedDelimiter = delimiter || detectDelimiter(text);
+  const records: string[][] = parse(text, {
+    delimiter: usedDelimiter,
+    relax_column_count: true,
+    skip_empty_lines: false,
+  });
+  return {
+    records,
+    delimiter: usedDelimiter,
+    hasBom,
+    newline: text.includes("\r\n") ? "\r\n" : "\n",
+  };
+}
+
+/**
+ * Читает CSV-файл в таблицу; первая строка файла — заголовки.
+ * @param filePath - Путь к файлу.
+ * @param delimiter - Разделитель или undefined для автоопределения.
+ * @returns Таблица или undefined, если файла нет.
+ */
+async function readCsvTable(
+  filePath: string,
+  delimiter?: string
+): Promise<RawTable | undefined> {
+  if (!fs.existsSync(filePath)) return undefined;
+  const [header = [], ...rows] = (await readCsvFile(filePath, delimiter))
+    .records;
+  return {
+    header,
+    rows: rows.map((cells, index) => ({ rowNumber: index + 2, cells })),
+  };
+}
+
+function formatCsvValue(value: string, delimiter: string): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+/**
+ * Вносит изменение строки в CSV-файл, сохраняя разделитель, BOM
+ * и переводы строк исходного файла.
+ * @returns Номер записанной строки или null, если строка удалена.
+ */
+async function applyCsvEdit(
+  filePath: string,
+  edit: SheetEdit,
+  delimiter?: string
+): Promise<number | null> {
+  const file = await readCsvFile(filePath, delimiter);
+  const { records } = file;
+  const index = edit.rowNumber ? edit.rowNumber - 1 : records.length;
+  if (edit.cells === null) {
+    records.splice(index, 1);
+  } else {
+    const row = [...(records[index] || [])];
+    Object.entries(edit.cells).forEach(([column, value]) => {
+      row[Number(column)] = String(value);
+    });
+    records[index] = Array.from(row, (value) => value ?? "");
+  }
+  const content = records
+    .map((row) =>
+      row
+        .map((value) => formatCsvValue(value, file.delimiter))
+        .join(file.delimiter)
+    )
+    .join(file.newline);
+  await writeFileAtomic(
+    filePath,
+    (file.hasBom ? "\uFEFF" : "") + content + file.newline
+  );
+  return edit.cells === null ? null : index + 1;
+}
+
+/**
+ * Источник данных: CSV-файлы с теми же колонками, что и листы книги.
+ * @param officeFile - Путь к файлу сотрудников.
+ * @param cabinetsFile - Путь к файлу кабинетов (может отсутствовать).
+ * @param aliases - Синонимы заголовков колонок.
+ * @param delimiter - Разделитель; по умолчанию определяется автоматически.
+ * @param departmentsFile - Путь к файлу отделов; необязателен.
+ * @param absencesFile - Путь к файлу отсутствий; необязателен.
+ */
+export function createCsvSource(
+  officeFile: string,
+  cabinetsFile: string,
+  aliases: ColumnAliases,
+  delimiter?: string,
+  departmentsFile?: string,
+  absencesFile?: string
+): HandbookDataSource {
+  const files: Partial<Record<SheetKey, string>> = {
+    office: officeFile,
+    cabinets: cabinetsFile,
+    departments: departmentsFile,
+    absences: absencesFile,
+  };
+  const optionalFiles = [
+    cabinetsFile,
+    ...(departmentsFile ? [departmentsFile] : []),
+    ...(absencesFile ? [absencesFile] : []),
+  ];
+  const description = [officeFile, ...optionalFiles].join(", ");
+  const readTable = async (sheet: SheetKey) =>
+    files[sheet] ? readCsvTable(files[sheet]!, delimiter) : undefined;
+
+  return {
+    description,
+    watchPaths: [officeFile, ...optionalFiles],
+    getVersion: () => getFilesVersion([officeFile], optionalFiles),
+    async load(version) {
+      return importTables(
+        {
+          office: await readTable("office"),
+          cabinets: await readTable("cabinets"),
+          departments: await readTable("departments"),
+          absences: await readTable("absences"),
+        },
+        aliases,
+        description,
+        version
+      );
+    },
+    async applyEdit(edit) {
+      const filePath = files[edit.sheet];
+      if (!filePath) {
+        throw new Error(`Не задан CSV-файл для набора "${edit.sheet}".`);
+      }
+      return applyCsvEdit(filePath, edit, delimiter);
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import fs from "fs";
+
+/**
+ * Возвращает время последнего изменения среди переданных файлов.
+ * Отсутствующие необязательные файлы не учитываются.
+ * @param required - Файлы, без которых источник недоступен.
+ * @param optional - Файлы, которые могут отсутствовать.
+ * @returns Наибольшее время изменения или null, если обязательный файл не найден.
+ */
+export async function getFilesVersion(
+  required: string[],
+  optional: string[] = []
+): Promise<number | null> {
+  const times: number[] = [];
+  for (const filePath of [...required, ...optional]) {
+    try {
+      const stats = await fs.promises.stat(filePath);
+      times.push(stats.mtimeMs);
+    } catch {
+      if (required.includes(filePath)) return null;
+    }
+  }
+  return times.length > 0 ? Math.max(...times) : null;
+}
@@ -0,0 +1,78 @@
+import path from "path";
+import { ColumnAliases } from "../tableImport";
+import { createCsvSource } from "./csvSource";
+import { createJsonSource } from "./jsonSource";
+import { createSqliteSource } from "./sqliteSource";
+import { HandbookDataSource } from "./types";
+import { createXlsxSource } from "./xlsxSource";
+
+export { HandbookDataSource } from "./types";
+
+/**
+ * Имена файлов источника без каталогов: расположение данных на сервере
+ * в ответы API не попадает. Источник CSV перечисляет файлы через запятую.
+ * @param description - Описание источника (HandbookDataSource.description).
+ */
+export function sourceFileNames(description: string): string {
+  return description
+    .split(", ")
+    .map((file) => path.basename(file))
+    .join(", ");
+}
+
+export type DataSourceType = "xlsx" | "csv" | "json" | "sqlite";
+
+// Переменные окружения, обязательные для каждого типа источника
+const REQUIRED_ENV_VARS: Record<DataSourceType, string[]> = {
+  xlsx: ["EXCEL_FILE_NAME"],
+  csv: ["CSV_OFFICE_FILE", "CSV_CABINETS_FILE"],
+  json: ["JSON_FILE_NAME"],
+  sqlite: ["SQLITE_FILE_NAME"],
+};
+
+/**
+ * Создаёт источник данных по настройкам окружения. Тип источника задаёт
+ * DATA_SOURCE (по умолчанию xlsx), пути к файлам указываются относительно
+ * baseDir.
+ * @param env - Переменные окружения.
+ * @param baseDir - Каталог, относительно которого разрешаются пути.
+ * @param aliases - Синонимы заголовков колонок.
+ */
+export function createDataSource(
+  env: NodeJS.ProcessEnv,
+  baseDir: string,
+  aliases: ColumnAliases
+): HandbookDataSource {
+  const type = (env.DATA_SOURCE || "xlsx") as DataSourceType;
+  if (!(type in REQUIRED_ENV_VARS)) {
+    throw new Error(
+      `ОШИБКА: Неизвестный тип источника данных DATA_SOURCE=${type}. ` +
+        `Допустимые значения: ${Object.keys(REQUIRED_ENV_VARS).join(", ")}`
+    );
+  }
+  const missing = REQUIRED_ENV_VARS[type].filter((name) => !env[name]);
+  if (missing.length > 0) {
+    throw new Error(
+      `ОШИБКА: Отсутствуют переменные окружения: ${missing.join(", ")}`
+    );
+  }
+
+  const resolve = (name: string) => path.resolve(baseDir, env[name]!);
+  switch (type) {
+    case "csv":
+      return createCsvSource(
+        resolve("CSV_OFFICE_FILE"),
+        resolve("CSV_CABINETS_FILE"),
+        aliases,
+        env.CSV_DELIMITER,
+        env.CSV_DEPARTMENTS_FILE ? resolve("CSV_DEPARTMENTS_FILE") : undefined,
+        env.CSV_ABSENCES_FILE ? resolve("CSV_ABSENCES_FILE") : undefined
+      );
+    case "json":
+      return createJsonSource(resolve("JSON_FILE_NAME"), aliases);
+    case "sqlite":
+      return createSqliteSource(resolve("SQLITE_FILE_NAME"), aliases);
+    default:
+      return createXlsxSource(resolve("EXCEL_FILE_NAME"), aliases);
+  }
+}
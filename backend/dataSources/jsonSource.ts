@@ -0,0 +1,96 @@
+import fs from "fs";
+import {
+  ColumnAliases,
+  RawTable,
+  SheetKey,
+  importTables,
+} from "../tableImport";
+import { writeFileAtomic } from "./atomicWrite";
+import { getFilesVersion } from "./fileVersion";
+import { HandbookDataSource } from "./types";
+
+/**
+ * Собирает ключи объектов в порядке первого появления.
+ */
+function collectKeys(records: unknown[]): string[] {
+  const header: string[] = [];
+  records.forEach((record) => {
+    Object.keys(record || {}).forEach((key) => {
+      if (!header.includes(key)) header.push(key);
+    });
+  });
+  return header;
+}
+
+/**
+ * Преобразует массив объектов в таблицу. Заголовками служат ключи
+ * объектов в порядке первого появления, номером строки — номер элемента.
+ */
+function recordsToTable(records: unknown): RawTable | undefined {
+  if (!Array.isArray(records)) return undefined;
+  const header = collectKeys(records);
+  return {
+    header,
+    rows: records.map((record, index) => ({
+      rowNumber: index + 1,
+      cells: header.map((key) => (record || {})[key]),
+    })),
+  };
+}
+
+/**
+ * Источник данных: JSON-файл вида { "office": [...], "cabinets": [...],
+ * "departments": [...], "absences": [...] } (отделы и отсутствия необязательны),
+ * где ключи объектов — заголовки колонок или имена полей (fullName и т.д.).
+ * @param filePath - Путь к файлу.
+ * @param aliases - Синонимы заголовков колонок.
+ */
+export function createJsonSource(
+  filePath: string,
+  aliases: ColumnAliases
+): HandbookDataSource {
+  const readContent = async () =>
+    JSON.parse(await fs.promises.readFile(filePath, "utf-8")) as Partial<
+      Record<SheetKey, unknown>
+    >;
+
+  return {
+    description: filePath,
+    watchPaths: [filePath],
+    getVersion: () => getFilesVersion([filePath]),
+    async load(version) {
+      const content = await readContent();
+      return importTables(
+        {
+          office: recordsToTable(content.office),
+          cabinets: recordsToTable(content.cabinets),
+          departments: recordsToTable(content.departments),
+          absences: recordsToTable(content.absences),
+        },
+        aliases,
+        filePath,
+        version
+      );
+    },
+    async applyEdit(edit) {
+      const content = await readContent();
+      const records = content[edit.sheet];
+      if (!Array.isArray(records)) {
+        throw new Error(`В файле нет массива "${edit.sheet}".`);
+      }
+      const index = edit.rowNumber ? edit.rowNumber - 1 : records.length;
+      if (edit.cells === null) {
+        records.splice(index, 1);
+      } else {
+        const header = collectKeys(records);
+        const record = { ...(records[index] || {}) };
+        Object.entries(edit.cells).forEach(([column, value]) => {
+          record[header[Number(column)]] = value;
+        });
+        records[index] = record;
+      }
+      await writeFileAtomic(filePath, JSON.stringify(content, null, 2) + "\n");
+      return edit.cells === null ? null : index + 1;
+    },
+  };
+}
@@ -0,0 +1,121 @@
+import fs from "fs";
+import initSqlJs, { Database, SqlJsStatic } from "sql.js";
+import {
+  ColumnAliases,
+  RawTable,
+  SheetKey,
+  importTables,
+} from "../tableImport";
+import logger from "../logger";
+import { getFilesVersion } from "./fileVersion";
+import { HandbookDataSource } from "./types";
+
+// Таблицы базы, соответствующие листам книги
+const TABLES: Record<SheetKey, string> = {
+  office: "office",
+  cabinets: "cabinets",
+  departments: "departments",
+  absences: "absences",
+};
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+/**
+ * Открывает копию файла базы в памяти. Журнал -wal sql.js не читает.
+ */
+async function openDatabase(filePath: string): Promise<Database> {
+  sqlJs = sqlJs || initSqlJs();
+  const SQL = await sqlJs;
+  return new SQL.Database(await fs.promises.readFile(filePath));
+}
+
+/**
+ * Читает таблицу базы. Номером строки в отчёте служит rowid.
+ * @returns Таблица или undefined, если такой таблицы в базе нет.
+ */
+function readSqliteTable(db: Database, table: string): RawTable | undefined {
+  const exists = db.exec(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?",
+    [table]
+  );
+  if (exists.length === 0) return undefined;
+
+  const [result] = db.exec(`SELECT rowid AS "__rowid", * FROM "${table}"`);
+  if (!result) {
+    const [info] = db.exec(`PRAGMA table_info("${table}")`);
+    return {
+      header: info ? info.values.map((column) => column[1]) : [],
+      rows: [],
+    };
+  }
+  return {
+    header: result.columns.slice(1),
+    rows: result.values.map(([rowid, ...cells]) => ({
+      rowNumber: Number(rowid),
+      cells,
+    })),
+  };
+}
+
+/**
+ * Есть ли у базы непустой журнал WAL: изменения из него ещё не перенесены
+ * в основной файл, и sql.js их не увидит.
+ */
+async function hasPendingWal(walPath: string): Promise<boolean> {
+  try {
+    return (await fs.promises.stat(walPath)).size > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Источник данных: файл SQLite с таблицами office, cabinets и необязательными
+ * departments и absences, колонки которых названы так же, как колонки листов книги
+ * (или именами полей).
+ *
+ * Источник только для чтения: sql.js держит копию базы в памяти и мог бы
+ * записать её только целиком, затерев изменения других процессов. Данные
+ * меняются той системой, которой принадлежит база. Журнал WAL sql.js
+ * не читает, поэтому пишущий процесс должен использовать journal_mode=DELETE
+ * или выполнять контрольную точку (PRAGMA wal_checkpoint): до неё справочник
+ * показывает данные основного файла.
+ * @param filePath - Путь к файлу базы.
+ * @param aliases - Синонимы заголовков колонок.
+ */
+export function createSqliteSource(
+  filePath: string,
+  aliases: ColumnAliases
+): HandbookDataSource {
+  const walPath = `${filePath}-wal`;
+  return {
+    description: filePath,
+    watchPaths: [filePath],
+    getVersion: () => getFilesVersion([filePath]),
+    async load(version) {
+      if (await hasPendingWal(walPath)) {
+        logger.warn(
+          `База ${filePath} содержит изменения в журнале WAL, которые ещё ` +
+            "не перенесены в основной файл; они появятся в справочнике " +
+            "после контрольной точки."
+        );
+      }
+      const db = await openDatabase(filePath);
+      try {
+        return importTables(
+          {
+            office: readSqliteTable(db, TABLES.office),
+            cabinets: readSqliteTable(db, TABLES.cabinets),
+            departments: readSqliteTable(db, TABLES.departments),
+            absences: readSqliteTable(db, TABLES.absences),
+          },
+          aliases,
+          filePath,
+          version
+        );
+      } finally {
+        db.close();
+      }
+    },
+  };
+}
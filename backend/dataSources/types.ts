@@ -0,0 +1,42 @@
+import { ImportResult, RecordSheetKey } from "../tableImport";
+
+/**
+ * Изменение одной строки листа, которое источник записывает обратно.
+ * Колонки задаются номерами из заголовка таблицы (см. SheetLocation).
+ */
+export interface SheetEdit {
+  sheet: RecordSheetKey;
+  /** Номер изменяемой или удаляемой строки; для новой записи не задаётся. */
+  rowNumber?: number;
+  /** Новые значения по номеру колонки; null — строка удаляется. */
+  cells: Record<number, string | number> | null;
+}
+
+/**
+ * Источник данных справочника. Реализации отличаются только способом
+ * чтения таблиц; разбор, проверка строк и отчёт об импорте общие
+ * (см. importTables).
+ */
+export interface HandbookDataSource {
+  /** Описание источника для логов и отчёта об импорте. */
+  readonly description: string;
+  /** Файлы, изменение которых означает изменение данных. */
+  readonly watchPaths: string[];
+  /**
+   * Возвращает версию данных (время последнего изменения источника)
+   * или null, если источник недоступен.
+   */
+  getVersion(): Promise<number | null>;
+  /**
+   * Загружает и проверяет данные.
+   * @param version - Версия, полученная из getVersion.
+   */
+  load(version: number): Promise<ImportResult>;
+  /**
+   * Записывает изменение строки обратно в источник. Остальные строки
+   * и колонки, которые справочник не использует, сохраняются как есть.
+   * Не задаётся у источников только для чтения.
+   * @returns Номер записанной строки или null, если строка удалена.
+   */
+  applyEdit?(edit: SheetEdit): Promise<number | null>;
+}
@@ -0,0 +1,126 @@
+import ExcelJS from "exceljs";
+import {
+  ColumnAliases,
+  RawTable,
+  SHEET_NAMES,
+  importTables,
+} from "../tableImport";
+import { writeFileAtomic } from "./atomicWrite";
+import { getFilesVersion } from "./fileVersion";
+import { HandbookDataSource, SheetEdit } from "./types";
+
+/**
+ * Приводит значение ячейки ExcelJS (текст, число, формула, rich text,
+ * гиперссылка) к простому значению.
+ */
+function cellValue(value: ExcelJS.CellValue): unknown {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object" && !(value instanceof Date)) {
+    if ("richText" in value) {
+      return value.richText.map((part) => part.text).join("");
+    }
+    if ("text" in value) return value.text;
+    if ("result" in value) return cellValue(value.result as ExcelJS.CellValue);
+    if ("error" in value) return "";
+  }
+  return value;
+}
+
+/**
+ * Преобразует лист книги в таблицу: первая строка — заголовки.
+ */
+function worksheetToTable(
+  worksheet: ExcelJS.Worksheet | undefined
+): RawTable | undefined {
+  if (!worksheet) return undefined;
+  const header: unknown[] = [];
+  worksheet.getRow(1).eachCell((cell, colNumber) => {
+    header[colNumber - 1] = cellValue(cell.value);
+  });
+
+  const rows: RawTable["rows"] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const cells: unknown[] = [];
+    row.eachCell((cell, colNumber) => {
+      cells[colNumber - 1] = cellValue(cell.value);
+    });
+    rows.push({ rowNumber, cells });
+  });
+  return { header, rows };
+}
+
+/**
+ * Вносит изменение строки в лист книги. Ячейки, значение которых
+ * не изменилось, не трогаются, чтобы сохранить формулы и оформление.
+ * @returns Номер записанной строки или null, если строка удалена.
+ */
+function applyWorksheetEdit(
+  worksheet: ExcelJS.Worksheet,
+  edit: SheetEdit
+): number | null {
+  if (edit.cells === null) {
+    worksheet.spliceRows(edit.rowNumber!, 1);
+    return null;
+  }
+  const rowNumber = edit.rowNumber ?? worksheet.rowCount + 1;
+  const row = worksheet.getRow(rowNumber);
+  Object.entries(edit.cells).forEach(([column, value]) => {
+    const cell = row.getCell(Number(column) + 1);
+    if (String(cellValue(cell.value)) !== String(value)) {
+      cell.value = value;
+    }
+  });
+  row.commit();
+  return rowNumber;
+}
+
+/**
+ * Источник данных: Excel-книга с листами «Офис», «Кабинеты»
+ * и необязательными листами «Отделы» и «Отсутствия».
+ * @param filePath - Путь к файлу книги.
+ * @param aliases - Синонимы заголовков колонок.
+ */
+export function createXlsxSource(
+  filePath: string,
+  aliases: ColumnAliases
+): HandbookDataSource {
+  return {
+    description: filePath,
+    watchPaths: [filePath],
+    getVersion: () => getFilesVersion([filePath]),
+    async load(version) {
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.readFile(filePath);
+      return importTables(
+        {
+          office: worksheetToTable(workbook.getWorksheet(SHEET_NAMES.office)),
+          cabinets: worksheetToTable(
+            workbook.getWorksheet(SHEET_NAMES.cabinets)
+          ),
+          departments: worksheetToTable(
+            workbook.getWorksheet(SHEET_NAMES.departments)
+          ),
+          absences: worksheetToTable(
+            workbook.getWorksheet(SHEET_NAMES.absences)
+          ),
+        },
+        aliases,
+        filePath,
+        version
+      );
+    },
+    async applyEdit(edit) {
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.readFile(filePath);
+      const worksheet = workbook.getWorksheet(SHEET_NAMES[edit.sheet]);
+      if (!worksheet) {
+        throw new Error(`Лист "${SHEET_NAMES[edit.sheet]}" не найден в книге.`);
+      }
+      const rowNumber = applyWorksheetEdit(worksheet, edit);
+      const buffer = await workbook.xlsx.writeBuffer();
+      await writeFileAtomic(filePath, new Uint8Array(buffer));
+      return rowNumber;
+    },
+  };
+}
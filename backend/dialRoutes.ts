@@ -0,0 +1,150 @@
+import express, { Request, Response, Router } from "express";
+import rateLimit from "express-rate-limit";
+import logger from "./logger";
+import { countRateLimitRejections } from "./metrics";
+import { AmiError, Dialer } from "./ami";
+import { requireJson } from "./adminRoutes";
+import { AdminSession, requireSession } from "./adminSessions";
+import { phoneDigits } from "./tableImport";
+import { HandbookData, PhoneNumber } from "./types";
+
+export interface DialRouterOptions {
+  dialer: Dialer;
+  loadData: (req: Request) => Promise<HandbookData | null>;
+}
+
+/**
+ * Цифры каждого номера из разобранных номеров ячейки: в ячейке может
+ * быть несколько номеров («101, 102»), и звонят на любой из них.
+ */
+const numberDigits = (phones: PhoneNumber[]) =>
+  phones.map((phone) => phoneDigits(phone.raw)).filter(Boolean);
+
+/**
+ * Номера, на которые можно звонить из справочника: внутренние и общие
+ * номера сотрудников, отделов и кабинетов. Звонки на произвольные номера
+ * не допускаются, чтобы через справочник нельзя было звонить за счёт
+ * организации куда угодно.
+ */
+function collectDialableNumbers(data: HandbookData): Set<string> {
+  return new Set([
+    ...data.office.flatMap((e) => [
+      ...numberDigits(e.phones.internalNumber),
+      ...numberDigits(e.phones.generalNumber),
+    ]),
+    ...data.departments.flatMap((d) => numberDigits(d.phones.generalNumber)),
+    ...data.cabinets.flatMap((c) => numberDigits(c.phones.internalNumber)),
+  ]);
+}
+
+/**
+ * Создаёт роутер звонков через АТС: АТС звонит на внутренний номер
+ * вошедшего пользователя и соединяет его с выбранным номером. Номер
+ * звонящего берётся из учётной записи, а не из запроса: иначе через
+ * справочник можно было бы поднимать чужие телефоны.
+ * @param options - Звонилка и функция загрузки справочника.
+ */
+export function createDialRouter(options: DialRouterOptions): Router {
+  const router = Router();
+
+  router.use(express.json({ limit: "1kb" }));
+
+  const dialLimiter = rateLimit({
+    windowMs: 60 * 1000,
+    max: 10,
+    standardHeaders: true,
+    legacyHeaders: false,
+    handler: countRateLimitRejections("dial"),
+    message: {
+      status: "error",
+      message: "Слишком много звонков. Попробуйте позже.",
+    },
+  });
+
+  // По ответу фронтенд решает, показывать ли кнопку звонка
+  router.get("/status", (req: Request, res: Response) => {
+    res.json({ status: "success", data: { enabled: true } });
+  });
+
+  router.post(
+    "/",
+    dialLimiter,
+    requireSession,
+    requireJson,
+    async (req: Request, res: Response) => {
+      const session: AdminSession = res.locals.session;
+      const from = session.internalNumber;
+      if (!from) {
+        return res.status(403).json({
+          status: "error",
+          message: "Для вашей учётной записи не указан внутренний номер.",
+        });
+      }
+      const { to } = req.body || {};
+      if (typeof to !== "string") {
+        return res.status(400).json({
+          status: "error",
+          message: "Укажите номер собеседника.",
+        });
+      }
+      const fromDigits = phoneDigits(from);
+      const toDigits = phoneDigits(to);
+      try {
+        const data = await options.loadData(req);
+        if (!data) {
+          return res.status(500).json({
+            status: "error",
+            message: "Не удалось загрузить данные справочника.",
+          });
+        }
+        const ownNumbers = new Set(
+          data.office.flatMap((e) => numberDigits(e.phones.internalNumber))
+        );
+        if (!ownNumbers.has(fromDigits)) {
+          return res.status(400).json({
+            status: "error",
+            message: `Внутренний номер "${from}" не найден в справочнике.`,
+          });
+        }
+        if (!collectDialableNumbers(data).has(toDigits)) {
+          return res.status(400).json({
+            status: "error",
+            message: `Номер "${to}" не найден в справочнике.`,
+          });
+        }
+        if (fromDigits === toDigits) {
+          return res.status(400).json({
+            status: "error",
+            message: "Нельзя позвонить на свой номер.",
+          });
+        }
+
+        await options.dialer.originate(fromDigits, toDigits);
+        logger.info(
+          `Звонок через АТС: ${fromDigits} -> ${toDigits} - ${session.username}, ${req.ip}`
+        );
+        res.json({
+          status: "success",
+          data: { from: fromDigits, to: toDigits },
+        });
+      } catch (error) {
+        if (error instanceof AmiError) {
+          logger.error(
+            `Звонок ${fromDigits} -> ${toDigits} не выполнен:`,
+            error
+          );
+          return res.status(502).json({
+            status: "error",
+            message: "АТС не приняла вызов. Попробуйте позже.",
+          });
+        }
+        logger.error("Ошибка в /api/dial:", error);
+        res
+          .status(500)
+          .json({ status: "error", message: "Внутренняя ошибка сервера." });
+      }
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,102 @@
+import crypto from "crypto";
+
+// Длина идентификатора, полученного из хэша (в шестнадцатеричных символах)
+const HASH_ID_LENGTH = 10;
+// Явные идентификаторы попадают в URL, поэтому допускаются только безопасные символы
+const EXPLICIT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+function normalizeForHash(value: string): string {
+  return value.toLowerCase().replace(/ё/g, "е").replace(/\s+/g, " ").trim();
+}
+
+function hashId(value: string): string {
+  return crypto
+    .createHash("sha1")
+    .update(value)
+    .digest("hex")
+    .slice(0, HASH_ID_LENGTH);
+}
+
+/**
+ * Проверяет, можно ли использовать значение из колонки ID как идентификатор.
+ * @param id - Значение из книги.
+ */
+export function isValidExplicitId(id: string): boolean {
+  return EXPLICIT_ID_PATTERN.test(id);
+}
+
+/** Поля сотрудника, из которых строится идентификатор. */
+export interface EmployeeIdSource {
+  fullName: string;
+  department: string;
+}
+
+/**
+ * Строит детерминированные идентификаторы сотрудников: хэш ФИО с отделом.
+ * Идентификатор зависит только от самой записи, поэтому появление
+ * однофамильца не меняет ID уже работающих ссылок и избранного. При
+ * переводе в другой отдел ID меняется; избранное находит такую запись
+ * по ФИО. Записи, совпадающие по ФИО и отделу, различаются порядковым
+ * суффиксом в порядке строк — для них, как и для постоянных ссылок
+ * вообще, в книге стоит заполнить колонку ID.
+ * @param employees - Сотрудники без явного ID.
+ * @param taken - Уже занятые идентификаторы; новые добавляются в набор.
+ * @returns Идентификаторы в порядке employees.
+ */
+export function generateEmployeeIds(
+  employees: EmployeeIdSource[],
+  taken: Set<string>
+): string[] {
+  return employees.map((employee) =>
+    takeUniqueId(
+      hashId(
+        `${normalizeForHash(employee.fullName)}|${normalizeForHash(
+          employee.department
+        )}`
+      ),
+      taken
+    )
+  );
+}
+
+/**
+ * Строит детерминированный идентификатор кабинета по городу и адресу.
+ * @param city - Город.
+ * @param address - Адрес.
+ * @param taken - Уже занятые идентификаторы; новый идентификатор добавляется в набор.
+ * @returns Идентификатор, уникальный в пределах набора taken.
+ */
+export function generateCabinetId(
+  city: string,
+  address: string,
+  taken: Set<string>
+): string {
+  return takeUniqueId(
+    hashId(`${normalizeForHash(city)}|${normalizeForHash(address)}`),
+    taken
+  );
+}
+
+/**
+ * Строит детерминированный идентификатор отдела по названию.
+ * @param name - Название отдела.
+ * @param taken - Уже занятые идентификаторы; новый идентификатор добавляется в набор.
+ * @returns Идентификатор, уникальный в пределах набора taken.
+ */
+export function generateDepartmentId(name: string, taken: Set<string>): string {
+  return takeUniqueId(hashId(normalizeForHash(name)), taken);
+}
+
+/**
+ * Добавляет к идентификатору порядковый суффикс, если он уже занят,
+ * и помечает результат как занятый.
+ */
+function takeUniqueId(id: string, taken: Set<string>): string {
+  let suffix = 2;
+  let unique = id;
+  while (taken.has(unique)) {
+    unique = `${id}-${suffix++}`;
+  }
+  taken.add(unique);
+  return unique;
+}
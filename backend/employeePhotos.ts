@@ -0,0 +1,215 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import logger from "./logger";
+import { writeFileAtomic } from "./dataSources/atomicWrite";
+import { OfficeEmployee } from "./types";
+
+/** Изображение для ответа на запрос фотографии. */
+export interface EmployeePhoto {
+  contentType: string;
+  body: Buffer;
+  /** Меняется вместе с исходным файлом и размером миниатюры. */
+  etag: string;
+  /** true — фотография из каталога, false — аватар с инициалами. */
+  isPhoto: boolean;
+}
+
+/** Размеры миниатюр; запрошенный размер округляется вверх до ближайшего. */
+export const PHOTO_SIZES = [48, 96, 192, 384];
+const DEFAULT_PHOTO_SIZE = 96;
+const PHOTO_EXTENSIONS = [".jpg", ".jpeg", ".png", ".webp"];
+const THUMBNAIL_QUALITY = 80;
+// Цвета фона аватаров: цвет выбирается по ID, чтобы не меняться между запросами
+const AVATAR_COLORS = [
+  "#1f77b4",
+  "#2a9d8f",
+  "#8e44ad",
+  "#c0392b",
+  "#d35400",
+  "#16a085",
+  "#2c3e50",
+  "#7f8c8d",
+];
+
+/** Имя файла или ФИО для сопоставления: «Иванов_Иван.jpg» = «иванов иван». */
+const normalizeName = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/ё/g, "е")
+    .replace(/[_\s]+/g, " ")
+    .trim();
+
+const hash = (value: string) =>
+  crypto.createHash("sha1").update(value).digest("hex");
+
+const escapeXml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Приводит запрошенный размер к одному из PHOTO_SIZES, чтобы число
+ * миниатюр в кэше было ограничено.
+ * @param requested - Размер из запроса; некорректный заменяется размером по умолчанию.
+ */
+export function photoSize(requested: number): number {
+  if (!Number.isFinite(requested) || requested <= 0) return DEFAULT_PHOTO_SIZE;
+  return (
+    PHOTO_SIZES.find((size) => size >= requested) ??
+    PHOTO_SIZES[PHOTO_SIZES.length - 1]
+  );
+}
+
+/** Первые буквы фамилии и имени: «Иванов Иван» → «ИИ». */
+function initials(fullName: string): string {
+  return fullName
+    .split(/\s+/)
+    .map((word) => word.match(/\p{L}/u)?.[0] || "")
+    .filter(Boolean)
+    .slice(0, 2)
+    .join("")
+    .toUpperCase();
+}
+
+/**
+ * Аватар с инициалами для сотрудников без фотографии.
+ * @param employee - Сотрудник.
+ * @param size - Сторона изображения в пикселях.
+ */
+function initialsAvatar(employee: OfficeEmployee, size: number): EmployeePhoto {
+  const color =
+    AVATAR_COLORS[
+      parseInt(hash(employee.id).slice(0, 8), 16) % AVATAR_COLORS.length
+    ];
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" ` +
+    `viewBox="0 0 100 100"><rect width="100" height="100" fill="${color}"/>` +
+    `<text x="50" y="50" dy=".35em" text-anchor="middle" ` +
+    `font-family="Arial, Helvetica, sans-serif" font-size="40" fill="#fff">` +
+    `${escapeXml(initials(employee.fullName))}</text></svg>`;
+  return {
+    contentType: "image/svg+xml",
+    body: Buffer.from(svg),
+    etag: `"${hash(svg)}"`,
+    isPhoto: false,
+  };
+}
+
+/**
+ * Фотографии сотрудников из локального каталога. Файл ищется по ID
+ * сотрудника, затем по ФИО («Иванов Иван Иванович.jpg»). Миниатюры
+ * уменьшаются до PHOTO_SIZES и хранятся в каталоге кэша, поэтому каждая
+ * обрабатывается один раз, пока не изменится исходный файл.
+ */
+export class PhotoStore {
+  // Нормализованное имя файла без расширения -> имя файла
+  private index = new Map<string, string>();
+  // Время изменения каталога, по которому построен index
+  private indexedAt: number | null = null;
+  // Миниатюры, которые сейчас создаются
+  private readonly pending = new Map<string, Promise<Buffer>>();
+
+  /**
+   * @param photosDir - Каталог с фотографиями; null — только аватары с инициалами.
+   * @param cacheDir - Каталог для готовых миниатюр.
+   */
+  constructor(
+    private readonly photosDir: string | null,
+    private readonly cacheDir: string
+  ) {
+    if (photosDir) fs.mkdirSync(cacheDir, { recursive: true });
+  }
+
+  /**
+   * Возвращает миниатюру фотографии сотрудника или аватар с инициалами,
+   * если фотографии нет или её не удалось обработать.
+   * @param employee - Сотрудник.
+   * @param size - Размер из PHOTO_SIZES (см. photoSize).
+   */
+  async get(employee: OfficeEmployee, size: number): Promise<EmployeePhoto> {
+    const source = await this.findPhoto(employee);
+    if (!source) return initialsAvatar(employee, size);
+    try {
+      return await this.thumbnail(source, size);
+    } catch (error) {
+      logger.warn(
+        `Не удалось обработать фотографию ${source}: ${
+          (error as Error).message
+        }`
+      );
+      return initialsAvatar(employee, size);
+    }
+  }
+
+  private async findPhoto(employee: OfficeEmployee): Promise<string | null> {
+    if (!this.photosDir) return null;
+    const stat = await fs.promises.stat(this.photosDir).catch(() => null);
+    if (!stat) return null;
+    if (stat.mtimeMs !== this.indexedAt) {
+      const files = await fs.promises.readdir(this.photosDir);
+      this.index = new Map(
+        files
+          .filter((file) =>
+            PHOTO_EXTENSIONS.includes(path.extname(file).toLowerCase())
+          )
+          .map((file) => [
+            normalizeName(path.basename(file, path.extname(file))),
+            file,
+          ])
+      );
+      this.indexedAt = stat.mtimeMs;
+    }
+    const file =
+      this.index.get(normalizeName(employee.id)) ||
+      this.index.get(normalizeName(employee.fullName));
+    return file ? path.join(this.photosDir, file) : null;
+  }
+
+  private async thumbnail(
+    source: string,
+    size: number
+  ): Promise<EmployeePhoto> {
+    const stat = await fs.promises.stat(source);
+    const key = hash(`${source}|${stat.mtimeMs}|${stat.size}|${size}`);
+    const cachePath = path.join(this.cacheDir, `${key}.webp`);
+
+    const body =
+      (await fs.promises.readFile(cachePath).catch(() => null)) ??
+      (await this.resizeOnce(key, source, size, cachePath));
+    return { contentType: "image/webp", body, etag: `"${key}"`, isPhoto: true };
+  }
+
+  /** Создаёт миниатюру; одновременные запросы той же миниатюры ждут одну. */
+  private resizeOnce(
+    key: string,
+    source: string,
+    size: number,
+    cachePath: string
+  ): Promise<Buffer> {
+    let task = this.pending.get(key);
+    if (!task) {
+      task = this.resize(source, size, cachePath).finally(() =>
+        this.pending.delete(key)
+      );
+      this.pending.set(key, task);
+    }
+    return task;
+  }
+
+  private async resize(
+    source: string,
+    size: number,
+    cachePath: string
+  ): Promise<Buffer> {
+    // rotate() без аргументов поворачивает снимок по EXIF-ориентации
+    const body = await sharp(source)
+      .rotate()
+      .resize(size, size, { fit: "cover", position: "attention" })
+      .webp({ quality: THUMBNAIL_QUALITY })
+      .toBuffer();
+    await writeFileAtomic(cachePath, body).catch((error) =>
+      logger.warn(`Не удалось сохранить миниатюру ${cachePath}:`, error)
+    );
+    return body;
+  }
+}
@@ -0,0 +1,383 @@
+import { getSearchIndex } from "./handbookSearch";
+import { formatPhoneNumbers, phoneTelUri } from "./phoneNumbers";
+import {
+  Cabinet,
+  Department,
+  HandbookData,
+  OfficeEmployee,
+  PhoneNumber,
+} from "./types";
+
+export type VCardVersion = "3.0" | "4.0";
+
+export interface DepartmentGroup {
+  department: string;
+  generalNumber: string;
+  employees: OfficeEmployee[];
+}
+
+const NO_DEPARTMENT = "Без отдела";
+// Порядок отдела, которого нет на листе «Отделы»
+const DEFAULT_DEPARTMENT_ORDER = 99;
+// Максимальная длина строки vCard в октетах (RFC 6350, раздел 3.2)
+const VCARD_LINE_LIMIT = 75;
+const CSV_DELIMITER = ";";
+
+const compareText = (a: string, b: string) =>
+  a.toLowerCase().localeCompare(b.toLowerCase());
+
+/**
+ * Отбирает сотрудников по строке поиска тем же поиском, что и интерфейс
+ * (ФИО, должность, отдел и номера с учётом опечаток и раскладки).
+ * @param data - Данные справочника.
+ * @param query - Строка поиска; пустая строка возвращает всех.
+ */
+export function filterEmployees(
+  data: HandbookData,
+  query: string
+): OfficeEmployee[] {
+  if (!query) return data.office;
+  return getSearchIndex(data)
+    .search(query)
+    .office.map((hit) => hit.record);
+}
+
+/**
+ * Отбирает кабинеты по строке поиска (город, адрес, внутренний номер).
+ * @param data - Данные справочника.
+ * @param query - Строка поиска; пустая строка возвращает все.
+ */
+export function filterCabinets(data: HandbookData, query: string): Cabinet[] {
+  if (!query) return data.cabinets;
+  return getSearchIndex(data)
+    .search(query)
+    .cabinets.map((hit) => hit.record);
+}
+
+/**
+ * Группирует сотрудников по отделам так же, как интерфейс справочника:
+ * отделы по порядку с листа «Отделы», затем по алфавиту, внутри отдела —
+ * по приоритету, затем по ФИО.
+ * @param employees - Сотрудники.
+ * @param departments - Описания отделов; общий номер отдела берётся
+ *   отсюда, а при отсутствии описания — у первого сотрудника.
+ * @returns Упорядоченный список отделов.
+ */
+export function groupByDepartment(
+  employees: OfficeEmployee[],
+  departments: Department[] = []
+): DepartmentGroup[] {
+  const described = new Map(departments.map((d) => [d.name, d]));
+  const order = (group: DepartmentGroup) =>
+    described.get(group.department)?.sortOrder ?? DEFAULT_DEPARTMENT_ORDER;
+  const sorted = [...employees].sort(
+    (a, b) =>
+      a.sortPriority - b.sortPriority || compareText(a.fullName, b.fullName)
+  );
+  const groups = new Map<string, DepartmentGroup>();
+  sorted.forEach((employee) => {
+    const department = employee.department || NO_DEPARTMENT;
+    if (!groups.has(department)) {
+      groups.set(department, {
+        department,
+        generalNumber:
+          formatPhoneNumbers(
+            described.get(department)?.phones.generalNumber || []
+          ) ||
+          formatPhoneNumbers(employee.phones.generalNumber) ||
+          "—",
+        employees: [],
+      });
+    }
+    groups.get(department)!.employees.push(employee);
+  });
+  return Array.from(groups.values()).sort(
+    (a, b) => order(a) - order(b) || compareText(a.department, b.department)
+  );
+}
+
+/**
+ * Сортирует кабинеты по городу, затем по адресу.
+ */
+export function sortCabinets(cabinets: Cabinet[]): Cabinet[] {
+  return [...cabinets].sort(
+    (a, b) => compareText(a.city, b.city) || compareText(a.address, b.address)
+  );
+}
+
+// --- vCard ---
+
+function escapeVCardText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/,/g, "\\,")
+    .replace(/;/g, "\\;");
+}
+
+/**
+ * Переносит длинную строку vCard: каждая строка продолжения начинается
+ * с пробела. Разрыв не попадает внутрь многобайтового символа.
+ */
+function foldVCardLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? VCARD_LINE_LIMIT : VCARD_LINE_LIMIT - 1;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * Формирует vCard для одного сотрудника.
+ * @param employee - Сотрудник.
+ * @param version - Версия формата vCard.
+ * @param organization - Название организации для поля ORG (может быть пустым).
+ */
+function employeeToVCard(
+  employee: OfficeEmployee,
+  version: VCardVersion,
+  organization: string
+): string {
+  const [family = "", given = "", ...additional] = employee.fullName
+    .split(/\s+/)
+    .filter(Boolean);
+  const orgParts = [organization, employee.department]
+    .filter(Boolean)
+    .map(escapeVCardText);
+
+  const lines = [
+    "BEGIN:VCARD",
+    `VERSION:${version}`,
+    `UID${version === "4.0" ? ";VALUE=text" : ""}:${employee.id}`,
+    `N:${[family, given, additional.join(" "), "", ""]
+      .map(escapeVCardText)
+      .join(";")}`,
+    `FN:${escapeVCardText(employee.fullName)}`,
+  ];
+  if (orgParts.length > 0) lines.push(`ORG:${orgParts.join(";")}`);
+  if (employee.position) {
+    lines.push(`TITLE:${escapeVCardText(employee.position)}`);
+  }
+
+  const addPhones = (
+    phones: PhoneNumber[],
+    params3: string,
+    params4: string
+  ) => {
+    phones.forEach((phone) => {
+      if (version === "3.0") {
+        lines.push(`TEL;${params3}:${escapeVCardText(phone.formatted)}`);
+        return;
+      }
+      const uri = phoneTelUri(phone);
+      if (uri) lines.push(`TEL;VALUE=uri;${params4}:${uri}`);
+    });
+  };
+  addPhones(
+    employee.phones.internalNumber,
+    "TYPE=WORK,VOICE,PREF",
+    'TYPE="work,voice";PREF=1'
+  );
+  addPhones(employee.phones.generalNumber, "TYPE=WORK,MSG", "TYPE=work");
+  lines.push("END:VCARD");
+
+  return lines.map(foldVCardLine).join("\r\n");
+}
+
+/**
+ * Формирует файл vCard со всеми переданными сотрудниками.
+ * @param employees - Сотрудники.
+ * @param version - Версия формата: 3.0 понимает большинство настольных
+ * телефонов, 4.0 — современные почтовые клиенты и смартфоны.
+ * @param organization - Название организации для поля ORG.
+ */
+export function toVCard(
+  employees: OfficeEmployee[],
+  version: VCardVersion,
+  organization: string
+): string {
+  return (
+    employees
+      .map((employee) => employeeToVCard(employee, version, organization))
+      .join("\r\n") + "\r\n"
+  );
+}
+
+// --- CSV ---
+
+// Значения, которые Excel может принять за формулу: «+7 (495)…», «=…», «@…»
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Экранирует значение ячейки CSV. Значение, похожее на формулу, получает
+ * префикс «'» и кавычки: Excel показывает его как текст и не вычисляет.
+ */
+function escapeCsvValue(value: string): string {
+  if (CSV_FORMULA_PREFIX.test(value)) {
+    return `"'${value.replace(/"/g, '""')}"`;
+  }
+  return /[";\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Формирует CSV для Excel с русской локалью: разделитель «;» и BOM,
+ * без которого Excel открывает UTF-8 как ANSI.
+ * @param header - Заголовки колонок.
+ * @param rows - Строки данных.
+ */
+export function toCsv(header: string[], rows: string[][]): string {
+  const lines = [header, ...rows].map((row) =>
+    row.map(escapeCsvValue).join(CSV_DELIMITER)
+  );
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Формирует CSV со списком сотрудников в порядке отображения в справочнике.
+ */
+export function officeToCsv(
+  employees: OfficeEmployee[],
+  departments: Department[] = []
+): string {
+  const rows = groupByDepartment(employees, departments).flatMap((group) =>
+    group.employees.map((e) => [
+      group.department,
+      e.fullName,
+      e.position,
+      formatPhoneNumbers(e.phones.internalNumber),
+      formatPhoneNumbers(e.phones.generalNumber),
+    ])
+  );
+  return toCsv(
+    ["Отдел", "ФИО", "Должность", "Внутренний номер", "Общий номер"],
+    rows
+  );
+}
+
+/**
+ * Формирует CSV со списком кабинетов.
+ */
+export function cabinetsToCsv(cabinets: Cabinet[]): string {
+  const rows = sortCabinets(cabinets).map((c) => [
+    c.city,
+    c.address,
+    formatPhoneNumbers(c.phones.internalNumber),
+  ]);
+  return toCsv(["Город", "Адрес", "Внутренний номер"], rows);
+}
+
+// --- Печатная версия ---
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const PHONEBOOK_STYLES = `
+  body { font-family: "Open Sans", "Roboto", Arial, sans-serif; font-size: 12pt; color: #212529; margin: 20px; }
+  h1 { font-size: 18pt; margin: 0 0 4px; }
+  h2 { font-size: 14pt; margin: 24px 0 8px; }
+  .generated { color: #555; font-size: 10pt; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 12px; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #e9ecef; }
+  .department th { background: #e9f5ff; font-size: 12pt; }
+  .department th .general-number { float: right; font-weight: 600; }
+  .number { width: 20%; white-space: nowrap; text-align: center; font-weight: 600; }
+  .position { color: #555; font-size: 10pt; }
+  thead { display: table-header-group; }
+  tr { page-break-inside: avoid; }
+  @page { margin: 15mm; }
+`;
+
+/**
+ * Формирует печатную HTML-версию телефонного справочника, сгруппированную
+ * как в интерфейсе. PDF получается печатью страницы в PDF из браузера.
+ * @param groups - Сотрудники, сгруппированные по отделам.
+ * @param cabinets - Кабинеты.
+ * @param options - Заголовок, подпись о дате и автозапуск печати.
+ */
+export function renderPhonebookHtml(
+  groups: DepartmentGroup[],
+  cabinets: Cabinet[],
+  options: { title: string; generatedAt: string; autoPrint: boolean }
+): string {
+  const departments = groups
+    .map(
+      (group) => `
+    <table class="department">
+      <thead>
+        <tr><th colspan="2">${escapeHtml(group.department)}
+          <span class="general-number">Общий номер: ${escapeHtml(
+            group.generalNumber
+          )}</span></th></tr>
+      </thead>
+      <tbody>
+        ${group.employees
+          .map(
+            (e) => `<tr>
+          <td>${escapeHtml(e.fullName)}<div class="position">${escapeHtml(
+              e.position
+            )}</div></td>
+          <td class="number">${escapeHtml(
+            formatPhoneNumbers(e.phones.internalNumber)
+          )}</td>
+        </tr>`
+          )
+          .join("\n        ")}
+      </tbody>
+    </table>`
+    )
+    .join("\n");
+
+  const cabinetsTable =
+    cabinets.length === 0
+      ? ""
+      : `
+    <h2>Кабинеты</h2>
+    <table>
+      <thead><tr><th>Город</th><th>Адрес</th><th class="number">Внутренний номер</th></tr></thead>
+      <tbody>
+        ${sortCabinets(cabinets)
+          .map(
+            (c) =>
+              `<tr><td>${escapeHtml(c.city)}</td><td>${escapeHtml(
+                c.address
+              )}</td><td class="number">${escapeHtml(
+                formatPhoneNumbers(c.phones.internalNumber)
+              )}</td></tr>`
+          )
+          .join("\n        ")}
+      </tbody>
+    </table>`;
+
+  return `<!DOCTYPE html>
+<html lang="ru">
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(options.title)}</title>
+    <style>${PHONEBOOK_STYLES}</style>
+  </head>
+  <body${options.autoPrint ? ' onload="window.print()"' : ""}>
+    <h1>${escapeHtml(options.title)}</h1>
+    <div class="generated">${escapeHtml(options.generatedAt)}</div>
+    ${groups.length > 0 ? `<h2>Офис</h2>${departments}` : ""}
+    ${cabinetsTable}
+  </body>
+</html>
+`;
+}
@@ -0,0 +1,150 @@
+import { Request, Response, Router } from "express";
+import { format } from "date-fns";
+import logger from "./logger";
+import {
+  VCardVersion,
+  cabinetsToCsv,
+  filterCabinets,
+  filterEmployees,
+  groupByDepartment,
+  officeToCsv,
+  renderPhonebookHtml,
+  toVCard,
+} from "./exportFormats";
+import { HandbookData } from "./types";
+
+const PHONEBOOK_TITLE = "Телефонный справочник";
+
+function queryString(req: Request, name: string): string {
+  const value = req.query[name];
+  return typeof value === "string" ? value.trim() : "";
+}
+
+/**
+ * Создаёт роутер экспорта справочника: vCard, CSV и печатная версия.
+ * Все выгрузки учитывают параметр q — ту же строку поиска, что и интерфейс.
+ * @param loadData - Функция загрузки актуальных данных справочника,
+ * видимых автору запроса.
+ * @param organization - Название организации для vCard и заголовка
+ * печатной версии; пустая строка — не указывать.
+ */
+export function createExportRouter(
+  loadData: (req: Request) => Promise<HandbookData | null>,
+  organization: string
+): Router {
+  const router = Router();
+
+  /**
+   * Оборачивает обработчик выгрузки: загружает данные и отвечает ошибкой,
+   * если справочник недоступен.
+   */
+  const withData =
+    (handler: (data: HandbookData, req: Request, res: Response) => void) =>
+    async (req: Request, res: Response) => {
+      try {
+        const data = await loadData(req);
+        if (!data) {
+          return res.status(500).json({
+            status: "error",
+            message: "Не удалось загрузить данные справочника.",
+          });
+        }
+        handler(data, req, res);
+      } catch (error) {
+        logger.error(`Ошибка экспорта ${req.path}:`, error);
+        res
+          .status(500)
+          .json({ status: "error", message: "Внутренняя ошибка сервера." });
+      }
+    };
+
+  // vCard: весь справочник, один отдел (department) или один сотрудник (id)
+  router.get(
+    "/vcard",
+    withData((data, req, res) => {
+      const version: VCardVersion =
+        queryString(req, "version") === "4.0" ? "4.0" : "3.0";
+      const id = queryString(req, "id");
+      const department = queryString(req, "department");
+
+      let employees = filterEmployees(data, queryString(req, "q"));
+      if (department) {
+        employees = employees.filter((e) => e.department === department);
+      }
+      if (id) {
+        employees = employees.filter((e) => e.id === id);
+      }
+      if (employees.length === 0) {
+        return res
+          .status(404)
+          .json({ status: "error", message: "Нет сотрудников для выгрузки." });
+      }
+
+      const fileName =
+        id && employees.length === 1
+          ? employees[0].fullName
+          : department || "Справочник";
+      res.attachment(`${fileName}.vcf`);
+      res.type("text/vcard; charset=utf-8");
+      const ordered = groupByDepartment(employees, data.departments).flatMap(
+        (g) => g.employees
+      );
+      res.send(toVCard(ordered, version, organization));
+    })
+  );
+
+  // CSV со списком сотрудников
+  router.get(
+    "/office.csv",
+    withData((data, req, res) => {
+      let employees = filterEmployees(data, queryString(req, "q"));
+      const department = queryString(req, "department");
+      if (department) {
+        employees = employees.filter((e) => e.department === department);
+      }
+      res.attachment("Офис.csv");
+      res.type("text/csv; charset=utf-8");
+      res.send(officeToCsv(employees, data.departments));
+    })
+  );
+
+  // CSV со списком кабинетов
+  router.get(
+    "/cabinets.csv",
+    withData((data, req, res) => {
+      const cabinets = filterCabinets(data, queryString(req, "q"));
+      res.attachment("Кабинеты.csv");
+      res.type("text/csv; charset=utf-8");
+      res.send(cabinetsToCsv(cabinets));
+    })
+  );
+
+  // Печатная версия; print=1 сразу открывает диалог печати (в т.ч. в PDF)
+  router.get(
+    "/phonebook.html",
+    withData((data, req, res) => {
+      const query = queryString(req, "q");
+      const groups = groupByDepartment(
+        filterEmployees(data, query),
+        data.departments
+      );
+      const cabinets = filterCabinets(data, query);
+      const generatedAt =
+        `Данные от ${format(new Date(data.timestamp), "dd.MM.yyyy HH:mm")}` +
+        (query ? `, отбор: «${query}»` : "");
+
+      res.type("html");
+      res.send(
+        renderPhonebookHtml(groups, cabinets, {
+          title: organization
+            ? `${PHONEBOOK_TITLE} — ${organization}`
+            : PHONEBOOK_TITLE,
+          generatedAt,
+          autoPrint: queryString(req, "print") === "1",
+        })
+      );
+    })
+  );
+
+  return router;
+}
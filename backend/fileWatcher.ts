@@ -0,0 +1,88 @@
+import fs from "fs";
+import path from "path";
+import logger from "./logger";
+
+// Пауза перед повторной попыткой наблюдения: каталог мог ещё не появиться
+// или быть временно недоступен (сетевой диск)
+const RESTART_DELAY_MS = 5000;
+
+/**
+ * Следит за изменениями файла и вызывает обработчик после паузы в событиях.
+ * Наблюдение ведётся за каталогом, а не за самим файлом: Excel и другие
+ * редакторы сохраняют книгу через временный файл и переименование, после
+ * чего наблюдатель, привязанный к старому inode, перестаёт получать события.
+ * Если каталога нет или наблюдатель завершился с ошибкой, наблюдение
+ * перезапускается через RESTART_DELAY_MS, а после перезапуска обработчик
+ * вызывается, чтобы не пропустить изменения за время простоя.
+ * @param filePath - Путь к отслеживаемому файлу.
+ * @param debounceMs - Пауза после последнего события перед вызовом обработчика.
+ * @param onChange - Обработчик изменения.
+ * @returns Функция, останавливающая наблюдение.
+ */
+export function watchFile(
+  filePath: string,
+  debounceMs: number,
+  onChange: () => void
+): () => void {
+  const directory = path.dirname(filePath);
+  const fileName = path.basename(filePath);
+  let timer: NodeJS.Timeout | null = null;
+  let restartTimer: NodeJS.Timeout | null = null;
+  let watcher: fs.FSWatcher | null = null;
+  let stopped = false;
+
+  const scheduleChange = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      onChange();
+    }, debounceMs);
+  };
+
+  const scheduleRestart = () => {
+    if (stopped || restartTimer) return;
+    restartTimer = setTimeout(() => {
+      restartTimer = null;
+      if (start()) scheduleChange();
+    }, RESTART_DELAY_MS);
+  };
+
+  /** @returns true, если наблюдение запущено. */
+  const start = (): boolean => {
+    try {
+      watcher = fs.watch(directory, (eventType, changedName) => {
+        if (changedName && changedName.toString() !== fileName) return;
+        scheduleChange();
+      });
+    } catch (error) {
+      logger.error(
+        `Не удалось начать наблюдение за ${filePath}, повтор через ` +
+          `${RESTART_DELAY_MS / 1000} с:`,
+        error
+      );
+      scheduleRestart();
+      return false;
+    }
+
+    watcher.on("error", (error) => {
+      logger.error(
+        `Ошибка наблюдения за ${filePath}, перезапуск через ` +
+          `${RESTART_DELAY_MS / 1000} с:`,
+        error
+      );
+      watcher?.close();
+      watcher = null;
+      scheduleRestart();
+    });
+    logger.info(`Наблюдение за изменениями файла: ${filePath}`);
+    return true;
+  };
+
+  start();
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    if (restartTimer) clearTimeout(restartTimer);
+    watcher?.close();
+  };
+}
@@ -0,0 +1,111 @@
+import { Cabinet, Department, HandbookData, OfficeEmployee } from "./types";
+
+export interface RecordChange<T> {
+  before: T;
+  after: T;
+}
+
+export interface DatasetDelta<T> {
+  added: T[];
+  removed: T[];
+  changed: RecordChange<T>[];
+}
+
+export interface HandbookDelta {
+  from: number;
+  to: number;
+  office: DatasetDelta<OfficeEmployee>;
+  cabinets: DatasetDelta<Cabinet>;
+  departments: DatasetDelta<Department>;
+}
+
+/** Ключ, по которому запись сотрудника сопоставляется между версиями. */
+export function employeeIdentity(employee: OfficeEmployee): string {
+  return employee.id;
+}
+
+/** Ключ, по которому запись кабинета сопоставляется между версиями. */
+export function cabinetIdentity(cabinet: Cabinet): string {
+  return cabinet.id;
+}
+
+/** Ключ, по которому описание отдела сопоставляется между версиями. */
+export function departmentIdentity(department: Department): string {
+  return department.id;
+}
+
+/**
+ * Сравнивает два набора записей.
+ * Сначала отбрасываются полностью совпадающие записи, затем оставшиеся
+ * сопоставляются по ключу: пара с одинаковым ключом считается изменённой
+ * записью, остальные — добавленными или удалёнными.
+ * @param before - Записи старой версии.
+ * @param after - Записи новой версии.
+ * @param identity - Функция, возвращающая ключ записи.
+ * @returns Добавленные, удалённые и изменённые записи.
+ */
+export function diffRecords<T extends object>(
+  before: T[],
+  after: T[],
+  identity: (item: T) => string
+): DatasetDelta<T> {
+  const unmatched = new Map<string, T[]>();
+  before.forEach((item) => {
+    const key = JSON.stringify(item);
+    unmatched.set(key, [...(unmatched.get(key) || []), item]);
+  });
+
+  const candidates: T[] = [];
+  after.forEach((item) => {
+    const key = JSON.stringify(item);
+    const same = unmatched.get(key);
+    if (same && same.length > 0) {
+      same.pop();
+    } else {
+      candidates.push(item);
+    }
+  });
+
+  const removedByIdentity = new Map<string, T[]>();
+  Array.from(unmatched.values())
+    .flat()
+    .forEach((item) => {
+      const key = identity(item);
+      removedByIdentity.set(key, [...(removedByIdentity.get(key) || []), item]);
+    });
+
+  const delta: DatasetDelta<T> = { added: [], removed: [], changed: [] };
+  candidates.forEach((item) => {
+    const previous = removedByIdentity.get(identity(item));
+    if (previous && previous.length > 0) {
+      delta.changed.push({ before: previous.shift()!, after: item });
+    } else {
+      delta.added.push(item);
+    }
+  });
+  removedByIdentity.forEach((items) => delta.removed.push(...items));
+  return delta;
+}
+
+/**
+ * Строит разницу между двумя версиями справочника.
+ * @param previous - Предыдущая версия.
+ * @param current - Текущая версия.
+ * @returns Изменения сотрудников, кабинетов и отделов.
+ */
+export function diffHandbook(
+  previous: HandbookData,
+  current: HandbookData
+): HandbookDelta {
+  return {
+    from: previous.timestamp,
+    to: current.timestamp,
+    office: diffRecords(previous.office, current.office, employeeIdentity),
+    cabinets: diffRecords(previous.cabinets, current.cabinets, cabinetIdentity),
+    departments: diffRecords(
+      previous.departments,
+      current.departments,
+      departmentIdentity
+    ),
+  };
+}
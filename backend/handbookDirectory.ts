@@ -0,0 +1,457 @@
+import fs from "fs";
+import path from "path";
+import logger from "./logger";
+import { applyAbsences, localDate } from "./absences";
+import { ColumnAliases, buildFailedReport } from "./tableImport";
+import {
+  HandbookDataSource,
+  createDataSource,
+  sourceFileNames,
+} from "./dataSources";
+import { watchFile } from "./fileWatcher";
+import { HandbookEvents } from "./handbookEvents";
+import { SnapshotStore } from "./snapshotStore";
+import { HandbookHistory } from "./handbookHistory";
+import { OrgChart, buildOrgChart } from "./orgChart";
+import { PhotoStore } from "./employeePhotos";
+import {
+  QualityIssueKind,
+  QualityReport,
+  buildQualityReport,
+} from "./qualityReport";
+import { recordCacheHit, recordLoadError, recordReload } from "./metrics";
+import { HandbookData, ImportReport } from "./types";
+
+/** Описание справочника из файла DIRECTORIES_FILE. */
+export interface DirectoryConfig {
+  /** Адрес справочника в API: /api/directories/<slug>. */
+  slug: string;
+  /** Название для переключателя, например название компании. */
+  name: string;
+  /** Настройки источника данных — те же переменные, что и в окружении. */
+  source: NodeJS.ProcessEnv;
+}
+
+export interface DirectoryOptions {
+  /** Каталог, относительно которого указываются пути к файлам данных. */
+  baseDir: string;
+  aliases: ColumnAliases;
+  /** Сколько последних версий хранить для построения дельты. */
+  snapshotLimit: number;
+  /** Каталог истории изменений этого справочника. */
+  historyDir: string;
+  historyLimit: number;
+  /** Каталог миниатюр фотографий (общий для всех справочников). */
+  photoCacheDir: string;
+}
+
+/**
+ * Состояние справочника для /health. status: ok — загружена текущая версия
+ * источника; degraded — источник изменился или пропал, прочитать его
+ * не удалось, и отдаются прежние данные; error — данных нет.
+ * Время — в миллисекундах Unix.
+ */
+export interface DirectoryHealth {
+  slug: string;
+  name: string;
+  status: "ok" | "degraded" | "error";
+  cacheStatus: "active" | "empty";
+  /** Имена файлов источника без каталогов сервера. */
+  source: string;
+  sourceModifiedAt: number | null;
+  loadedVersion: number | null;
+  lastSuccessfulLoadAt: number | null;
+  lastError: { message: string; at: number } | null;
+  subscribers: number;
+}
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+/**
+ * Читает список справочников из JSON-файла. Формат:
+ * [{ "slug": "main", "name": "Головная компания",
+ *    "source": { "EXCEL_FILE_NAME": "data/main.xlsx" } }].
+ * Первый справочник в списке — основной: он же отдаётся по /api/handbook.
+ * @param filePath - Путь к файлу.
+ * @throws Error, если файл не читается или описание некорректно.
+ */
+export function loadDirectoryConfigs(filePath: string): DirectoryConfig[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `ОШИБКА: Не удалось прочитать список справочников ${filePath}: ${
+        (error as Error).message
+      }`
+    );
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error(
+      `ОШИБКА: ${filePath} должен содержать непустой массив справочников`
+    );
+  }
+
+  const slugs = new Set<string>();
+  return parsed.map((item, index) => {
+    const { slug, name, source } = item || {};
+    if (typeof slug !== "string" || !SLUG_PATTERN.test(slug)) {
+      throw new Error(
+        `ОШИБКА: Справочник №${index + 1}: slug должен состоять из латинских ` +
+          `строчных букв, цифр и дефиса (до 32 символов)`
+      );
+    }
+    if (slugs.has(slug)) {
+      throw new Error(`ОШИБКА: Справочник "${slug}" описан дважды`);
+    }
+    if (typeof name !== "string" || !name.trim()) {
+      throw new Error(`ОШИБКА: У справочника "${slug}" не задано название`);
+    }
+    if (!source || typeof source !== "object") {
+      throw new Error(
+        `ОШИБКА: У справочника "${slug}" не задан источник данных (source)`
+      );
+    }
+    slugs.add(slug);
+    return { slug, name: name.trim(), source };
+  });
+}
+
+/**
+ * Пишет в лог сводку по замечаниям импорта; подробности доступны
+ * через /api/handbook/import-report.
+ * @param report - Отчёт о последнем импорте.
+ */
+function logImportIssues(report: ImportReport) {
+  report.issues.forEach((issue) => {
+    const location = issue.row
+      ? `${issue.sheet}, строка ${issue.row}`
+      : issue.sheet;
+    logger.debug(`Импорт [${location}]: ${issue.message}`);
+  });
+  const errors = report.issues.filter((i) => i.severity === "error").length;
+  const warnings = report.issues.length - errors;
+  if (report.issues.length > 0) {
+    logger.warn(
+      `Импорт завершён с замечаниями: ошибок ${errors}, предупреждений ${warnings}.`
+    );
+  }
+}
+
+// Замечания, которые пишутся в лог предупреждением каждое, а не только
+// в сводке: расхождение общего номера с номером отдела
+const WARN_QUALITY_KINDS: QualityIssueKind[] = ["department-number-mismatch"];
+
+/**
+ * Пишет в лог сводку проверки данных; подробности доступны
+ * через /api/handbook/quality.
+ * @param report - Отчёт о проверке данных.
+ */
+function logQualityIssues(report: QualityReport) {
+  report.issues.forEach((issue) => {
+    const message = `Проверка данных [${issue.kind}]: ${issue.message}`;
+    if (WARN_QUALITY_KINDS.includes(issue.kind)) logger.warn(message);
+    else logger.debug(message);
+  });
+  const errors = report.issues.filter((i) => i.severity === "error").length;
+  const warnings = report.issues.length - errors;
+  if (report.issues.length > 0) {
+    logger.warn(
+      `Проверка данных: ошибок ${errors}, предупреждений ${warnings}.`
+    );
+  }
+}
+
+/**
+ * Один справочник (компания или филиал): источник данных, кэш в памяти,
+ * версии для дельт, история изменений и поток событий.
+ */
+export class HandbookDirectory {
+  readonly slug: string;
+  readonly name: string;
+  readonly dataSource: HandbookDataSource;
+  readonly snapshots: SnapshotStore;
+  readonly history: HandbookHistory;
+  readonly photos: PhotoStore;
+  readonly events = new HandbookEvents();
+
+  // Кэш данных в памяти
+  private cachedData: HandbookData | null = null;
+  private lastModifiedTime = 0;
+  // Дата, на которую отмечены отсутствия; null — лист «Отсутствия» пуст
+  private absenceDate: string | null = null;
+  // Отчёт о последнем импорте (отклонённые строки и предупреждения)
+  private lastImportReport: ImportReport | null = null;
+  // Время последнего успешного чтения источника и последняя ошибка
+  private lastSuccessfulLoadAt: number | null = null;
+  private lastLoadError: { message: string; at: number } | null = null;
+  // Версия источника, которую не удалось прочитать: она не перечитывается
+  // на каждый запрос, пока файл не изменится снова
+  private failedVersion: number | null = null;
+  // Идущая загрузка: запросы во время перечитывания ждут её, а не
+  // разбирают источник каждый заново
+  private loading: Promise<HandbookData | null> | null = null;
+  // Версия данных, о которой подписчики SSE уже оповещены
+  private notifiedTimestamp: number | null = null;
+  // Организационная структура строится один раз для каждой версии данных
+  // и роли: данные, отфильтрованные для разных ролей, — разные объекты
+  private orgCharts = new WeakMap<HandbookData, OrgChart>();
+  // Проверка данных выполняется после каждой загрузки новой версии
+  private cachedQuality: QualityReport | null = null;
+
+  constructor(config: DirectoryConfig, options: DirectoryOptions) {
+    this.slug = config.slug;
+    this.name = config.name;
+    this.dataSource = createDataSource(
+      config.source,
+      options.baseDir,
+      options.aliases
+    );
+    this.snapshots = new SnapshotStore(options.snapshotLimit);
+    this.history = new HandbookHistory(
+      options.historyDir,
+      options.historyLimit
+    );
+    // Фотографии сотрудников: PHOTOS_DIR из настроек справочника
+    this.photos = new PhotoStore(
+      config.source.PHOTOS_DIR
+        ? path.resolve(options.baseDir, config.source.PHOTOS_DIR)
+        : null,
+      options.photoCacheDir
+    );
+  }
+
+  /** Отчёт о последнем импорте или null, если импорт не выполнялся. */
+  get importReport(): ImportReport | null {
+    return this.lastImportReport;
+  }
+
+  /**
+   * Загружает и парсит данные из источника данных.
+   * Использует кэширование в памяти: если источник не был изменен с момента
+   * последней загрузки, возвращает данные из кэша. Если источник пропал
+   * или не читается, отдаются данные последней успешной загрузки.
+   * Одновременные вызовы получают результат одной загрузки.
+   * @returns Объект с данными справочника или null, если источник
+   * не удалось прочитать ни разу.
+   */
+  load(): Promise<HandbookData | null> {
+    if (!this.loading) {
+      this.loading = this.loadFromSource().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadFromSource(): Promise<HandbookData | null> {
+    let currentModTime: number | null = null;
+    try {
+      currentModTime = await this.dataSource.getVersion();
+      if (currentModTime === null) {
+        logger.error(
+          `Источник данных недоступен: ${this.dataSource.description}`
+        );
+        this.lastImportReport = buildFailedReport(
+          this.dataSource.description,
+          "Файл не найден."
+        );
+        this.lastLoadError = { message: "Файл не найден.", at: Date.now() };
+        recordLoadError(this.slug);
+        return this.cachedData;
+      }
+      if (currentModTime === this.failedVersion) {
+        return this.cachedData;
+      }
+
+      if (
+        this.cachedData &&
+        this.lastModifiedTime === currentModTime &&
+        (this.absenceDate === null || this.absenceDate === localDate())
+      ) {
+        logger.info("Возврат данных из кэша.");
+        this.lastLoadError = null;
+        recordCacheHit(this.slug);
+        return this.cachedData;
+      }
+
+      logger.info(`Загрузка данных из: ${this.dataSource.description}`);
+      const loadStartedAt = process.hrtime.bigint();
+      const { office, cabinets, departments, absences, visibility, report } =
+        await this.dataSource.load(currentModTime);
+      this.lastImportReport = report;
+      this.lastSuccessfulLoadAt = Date.now();
+      this.lastLoadError = null;
+      this.failedVersion = null;
+      recordReload(
+        this.slug,
+        report,
+        Number(process.hrtime.bigint() - loadStartedAt) / 1e9
+      );
+
+      const now = new Date();
+      this.absenceDate = absences.length > 0 ? localDate(now) : null;
+      this.cachedData = {
+        // Отсутствия зависят от даты, поэтому с наступлением нового дня
+        // меняется и версия данных: клиенты получат обновлённые статусы
+        timestamp: this.absenceDate
+          ? Math.max(currentModTime, new Date(now).setHours(0, 0, 0, 0))
+          : currentModTime,
+        office: applyAbsences(office, absences, localDate(now)),
+        cabinets,
+        departments,
+        visibility,
+      };
+      this.lastModifiedTime = currentModTime;
+      this.snapshots.remember(this.cachedData);
+      await this.history
+        .record(this.cachedData)
+        .catch((error) =>
+          logger.error("Не удалось сохранить историю изменений:", error)
+        );
+
+      logger.info(
+        `Данные загружены. Офис: ${office.length}, Кабинеты: ${cabinets.length}, ` +
+          `Отделы: ${departments.length}`
+      );
+      logImportIssues(report);
+      logQualityIssues(this.quality(this.cachedData));
+      return this.cachedData;
+    } catch (error) {
+      logger.error("Ошибка при обработке источника данных:", error);
+      this.lastImportReport = buildFailedReport(
+        this.dataSource.description,
+        `Не удалось прочитать источник данных: ${(error as Error).message}`
+      );
+      this.lastLoadError = {
+        message: (error as Error).message,
+        at: Date.now(),
+      };
+      this.failedVersion = currentModTime;
+      recordLoadError(this.slug);
+      return this.cachedData;
+    }
+  }
+
+  /**
+   * Перечитывает источник после его изменения на диске и оповещает
+   * подписчиков SSE, если данные действительно обновились.
+   */
+  async reloadOnChange() {
+    const data = await this.load();
+    if (data && data.timestamp !== this.notifiedTimestamp) {
+      this.notifiedTimestamp = data.timestamp;
+      this.events.broadcast("handbook-updated", { timestamp: data.timestamp });
+    }
+  }
+
+  /**
+   * Загружает данные при старте и начинает следить за файлами источника.
+   * @param debounceMs - Пауза после последнего изменения файла.
+   */
+  start(debounceMs: number) {
+    this.load().then((data) => {
+      this.notifiedTimestamp = data?.timestamp ?? null;
+    });
+    this.dataSource.watchPaths.forEach((watchPath) =>
+      watchFile(watchPath, debounceMs, () => this.reloadOnChange())
+    );
+    this.scheduleDayChange();
+  }
+
+  /**
+   * В полночь перечитывает источник, если в нём есть отсутствия, чтобы
+   * открытые вкладки получили статусы на новую дату.
+   */
+  private scheduleDayChange() {
+    const midnight = new Date();
+    midnight.setHours(24, 0, 0, 0);
+    setTimeout(() => {
+      if (this.absenceDate !== null) this.reloadOnChange();
+      this.scheduleDayChange();
+    }, midnight.getTime() - Date.now()).unref();
+  }
+
+  /**
+   * Организационная структура для переданной версии данных.
+   * @param data - Данные, полученные из load, или их копия для роли
+   * (filterHandbook).
+   */
+  orgChart(data: HandbookData): OrgChart {
+    let chart = this.orgCharts.get(data);
+    if (!chart) {
+      chart = buildOrgChart(data);
+      this.orgCharts.set(data, chart);
+    }
+    return chart;
+  }
+
+  /**
+   * Отчёт о проверке данных для переданной версии данных.
+   * @param data - Данные, полученные из load.
+   */
+  quality(data: HandbookData): QualityReport {
+    if (
+      !this.cachedQuality ||
+      this.cachedQuality.timestamp !== data.timestamp
+    ) {
+      this.cachedQuality = buildQualityReport(data);
+    }
+    return this.cachedQuality;
+  }
+
+  /**
+   * Убирает из сообщения каталоги файлов источника: текст ошибки чтения
+   * (например, ENOENT) содержит полный путь на сервере.
+   */
+  private hideSourcePaths(message: string): string {
+    return this.dataSource.description
+      .split(", ")
+      .reduce(
+        (result, file) => result.split(file).join(path.basename(file)),
+        message
+      );
+  }
+
+  /**
+   * Проверяет источник (перечитывая его, если он изменился) и сообщает
+   * состояние справочника.
+   */
+  async health(): Promise<DirectoryHealth> {
+    await this.load();
+    const sourceModifiedAt = await this.dataSource
+      .getVersion()
+      .catch(() => null);
+    return {
+      slug: this.slug,
+      name: this.name,
+      status: !this.cachedData
+        ? "error"
+        : this.lastLoadError
+        ? "degraded"
+        : "ok",
+      cacheStatus: this.cachedData ? "active" : "empty",
+      source: sourceFileNames(this.dataSource.description),
+      sourceModifiedAt,
+      loadedVersion: this.cachedData?.timestamp ?? null,
+      lastSuccessfulLoadAt: this.lastSuccessfulLoadAt,
+      lastError: this.lastLoadError && {
+        ...this.lastLoadError,
+        message: this.hideSourcePaths(this.lastLoadError.message),
+      },
+      subscribers: this.events.subscriberCount,
+    };
+  }
+}
+
+/**
+ * Каталог истории справочника: при одном справочнике — сам HISTORY_DIR,
+ * при нескольких — его подкаталог с адресом справочника.
+ */
+export function directoryHistoryDir(
+  historyDir: string,
+  slug: string,
+  multiple: boolean
+): string {
+  return multiple ? path.join(historyDir, slug) : historyDir;
+}
@@ -0,0 +1,240 @@
+import { HandbookDataSource } from "./dataSources";
+import {
+  RecordSheetKey,
+  isValidEmail,
+  isValidPhone,
+  sanitizeString,
+} from "./tableImport";
+import { Cabinet, Department, OfficeEmployee } from "./types";
+
+export type EditableRecord = OfficeEmployee | Cabinet | Department;
+
+export interface EditResult {
+  /** Запись до изменения; null для новой записи. */
+  before: EditableRecord | null;
+  /** Запись после изменения; null для удалённой записи. */
+  after: EditableRecord | null;
+}
+
+export interface HandbookEditor {
+  create(sheet: RecordSheetKey, input: unknown): Promise<EditResult>;
+  update(
+    sheet: RecordSheetKey,
+    id: string,
+    input: unknown
+  ): Promise<EditResult>;
+  remove(sheet: RecordSheetKey, id: string): Promise<EditResult>;
+}
+
+/** Ошибка в присланных данных записи (ответ 400). */
+export class EditValidationError extends Error {}
+
+/** Запись не найдена в источнике данных (ответ 404). */
+export class RecordNotFoundError extends Error {}
+
+/** Источник данных не поддерживает запись (ответ 409). */
+export class ReadOnlySourceError extends Error {}
+
+/** Поля, которые можно менять через редактор, и их названия для сообщений. */
+export const EDITABLE_FIELDS: Record<RecordSheetKey, Record<string, string>> = {
+  office: {
+    department: "Отдел",
+    sortPriority: "Приоритет",
+    position: "Должность",
+    fullName: "ФИО",
+    fullNameEn: "ФИО (англ.)",
+    positionEn: "Должность (англ.)",
+    internalNumber: "Внутренний номер",
+    generalNumber: "Общий номер",
+    manager: "Руководитель",
+    parentDepartment: "Вышестоящий отдел",
+  },
+  cabinets: {
+    city: "Город",
+    address: "Адрес",
+    internalNumber: "Внутренний номер",
+  },
+  departments: {
+    name: "Название",
+    generalNumber: "Общий номер",
+    location: "Расположение",
+    email: "Эл. почта",
+    head: "Руководитель",
+    sortOrder: "Порядок",
+  },
+};
+
+const REQUIRED_FIELDS: Record<RecordSheetKey, string> = {
+  office: "fullName",
+  cabinets: "address",
+  departments: "name",
+};
+const PHONE_FIELDS = ["internalNumber", "generalNumber"];
+const INTEGER_FIELDS = ["sortPriority", "sortOrder"];
+const MAX_FIELD_LENGTH = 200;
+
+/**
+ * Проверяет и очищает значения полей, присланные редактором.
+ * @param sheet - Лист, к которому относится запись.
+ * @param input - Тело запроса.
+ * @param existing - Текущая запись при изменении; null для новой записи.
+ * @returns Значения полей, которые нужно записать.
+ */
+function normalizeInput(
+  sheet: RecordSheetKey,
+  input: unknown,
+  existing: EditableRecord | null
+): Record<string, string | number> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new EditValidationError("Ожидается объект с полями записи.");
+  }
+  const labels = EDITABLE_FIELDS[sheet];
+  const values: Record<string, string | number> = {};
+
+  Object.entries(input).forEach(([field, raw]) => {
+    if (field === "id") return;
+    if (!(field in labels)) {
+      throw new EditValidationError(`Неизвестное поле "${field}".`);
+    }
+    if (typeof raw !== "string" && typeof raw !== "number") {
+      throw new EditValidationError(
+        `Поле "${labels[field]}" должно быть строкой.`
+      );
+    }
+    // sanitizeString отбрасывает «ложные» значения, а 0 — обычный приоритет
+    const value = typeof raw === "number" ? String(raw) : sanitizeString(raw);
+    if (value.length > MAX_FIELD_LENGTH) {
+      throw new EditValidationError(
+        `Поле "${labels[field]}" длиннее ${MAX_FIELD_LENGTH} символов.`
+      );
+    }
+    if (PHONE_FIELDS.includes(field) && value && !isValidPhone(value)) {
+      throw new EditValidationError(
+        `Поле "${labels[field]}" не похоже на номер телефона.`
+      );
+    }
+    if (field === "email" && value && !isValidEmail(value)) {
+      throw new EditValidationError(
+        `Поле "${labels[field]}" не похоже на адрес электронной почты.`
+      );
+    }
+    if (INTEGER_FIELDS.includes(field) && value) {
+      const number = Number(value.replace(",", "."));
+      if (!Number.isInteger(number)) {
+        throw new EditValidationError(
+          `Поле "${labels[field]}" должно быть целым числом.`
+        );
+      }
+      values[field] = number;
+      return;
+    }
+    values[field] = value;
+  });
+
+  if (!existing) {
+    Object.keys(labels)
+      .filter((field) => !(field in values))
+      .forEach((field) => (values[field] = ""));
+  }
+  const required = REQUIRED_FIELDS[sheet];
+  const requiredValue =
+    required in values
+      ? values[required]
+      : (existing as unknown as Record<string, string> | null)?.[required];
+  if (!requiredValue) {
+    throw new EditValidationError(
+      `Поле "${labels[required]}" обязательно для заполнения.`
+    );
+  }
+  return values;
+}
+
+/**
+ * Создаёт редактор справочника, записывающий изменения обратно в источник
+ * данных. Изменения выполняются по одному: каждое читает актуальную версию
+ * источника, находит строку записи по идентификатору и меняет только
+ * нужные ячейки.
+ * @param dataSource - Источник данных справочника.
+ */
+export function createHandbookEditor(
+  dataSource: HandbookDataSource
+): HandbookEditor {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task, task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const loadCurrent = async () => {
+    const version = await dataSource.getVersion();
+    if (version === null) {
+      throw new Error(`Источник данных недоступен: ${dataSource.description}`);
+    }
+    return dataSource.load(version);
+  };
+
+  /**
+   * Выполняет одно изменение.
+   * @param id - Идентификатор записи; null для новой записи.
+   * @param input - Новые значения полей; null для удаления.
+   */
+  const edit = async (
+    sheet: RecordSheetKey,
+    id: string | null,
+    input: unknown | null
+  ): Promise<EditResult> => {
+    if (!dataSource.applyEdit) {
+      throw new ReadOnlySourceError(
+        "Источник данных доступен только для чтения."
+      );
+    }
+    const current = await loadCurrent();
+    const location = current.locations[sheet];
+    const records = current[sheet] as EditableRecord[];
+    const before = id === null ? null : records.find((r) => r.id === id);
+    if (before === undefined || (id !== null && !location.rows[id])) {
+      throw new RecordNotFoundError("Запись не найдена.");
+    }
+
+    let cells: Record<number, string | number> | null = null;
+    if (input !== null) {
+      cells = {};
+      const values = normalizeInput(sheet, input, before);
+      for (const [field, value] of Object.entries(values)) {
+        const column = location.columns[field];
+        if (column !== undefined) {
+          cells[column] = value;
+        } else if (value !== "") {
+          throw new EditValidationError(
+            `В источнике данных нет колонки для поля "${EDITABLE_FIELDS[sheet][field]}".`
+          );
+        }
+      }
+    }
+
+    const rowNumber = await dataSource.applyEdit({
+      sheet,
+      rowNumber: id === null ? undefined : location.rows[id],
+      cells,
+    });
+    if (rowNumber === null) return { before, after: null };
+
+    // Идентификатор мог измениться (например, вместе с ФИО),
+    // поэтому новая версия записи ищется по номеру строки
+    const updated = await loadCurrent();
+    const rows = updated.locations[sheet].rows;
+    const afterId = Object.keys(rows).find((key) => rows[key] === rowNumber);
+    const after =
+      (updated[sheet] as EditableRecord[]).find((r) => r.id === afterId) ||
+      null;
+    return { before, after };
+  };
+
+  return {
+    create: (sheet, input) => serialize(() => edit(sheet, null, input)),
+    update: (sheet, id, input) => serialize(() => edit(sheet, id, input)),
+    remove: (sheet, id) => serialize(() => edit(sheet, id, null)),
+  };
+}
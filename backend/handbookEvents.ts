@@ -0,0 +1,68 @@
+import { Request, Response } from "express";
+import logger from "./logger";
+
+// Интервал служебных сообщений, не дающих прокси закрыть простаивающее соединение
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+// Через сколько браузер должен переподключиться после обрыва
+const CLIENT_RETRY_MS = 5000;
+
+/**
+ * Поток событий об обновлении одного справочника. Подключённые клиенты
+ * получают события только своего справочника.
+ */
+export class HandbookEvents {
+  private readonly clients = new Set<Response>();
+
+  /**
+   * Подключает клиента к потоку Server-Sent Events.
+   * Соединение остаётся открытым до тех пор, пока его не закроет клиент.
+   * @param req - Входящий запрос.
+   * @param res - Ответ, в который будут отправляться события.
+   */
+  subscribe(req: Request, res: Response) {
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Отключает буферизацию ответа в nginx
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+    const heartbeat = setInterval(
+      () => res.write(": ping\n\n"),
+      HEARTBEAT_INTERVAL_MS
+    );
+    this.clients.add(res);
+    logger.debug(
+      `SSE: клиент подключён (${req.ip}), всего ${this.clients.size}`
+    );
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      this.clients.delete(res);
+      logger.debug(
+        `SSE: клиент отключён (${req.ip}), всего ${this.clients.size}`
+      );
+    });
+  }
+
+  /**
+   * Отправляет событие всем подключённым клиентам.
+   * @param event - Имя события.
+   * @param data - Данные события, сериализуются в JSON.
+   */
+  broadcast(event: string, data: unknown) {
+    const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+    this.clients.forEach((client) => client.write(message));
+    logger.info(
+      `SSE: событие "${event}" отправлено ${this.clients.size} клиентам`
+    );
+  }
+
+  /** Количество активных подписчиков. */
+  get subscriberCount(): number {
+    return this.clients.size;
+  }
+}
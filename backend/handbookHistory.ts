@@ -0,0 +1,294 @@
+import fs from "fs";
+import path from "path";
+import logger from "./logger";
+import { writeFileAtomic } from "./dataSources/atomicWrite";
+import { diffHandbook } from "./handbookDiff";
+import {
+  Cabinet,
+  HandbookData,
+  OfficeEmployee,
+  RecordVisibility,
+  Role,
+} from "./types";
+import { hideFields, recordVisibility, roleAllows } from "./visibility";
+
+export type ChangeKind =
+  | "joined"
+  | "left"
+  | "moved"
+  | "renamed"
+  | "position-changed"
+  | "number-changed"
+  | "cabinet-added"
+  | "cabinet-removed"
+  | "cabinet-number-changed";
+
+/** Одно понятное человеку изменение между двумя версиями справочника. */
+export interface HandbookChange {
+  kind: ChangeKind;
+  employee?: OfficeEmployee;
+  cabinet?: Cabinet;
+  /** Изменённое поле для *-changed, moved и renamed. */
+  field?: string;
+  from?: string;
+  to?: string;
+  /** Кому видна запись на момент изменения; нет — видна всем. */
+  visibility?: RecordVisibility;
+}
+
+export interface HistoryEntry {
+  /** Версия справочника, в которой появились изменения. */
+  timestamp: number;
+  previousTimestamp: number;
+  changes: HandbookChange[];
+}
+
+const LATEST_SNAPSHOT_FILE = "latest.json";
+const CHANGES_FILE = "changes.jsonl";
+const NUMBER_FIELDS = ["internalNumber", "generalNumber"] as const;
+
+/**
+ * Раскладывает разницу между версиями на отдельные изменения: кто пришёл,
+ * кто ушёл, кто перешёл в другой отдел, у кого сменился номер и т.д.
+ * Одна изменённая запись может дать несколько изменений.
+ * @param previous - Предыдущая версия.
+ * @param current - Текущая версия.
+ */
+export function classifyChanges(
+  previous: HandbookData,
+  current: HandbookData
+): HandbookChange[] {
+  const delta = diffHandbook(previous, current);
+  const changes: HandbookChange[] = [];
+
+  // Видимость берётся из версии, в которой запись есть: для ушедших —
+  // из предыдущей
+  const visibility = (
+    data: HandbookData,
+    sheet: "office" | "cabinets",
+    id: string
+  ) => {
+    const rules = recordVisibility(data.visibility, sheet, id);
+    return rules ? { visibility: rules } : {};
+  };
+
+  delta.office.added.forEach((employee) =>
+    changes.push({
+      kind: "joined",
+      employee,
+      ...visibility(current, "office", employee.id),
+    })
+  );
+  delta.office.removed.forEach((employee) =>
+    changes.push({
+      kind: "left",
+      employee,
+      ...visibility(previous, "office", employee.id),
+    })
+  );
+  delta.office.changed.forEach(({ before, after }) => {
+    const push = (kind: ChangeKind, field: keyof OfficeEmployee) =>
+      changes.push({
+        kind,
+        employee: after,
+        field,
+        from: String(before[field]),
+        to: String(after[field]),
+        ...visibility(current, "office", after.id),
+      });
+    if (before.department !== after.department) push("moved", "department");
+    if (before.fullName !== after.fullName) push("renamed", "fullName");
+    if (before.position !== after.position) {
+      push("position-changed", "position");
+    }
+    NUMBER_FIELDS.forEach((field) => {
+      if (before[field] !== after[field]) push("number-changed", field);
+    });
+  });
+
+  delta.cabinets.added.forEach((cabinet) =>
+    changes.push({
+      kind: "cabinet-added",
+      cabinet,
+      ...visibility(current, "cabinets", cabinet.id),
+    })
+  );
+  delta.cabinets.removed.forEach((cabinet) =>
+    changes.push({
+      kind: "cabinet-removed",
+      cabinet,
+      ...visibility(previous, "cabinets", cabinet.id),
+    })
+  );
+  delta.cabinets.changed.forEach(({ before, after }) => {
+    if (before.internalNumber !== after.internalNumber) {
+      changes.push({
+        kind: "cabinet-number-changed",
+        cabinet: after,
+        field: "internalNumber",
+        from: before.internalNumber,
+        to: after.internalNumber,
+        ...visibility(current, "cabinets", after.id),
+      });
+    }
+  });
+  return changes;
+}
+
+/**
+ * Изменение в том виде, в котором оно видно роли.
+ * @returns Изменение без правил видимости или null, если роли не видна
+ * запись или изменённое поле.
+ */
+function filterChange(
+  change: HandbookChange,
+  role: Role
+): HandbookChange | null {
+  const { visibility, ...rest } = change;
+  if (!visibility) return change;
+  if (!roleAllows(role, visibility.row)) return null;
+  const fieldRole = change.field && visibility.fields[change.field];
+  if (fieldRole && !roleAllows(role, fieldRole)) return null;
+  const employee = rest.employee && hideFields(rest.employee, visibility, role);
+  const cabinet = rest.cabinet && hideFields(rest.cabinet, visibility, role);
+  return {
+    ...rest,
+    ...(employee && { employee }),
+    ...(cabinet && { cabinet }),
+  };
+}
+
+/**
+ * История изменений справочника. Хранит на диске последнюю загруженную
+ * версию и ленту изменений (JSON Lines), поэтому изменения книги,
+ * сделанные пока сервер был остановлен, тоже попадают в историю.
+ */
+export class HandbookHistory {
+  private entries: HistoryEntry[] = [];
+  private latest: HandbookData | null = null;
+  // Количество строк в файле ленты (может превышать limit до сжатия)
+  private storedCount = 0;
+
+  /**
+   * @param directory - Каталог для файлов истории.
+   * @param limit - Сколько последних версий с изменениями хранить.
+   */
+  constructor(
+    private readonly directory: string,
+    private readonly limit: number
+  ) {
+    fs.mkdirSync(directory, { recursive: true });
+    this.latest = this.readLatest();
+    const stored = this.readEntries();
+    this.storedCount = stored.length;
+    this.entries = stored.slice(-limit);
+  }
+
+  /**
+   * Сравнивает загруженную версию с предыдущей и записывает изменения.
+   * @param data - Только что загруженные данные справочника.
+   */
+  async record(data: HandbookData): Promise<void> {
+    const previous = this.latest;
+    if (previous && previous.timestamp === data.timestamp) return;
+    this.latest = data;
+
+    if (previous) {
+      const changes = classifyChanges(previous, data);
+      if (changes.length > 0) {
+        const entry: HistoryEntry = {
+          timestamp: data.timestamp,
+          previousTimestamp: previous.timestamp,
+          changes,
+        };
+        this.entries = [...this.entries, entry].slice(-this.limit);
+        await this.appendEntry(entry);
+      }
+    }
+    await writeFileAtomic(
+      path.join(this.directory, LATEST_SNAPSHOT_FILE),
+      JSON.stringify(data)
+    );
+  }
+
+  /**
+   * Возвращает версии с изменениями, начиная с последней. Изменения
+   * скрытых от роли записей и полей пропускаются, версии без видимых
+   * изменений — тоже.
+   * @param limit - Количество версий.
+   * @param offset - Сколько последних версий пропустить.
+   * @param role - Роль пользователя.
+   */
+  list(
+    limit: number,
+    offset: number,
+    role: Role
+  ): { total: number; entries: HistoryEntry[] } {
+    const visible = this.entries
+      .map((entry) => ({
+        ...entry,
+        changes: entry.changes
+          .map((change) => filterChange(change, role))
+          .filter((change): change is HandbookChange => change !== null),
+      }))
+      .filter((entry) => entry.changes.length > 0);
+    const end = Math.max(visible.length - offset, 0);
+    return {
+      total: visible.length,
+      entries: visible.slice(Math.max(end - limit, 0), end).reverse(),
+    };
+  }
+
+  private readLatest(): HandbookData | null {
+    const filePath = path.join(this.directory, LATEST_SNAPSHOT_FILE);
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+      // Снимки, сохранённые до появления листа «Отделы», его не содержат
+      return { departments: [], ...data } as HandbookData;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn(
+          `Не удалось прочитать ${filePath}, история начнётся заново.`
+        );
+      }
+      return null;
+    }
+  }
+
+  private readEntries(): HistoryEntry[] {
+    const filePath = path.join(this.directory, CHANGES_FILE);
+    if (!fs.existsSync(filePath)) return [];
+    const entries: HistoryEntry[] = [];
+    fs.readFileSync(filePath, "utf-8")
+      .split("\n")
+      .filter(Boolean)
+      .forEach((line, index) => {
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          logger.warn(
+            `Пропущена повреждённая строка ${index + 1} в ${filePath}`
+          );
+        }
+      });
+    return entries;
+  }
+
+  /**
+   * Дописывает версию в ленту. Когда в файле накапливается заметно больше
+   * версий, чем нужно хранить, файл переписывается без старых записей.
+   */
+  private async appendEntry(entry: HistoryEntry) {
+    const filePath = path.join(this.directory, CHANGES_FILE);
+    this.storedCount++;
+    if (this.storedCount > this.limit * 1.2) {
+      await writeFileAtomic(
+        filePath,
+        this.entries.map((e) => JSON.stringify(e) + "\n").join("")
+      );
+      this.storedCount = this.entries.length;
+      return;
+    }
+    await fs.promises.appendFile(filePath, JSON.stringify(entry) + "\n");
+  }
+}
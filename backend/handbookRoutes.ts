@@ -0,0 +1,326 @@
+import { Request, RequestHandler, Response, Router } from "express";
+import logger from "./logger";
+import { diffHandbook } from "./handbookDiff";
+import { createExportRouter } from "./exportRoutes";
+import { HandbookDirectory } from "./handbookDirectory";
+import { sourceFileNames } from "./dataSources";
+import { getSearchIndex } from "./handbookSearch";
+import { photoSize } from "./employeePhotos";
+import { requireRole, sessionRole } from "./adminSessions";
+import { filterHandbook } from "./visibility";
+import { HandbookData, Role } from "./types";
+
+export interface HandbookRouterOptions {
+  /** Ограничение частоты запросов поиска. */
+  searchLimiter: RequestHandler;
+  /** Название организации в выгрузках. */
+  organization: string;
+}
+
+// Фотография может смениться, поэтому браузер перепроверяет её раз в сутки,
+// а аватар с инициалами — раз в час: для сотрудника могут добавить фото
+const PHOTO_MAX_AGE_SECONDS = 24 * 60 * 60;
+const AVATAR_MAX_AGE_SECONDS = 60 * 60;
+
+/** ETag данных справочника: версия и роль, от которой зависит набор полей. */
+const handbookETag = (data: HandbookData, role: Role) =>
+  role === "anonymous" ? `"${data.timestamp}"` : `"${data.timestamp}-${role}"`;
+
+const HISTORY_PAGE_SIZE = 20;
+const HISTORY_MAX_PAGE_SIZE = 100;
+
+export const SEARCH_PAGE_SIZE = 100;
+export const SEARCH_MAX_PAGE_SIZE = 500;
+export const SEARCH_MAX_QUERY_LENGTH = 200;
+
+/**
+ * Разбирает параметры поиска q и limit.
+ * @returns Строка поиска и число результатов или null, если строка
+ * пустая или слишком длинная.
+ */
+export function parseSearchQuery(
+  req: Request
+): { query: string; limit: number } | null {
+  const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+  if (!query || query.length > SEARCH_MAX_QUERY_LENGTH) return null;
+  const limit = Math.min(
+    parseInt(String(req.query.limit), 10) || SEARCH_PAGE_SIZE,
+    SEARCH_MAX_PAGE_SIZE
+  );
+  return { query, limit };
+}
+
+/** Ответ на некорректную строку поиска. */
+export function sendInvalidSearchQuery(res: Response) {
+  res.status(400).json({
+    status: "error",
+    message: `Строка поиска должна содержать от 1 до ${SEARCH_MAX_QUERY_LENGTH} символов.`,
+  });
+}
+
+const sendLoadError = (res: Response) =>
+  res.status(500).json({
+    status: "error",
+    message: "Не удалось загрузить данные справочника.",
+  });
+
+/**
+ * Создаёт роутер чтения одного справочника: данные, поиск, выгрузки,
+ * карточки и фотографии сотрудников, изменения, история, проверка данных, структура
+ * и события.
+ * Монтируется в /api для основного справочника и в
+ * /api/directories/<slug> для каждого справочника.
+ * @param directory - Справочник.
+ * @param options - Общие для справочников настройки.
+ */
+export function createHandbookRouter(
+  directory: HandbookDirectory,
+  options: HandbookRouterOptions
+): Router {
+  const router = Router();
+  // Данные в том виде, в котором они видны автору запроса
+  const loadData = async (req: Request) => {
+    const data = await directory.load();
+    return data && filterHandbook(data, sessionRole(req));
+  };
+
+  // Основной эндпоинт для получения данных справочника.
+  // Поддерживает условные запросы: ETag соответствует версии данных
+  // и роли пользователя, от которой зависит набор полей.
+  router.get("/handbook", async (req: Request, res: Response) => {
+    try {
+      const data = await loadData(req);
+      if (data) {
+        res.set("ETag", handbookETag(data, sessionRole(req)));
+        res.set("Cache-Control", "no-cache");
+        res.vary("Cookie");
+        if (req.fresh) {
+          return res.status(304).end();
+        }
+        res.json({ status: "success", data });
+      } else {
+        sendLoadError(res);
+      }
+    } catch (error) {
+      logger.error("Ошибка в /api/handbook:", error);
+      res
+        .status(500)
+        .json({ status: "error", message: "Внутренняя ошибка сервера." });
+    }
+  });
+
+  // Поиск по справочнику с учётом опечаток, «ё/е», раскладки и транслитерации
+  router.get(
+    "/handbook/search",
+    options.searchLimiter,
+    async (req: Request, res: Response) => {
+      const params = parseSearchQuery(req);
+      if (!params) return sendInvalidSearchQuery(res);
+      try {
+        const data = await loadData(req);
+        if (!data) return sendLoadError(res);
+        res.json({
+          status: "success",
+          data: {
+            timestamp: data.timestamp,
+            ...getSearchIndex(data).search(params.query, params.limit),
+          },
+        });
+      } catch (error) {
+        logger.error("Ошибка в /api/handbook/search:", error);
+        res
+          .status(500)
+          .json({ status: "error", message: "Внутренняя ошибка сервера." });
+      }
+    }
+  );
+
+  // Выгрузка справочника: vCard, CSV и печатная версия
+  router.use(
+    "/handbook/export",
+    createExportRouter(loadData, options.organization)
+  );
+
+  // Карточка сотрудника: данные сотрудника и коллеги из того же отдела
+  router.get("/employees/:id", async (req: Request, res: Response) => {
+    try {
+      const data = await loadData(req);
+      if (!data) return sendLoadError(res);
+      const employee = data.office.find((e) => e.id === req.params.id);
+      if (!employee) {
+        return res
+          .status(404)
+          .json({ status: "error", message: "Сотрудник не найден." });
+      }
+      const colleagues = data.office
+        .filter((e) => e.department === employee.department && e !== employee)
+        .sort(
+          (a, b) =>
+            a.sortPriority - b.sortPriority ||
+            a.fullName.toLowerCase().localeCompare(b.fullName.toLowerCase())
+        );
+      res.json({ status: "success", data: { employee, colleagues } });
+    } catch (error) {
+      logger.error("Ошибка в /api/employees/:id:", error);
+      res
+        .status(500)
+        .json({ status: "error", message: "Внутренняя ошибка сервера." });
+    }
+  });
+
+  // Фотография сотрудника (миниатюра size×size) или аватар с инициалами
+  router.get("/employees/:id/photo", async (req: Request, res: Response) => {
+    try {
+      const data = await loadData(req);
+      if (!data) return sendLoadError(res);
+      const employee = data.office.find((e) => e.id === req.params.id);
+      if (!employee) {
+        return res
+          .status(404)
+          .json({ status: "error", message: "Сотрудник не найден." });
+      }
+      const photo = await directory.photos.get(
+        employee,
+        photoSize(Number(req.query.size))
+      );
+      res.set("ETag", photo.etag);
+      res.set(
+        "Cache-Control",
+        `${sessionRole(req) === "anonymous" ? "public" : "private"}, max-age=${
+          photo.isPhoto ? PHOTO_MAX_AGE_SECONDS : AVATAR_MAX_AGE_SECONDS
+        }`
+      );
+      if (req.fresh) {
+        return res.status(304).end();
+      }
+      res.type(photo.contentType).send(photo.body);
+    } catch (error) {
+      logger.error("Ошибка в /api/employees/:id/photo:", error);
+      res
+        .status(500)
+        .json({ status: "error", message: "Внутренняя ошибка сервера." });
+    }
+  });
+
+  // Изменения справочника с указанной версии (since — метка времени из кэша клиента)
+  router.get("/handbook/changes", async (req: Request, res: Response) => {
+    const since = Number(req.query.since);
+    if (!req.query.since || !Number.isFinite(since)) {
+      return res
+        .status(400)
+        .json({ status: "error", message: "Некорректный параметр since." });
+    }
+    try {
+      const data = await loadData(req);
+      if (!data) return sendLoadError(res);
+      const snapshot = directory.snapshots.get(since);
+      const previous = snapshot && filterHandbook(snapshot, sessionRole(req));
+      if (!previous) {
+        return res.status(410).json({
+          status: "error",
+          message: "Версия недоступна, требуется полная загрузка справочника.",
+        });
+      }
+      // ETag полного справочника новой версии: клиент сохраняет его
+      // в кэш вместе с применённой дельтой для следующего условного запроса
+      res.set("ETag", handbookETag(data, sessionRole(req)));
+      res.vary("Cookie");
+      res.json({ status: "success", data: diffHandbook(previous, data) });
+    } catch (error) {
+      logger.error("Ошибка в /api/handbook/changes:", error);
+      res
+        .status(500)
+        .json({ status: "error", message: "Внутренняя ошибка сервера." });
+    }
+  });
+
+  // История изменений справочника, начиная с последних версий
+  router.get("/handbook/history", async (req: Request, res: Response) => {
+    const limit = Math.min(
+      parseInt(String(req.query.limit), 10) || HISTORY_PAGE_SIZE,
+      HISTORY_MAX_PAGE_SIZE
+    );
+    const offset = Math.max(parseInt(String(req.query.offset), 10) || 0, 0);
+    try {
+      // Загрузка нужна, чтобы изменения последней версии попали в историю
+      await directory.load();
+      res.json({
+        status: "success",
+        data: directory.history.list(limit, offset, sessionRole(req)),
+      });
+    } catch (error) {
+      logger.error("Ошибка в /api/handbook/history:", error);
+      res
+        .status(500)
+        .json({ status: "error", message: "Внутренняя ошибка сервера." });
+    }
+  });
+
+  // Проверка данных: повторяющиеся номера и ФИО, пустые отделы и т. п.
+  // Отчёт строится по всем данным, поэтому доступен отделу кадров
+  router.get(
+    "/handbook/quality",
+    requireRole("hr"),
+    async (req: Request, res: Response) => {
+      try {
+        const data = await directory.load();
+        if (!data) return sendLoadError(res);
+        res.json({ status: "success", data: directory.quality(data) });
+      } catch (error) {
+        logger.error("Ошибка в /api/handbook/quality:", error);
+        res
+          .status(500)
+          .json({ status: "error", message: "Внутренняя ошибка сервера." });
+      }
+    }
+  );
+
+  // Организационная структура: дерево отделов и подчинения сотрудников
+  router.get("/orgchart", async (req: Request, res: Response) => {
+    try {
+      const data = await loadData(req);
+      if (!data) return sendLoadError(res);
+      res.json({ status: "success", data: directory.orgChart(data) });
+    } catch (error) {
+      logger.error("Ошибка в /api/orgchart:", error);
+      res
+        .status(500)
+        .json({ status: "error", message: "Внутренняя ошибка сервера." });
+    }
+  });
+
+  // Поток событий об обновлении справочника (Server-Sent Events)
+  router.get("/handbook/events", (req: Request, res: Response) => {
+    directory.events.subscribe(req, res);
+  });
+
+  // Отчёт о последнем импорте: отклонённые строки и строки с предупреждениями.
+  // Содержит значения ячеек, в том числе скрытых от ролей, поэтому
+  // доступен только администраторам
+  router.get(
+    "/handbook/import-report",
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        await directory.load();
+        const report = directory.importReport;
+        if (!report) {
+          return res
+            .status(404)
+            .json({ status: "error", message: "Импорт ещё не выполнялся." });
+        }
+        res.json({
+          status: "success",
+          data: { ...report, source: sourceFileNames(report.source) },
+        });
+      } catch (error) {
+        logger.error("Ошибка в /api/handbook/import-report:", error);
+        res
+          .status(500)
+          .json({ status: "error", message: "Внутренняя ошибка сервера." });
+      }
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,560 @@
+import { COUNTRY_CODE, TRUNK_PREFIX, formatPhoneNumbers } from "./phoneNumbers";
+import { Cabinet, HandbookData, OfficeEmployee } from "./types";
+
+/** Найденный фрагмент значения поля: [начало, конец). */
+export type MatchRange = [number, number];
+
+export interface SearchHit<T> {
+  record: T;
+  score: number;
+  /**
+   * Найденные фрагменты по полям; позиции — в исходном значении поля,
+   * а для номеров телефонов — в отформатированном (formatted через запятую).
+   */
+  matches: Record<string, MatchRange[]>;
+}
+
+export interface SearchResult {
+  query: string;
+  office: SearchHit<OfficeEmployee>[];
+  cabinets: SearchHit<Cabinet>[];
+  /** Количество найденных записей без учёта limit. */
+  total: { office: number; cabinets: number };
+}
+
+interface FieldSpec<T> {
+  name: keyof T & string;
+  /** Вес поля в ранжировании: совпадение в ФИО важнее, чем в отделе. */
+  weight: number;
+  /** Телефонное поле: дополнительно ищется по одним цифрам. */
+  phone?: boolean;
+  /** Значение для поиска, если оно отличается от значения поля. */
+  value?: (record: T) => string;
+}
+
+interface IndexedField {
+  name: string;
+  weight: number;
+  /** Нормализованное значение той же длины, что и исходное. */
+  text: string;
+  words: { start: number; text: string }[];
+  /** Цифры каждого номера и их позиции в исходной строке. */
+  digits: { text: string; positions: number[] }[] | null;
+}
+
+interface IndexedRecord<T> {
+  record: T;
+  sortKey: string;
+  fields: IndexedField[];
+}
+
+interface TokenMatch {
+  score: number;
+  matches: Record<string, MatchRange[]>;
+}
+
+const EMPLOYEE_FIELDS: FieldSpec<OfficeEmployee>[] = [
+  { name: "fullName", weight: 3 },
+  {
+    name: "internalNumber",
+    weight: 2,
+    phone: true,
+    value: (e) => formatPhoneNumbers(e.phones.internalNumber),
+  },
+  { name: "position", weight: 1.5 },
+  { name: "department", weight: 1.5 },
+  // Иностранные коллеги ищут по английским ФИО и должности
+  { name: "fullNameEn", weight: 3 },
+  { name: "positionEn", weight: 1.5 },
+  {
+    name: "generalNumber",
+    weight: 1,
+    phone: true,
+    value: (e) => formatPhoneNumbers(e.phones.generalNumber),
+  },
+];
+
+const CABINET_FIELDS: FieldSpec<Cabinet>[] = [
+  { name: "address", weight: 2 },
+  {
+    name: "internalNumber",
+    weight: 2,
+    phone: true,
+    value: (c) => formatPhoneNumbers(c.phones.internalNumber),
+  },
+  { name: "city", weight: 1.5 },
+];
+
+const MAX_TOKENS = 10;
+const MAX_TOKEN_LENGTH = 50;
+// Нечёткое сравнение включается для слов не короче этой длины
+const FUZZY_MIN_LENGTH = 4;
+// Начиная с этой длины допускаются две опечатки вместо одной
+const TWO_EDITS_MIN_LENGTH = 8;
+
+// Множители оценки для вариантов запроса и типов совпадений
+const LAYOUT_PENALTY = 0.9;
+const TRANSLIT_PENALTY = 0.85;
+const WHOLE_WORD_SCORE = 1.2;
+const WORD_PREFIX_SCORE = 1;
+const DIGITS_SCORE = 0.8;
+const INFIX_SCORE = 0.6;
+const FUZZY_SCORES = [0, 0.5, 0.35];
+
+// Слово запроса, похожее на номер: цифры, «+», скобки, дефисы, точки
+const PHONE_TOKEN_PATTERN = /^\+?[\d()\-.]+$/;
+
+// Раскладки: символы на одних и тех же клавишах
+const LATIN_KEYS = "qwertyuiop[]asdfghjkl;'zxcvbnm,.`";
+const CYRILLIC_KEYS = "йцукенгшщзхъфывапролджэячсмитьбюё";
+
+const LATIN_TO_CYRILLIC: [string, string][] = [
+  ["shch", "щ"],
+  ["sch", "щ"],
+  ["yo", "е"],
+  ["yu", "ю"],
+  ["ya", "я"],
+  ["ye", "е"],
+  ["zh", "ж"],
+  ["kh", "х"],
+  ["ts", "ц"],
+  ["ch", "ч"],
+  ["sh", "ш"],
+  ["a", "а"],
+  ["b", "б"],
+  ["v", "в"],
+  ["w", "в"],
+  ["g", "г"],
+  ["d", "д"],
+  ["e", "е"],
+  ["z", "з"],
+  ["i", "и"],
+  ["j", "й"],
+  ["k", "к"],
+  ["q", "к"],
+  ["l", "л"],
+  ["m", "м"],
+  ["n", "н"],
+  ["o", "о"],
+  ["p", "п"],
+  ["r", "р"],
+  ["s", "с"],
+  ["t", "т"],
+  ["u", "у"],
+  ["f", "ф"],
+  ["h", "х"],
+  ["c", "ц"],
+  ["x", "кс"],
+];
+
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: "a",
+  б: "b",
+  в: "v",
+  г: "g",
+  д: "d",
+  е: "e",
+  ж: "zh",
+  з: "z",
+  и: "i",
+  й: "y",
+  к: "k",
+  л: "l",
+  м: "m",
+  н: "n",
+  о: "o",
+  п: "p",
+  р: "r",
+  с: "s",
+  т: "t",
+  у: "u",
+  ф: "f",
+  х: "kh",
+  ц: "ts",
+  ч: "ch",
+  ш: "sh",
+  щ: "shch",
+  ъ: "",
+  ы: "y",
+  ь: "",
+  э: "e",
+  ю: "yu",
+  я: "ya",
+};
+
+const CYRILLIC_VOWELS = "аеиоуыэюя";
+
+/**
+ * Приводит строку к виду для сравнения: нижний регистр, «ё» -> «е».
+ * Длина строки сохраняется, поэтому позиции совпадений совпадают
+ * с позициями в исходном значении.
+ */
+function normalize(value: string): string {
+  return Array.from(value, (char) => {
+    const lower = char.toLowerCase();
+    if (lower === "ё") return "е";
+    return lower.length === char.length ? lower : char;
+  }).join("");
+}
+
+/** Переводит строку, набранную не в той раскладке (Bdfyjd -> иванов). */
+function swapLayout(value: string): string {
+  return Array.from(value, (char) => {
+    const latin = LATIN_KEYS.indexOf(char);
+    if (latin !== -1) return CYRILLIC_KEYS[latin];
+    const cyrillic = CYRILLIC_KEYS.indexOf(char);
+    return cyrillic !== -1 ? LATIN_KEYS[cyrillic] : char;
+  }).join("");
+}
+
+/** Транслитерация латиницы в кириллицу (ivanov -> иванов). */
+function latinToCyrillic(value: string): string {
+  let result = "";
+  let index = 0;
+  while (index < value.length) {
+    const rest = value.slice(index);
+    // «y» после гласной — «й» (Sergey), иначе — «ы»
+    if (rest[0] === "y" && !/^y[aeou]/.test(rest)) {
+      result += CYRILLIC_VOWELS.includes(result.slice(-1)) ? "й" : "ы";
+      index++;
+      continue;
+    }
+    const pair = LATIN_TO_CYRILLIC.find(([latin]) => rest.startsWith(latin));
+    result += pair ? pair[1] : rest[0];
+    index += pair ? pair[0].length : 1;
+  }
+  return result;
+}
+
+/** Транслитерация кириллицы в латиницу (иванов -> ivanov). */
+function cyrillicToLatin(value: string): string {
+  return Array.from(value, (char) => CYRILLIC_TO_LATIN[char] ?? char).join("");
+}
+
+/**
+ * Варианты слова запроса с множителями оценки: как набрано, в другой
+ * раскладке и в транслитерации.
+ */
+function tokenVariants(token: string): { text: string; factor: number }[] {
+  const variants = [
+    { text: token, factor: 1 },
+    { text: normalize(swapLayout(token)), factor: LAYOUT_PENALTY },
+    { text: latinToCyrillic(token), factor: TRANSLIT_PENALTY },
+    { text: cyrillicToLatin(token), factor: TRANSLIT_PENALTY },
+  ];
+  return variants.filter(
+    (variant, index) =>
+      variant.text &&
+      variants.findIndex((v) => v.text === variant.text) === index
+  );
+}
+
+/**
+ * Расстояние Дамерау–Левенштейна (с перестановкой соседних букв).
+ * Расчёт прекращается, как только расстояние превысит max.
+ * @returns Расстояние или max + 1, если оно больше max.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const beforeRow = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previousRow[j] + 1,
+        row[j - 1] + 1,
+        previousRow[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforeRow[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return row[b.length];
+}
+
+/**
+ * Готовит значение поля к поиску: нормализует, разбивает на слова
+ * и для телефонных полей выделяет цифры.
+ */
+function indexField(
+  name: string,
+  weight: number,
+  value: string,
+  phone: boolean
+): IndexedField {
+  const text = normalize(value);
+  const words = Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), (match) => ({
+    start: match.index!,
+    text: match[0],
+  }));
+  let digits: IndexedField["digits"] = null;
+  if (phone) {
+    // Номера в значении разделены запятыми и ищутся по отдельности
+    const numbers: number[][] = [[]];
+    for (let index = 0; index < value.length; index++) {
+      if (value[index] === ",") numbers.push([]);
+      if (value[index] >= "0" && value[index] <= "9") {
+        numbers[numbers.length - 1].push(index);
+      }
+    }
+    digits = numbers
+      .filter((positions) => positions.length > 0)
+      .map((positions) => ({
+        text: positions.map((i) => value[i]).join(""),
+        positions,
+      }));
+  }
+  return { name, weight, text, words, digits };
+}
+
+/**
+ * Ищет вариант слова запроса в одном поле.
+ * @returns Оценка совпадения (без веса поля) и найденные фрагменты.
+ */
+function matchField(
+  field: IndexedField,
+  token: string
+): { score: number; ranges: MatchRange[] } | null {
+  const ranges: MatchRange[] = [];
+  let score = 0;
+
+  // Точное вхождение; внутри слова — только для запросов от двух символов
+  for (
+    let index = field.text.indexOf(token);
+    index !== -1;
+    index = field.text.indexOf(token, index + 1)
+  ) {
+    const atWordStart =
+      index === 0 || !/[\p{L}\p{N}]/u.test(field.text[index - 1]);
+    if (!atWordStart && token.length < 2) continue;
+    const end = index + token.length;
+    const wholeWord =
+      atWordStart && !/[\p{L}\p{N}]/u.test(field.text[end] || "");
+    ranges.push([index, end]);
+    score = Math.max(
+      score,
+      wholeWord
+        ? WHOLE_WORD_SCORE
+        : atWordStart
+        ? WORD_PREFIX_SCORE
+        : INFIX_SCORE
+    );
+  }
+
+  // Номер в любой записи: «1234567» находит «123-45-67»,
+  // «8495» и «+7(495)» — «+7 (495) …»
+  const tokenDigits = PHONE_TOKEN_PATTERN.test(token)
+    ? token.replace(/\D/g, "")
+    : "";
+  if (ranges.length === 0 && field.digits && tokenDigits.length >= 2) {
+    field.digits.forEach(({ text, positions }) => {
+      const found = (index: number, length: number) => {
+        ranges.push([positions[index], positions[index + length - 1] + 1]);
+        score = DIGITS_SCORE;
+      };
+      for (
+        let index = text.indexOf(tokenDigits);
+        index !== -1;
+        index = text.indexOf(tokenDigits, index + 1)
+      ) {
+        found(index, tokenDigits.length);
+      }
+      // Междугородний префикс 8 вместо кода страны — только с начала номера
+      if (
+        tokenDigits.startsWith(TRUNK_PREFIX) &&
+        !text.startsWith(tokenDigits) &&
+        text.startsWith(COUNTRY_CODE + tokenDigits.slice(1))
+      ) {
+        found(0, tokenDigits.length);
+      }
+    });
+  }
+
+  // Опечатки: сравнение со словом целиком и с его началом той же длины
+  if (
+    ranges.length === 0 &&
+    token.length >= FUZZY_MIN_LENGTH &&
+    !/^\d+$/.test(token)
+  ) {
+    const maxEdits = token.length >= TWO_EDITS_MIN_LENGTH ? 2 : 1;
+    field.words.forEach((word) => {
+      const candidates = [word.text, word.text.slice(0, token.length)];
+      candidates.forEach((candidate) => {
+        const distance = editDistance(token, candidate, maxEdits);
+        if (distance <= maxEdits) {
+          ranges.push([word.start, word.start + candidate.length]);
+          score = Math.max(score, FUZZY_SCORES[distance]);
+        }
+      });
+    });
+  }
+  return ranges.length > 0 ? { score, ranges } : null;
+}
+
+/**
+ * Ищет слово запроса во всех полях записи с учётом вариантов написания.
+ * Оценка — лучшее совпадение с учётом веса поля.
+ */
+function matchToken(
+  fields: IndexedField[],
+  variants: { text: string; factor: number }[]
+): TokenMatch | null {
+  let score = 0;
+  const matches: Record<string, MatchRange[]> = {};
+  for (const variant of variants) {
+    for (const field of fields) {
+      const found = matchField(field, variant.text);
+      if (!found) continue;
+      score = Math.max(score, found.score * variant.factor * field.weight);
+      matches[field.name] = [...(matches[field.name] || []), ...found.ranges];
+    }
+  }
+  return score > 0 ? { score, matches } : null;
+}
+
+/**
+ * Сливает пересекающиеся и соседние фрагменты и упорядочивает их.
+ */
+function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  const merged: MatchRange[] = [];
+  sorted.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+  return merged;
+}
+
+/**
+ * Разбивает запрос на слова. Запятые и точки не считаются разделителями:
+ * в русской раскладке на этих клавишах «б» и «ю».
+ */
+function tokenize(query: string): string[] {
+  return normalize(query)
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, MAX_TOKENS)
+    .map((token) => token.slice(0, MAX_TOKEN_LENGTH));
+}
+
+/**
+ * Индекс для поиска по справочнику. Строится один раз для версии данных:
+ * значения полей заранее нормализуются и разбиваются на слова.
+ */
+export class SearchIndex {
+  private readonly office: IndexedRecord<OfficeEmployee>[];
+  private readonly cabinets: IndexedRecord<Cabinet>[];
+
+  constructor(data: HandbookData) {
+    this.office = data.office.map((employee) =>
+      this.indexRecord(employee, EMPLOYEE_FIELDS, employee.fullName)
+    );
+    this.cabinets = data.cabinets.map((cabinet) =>
+      this.indexRecord(
+        cabinet,
+        CABINET_FIELDS,
+        `${cabinet.city} ${cabinet.address}`
+      )
+    );
+  }
+
+  /**
+   * Ищет записи, в которых найдены все слова запроса. Каждое слово
+   * ищется как есть, в другой раскладке и в транслитерации, с учётом
+   * «ё/е» и опечаток.
+   * @param query - Строка поиска.
+   * @param limit - Максимальное количество записей каждого типа.
+   * @returns Записи по убыванию релевантности с найденными фрагментами.
+   */
+  search(query: string, limit = Infinity): SearchResult {
+    const variants = tokenize(query).map(tokenVariants);
+    const office = this.searchRecords(this.office, variants);
+    const cabinets = this.searchRecords(this.cabinets, variants);
+    return {
+      query,
+      office: office.slice(0, limit),
+      cabinets: cabinets.slice(0, limit),
+      total: { office: office.length, cabinets: cabinets.length },
+    };
+  }
+
+  private indexRecord<T>(
+    record: T,
+    specs: FieldSpec<T>[],
+    sortKey: string
+  ): IndexedRecord<T> {
+    return {
+      record,
+      sortKey: sortKey.toLowerCase(),
+      fields: specs.map((spec) =>
+        indexField(
+          spec.name,
+          spec.weight,
+          spec.value ? spec.value(record) : String(record[spec.name] ?? ""),
+          !!spec.phone
+        )
+      ),
+    };
+  }
+
+  private searchRecords<T>(
+    records: IndexedRecord<T>[],
+    variants: { text: string; factor: number }[][]
+  ): SearchHit<T>[] {
+    if (variants.length === 0) return [];
+    const hits: (SearchHit<T> & { sortKey: string })[] = [];
+    records.forEach(({ record, sortKey, fields }) => {
+      let score = 0;
+      const matches: Record<string, MatchRange[]> = {};
+      for (const tokenVariants of variants) {
+        const found = matchToken(fields, tokenVariants);
+        if (!found) return;
+        score += found.score;
+        Object.entries(found.matches).forEach(([field, ranges]) => {
+          matches[field] = [...(matches[field] || []), ...ranges];
+        });
+      }
+      Object.keys(matches).forEach((field) => {
+        matches[field] = mergeRanges(matches[field]);
+      });
+      hits.push({ record, score, matches, sortKey });
+    });
+    return hits
+      .sort((a, b) => b.score - a.score || a.sortKey.localeCompare(b.sortKey))
+      .map(({ record, score, matches }) => ({
+        record,
+        score: Math.round(score * 100) / 100,
+        matches,
+      }));
+  }
+}
+
+// Индексы для загруженных версий; версия, вытесненная из кэша, освобождается
+const indexes = new WeakMap<HandbookData, SearchIndex>();
+
+/**
+ * Возвращает поисковый индекс для версии справочника, строя его
+ * при первом обращении.
+ * @param data - Данные справочника.
+ */
+export function getSearchIndex(data: HandbookData): SearchIndex {
+  let index = indexes.get(data);
+  if (!index) {
+    index = new SearchIndex(data);
+    indexes.set(data, index);
+  }
+  return index;
+}
@@ -0,0 +1,136 @@
+import { NextFunction, Request, Response } from "express";
+
+/** Языки ответов API; первый — язык по умолчанию. */
+export type Language = "ru" | "en";
+export const LANGUAGES: Language[] = ["ru", "en"];
+
+// Сообщения об ошибках пишутся в коде по-русски и служат ключами перевода
+const EN_MESSAGES: Record<string, string> = {
+  "Внутренняя ошибка сервера.": "Internal server error.",
+  "Внутренняя ошибка сервера": "Internal server error.",
+  "Не удалось загрузить данные справочника.":
+    "Failed to load the directory data.",
+  "Требуется вход в систему.": "Sign-in required.",
+  "Недостаточно прав.": "Insufficient permissions.",
+  "Неверный CSRF-токен.": "Invalid CSRF token.",
+  "Укажите имя пользователя и пароль.": "Enter a user name and password.",
+  "Неверное имя пользователя или пароль.": "Invalid user name or password.",
+  "Слишком много попыток входа. Попробуйте позже.":
+    "Too many sign-in attempts. Try again later.",
+  "Ожидается тело запроса в формате JSON.": "The request body must be JSON.",
+  "Администрирование не настроено.": "Administration is not configured.",
+  "Не удалось записать изменение в источник данных.":
+    "Failed to write the change to the data source.",
+  "Ожидается объект с полями записи.": "Expected an object with record fields.",
+  "Запись не найдена.": "Record not found.",
+  "Источник данных доступен только для чтения.":
+    "The data source is read-only.",
+  "Справочник не найден.": "Directory not found.",
+  "Сотрудник не найден.": "Employee not found.",
+  "Отдел не найден.": "Department not found.",
+  "Кабинет не найден.": "Office not found.",
+  "Ресурс API не найден.": "API resource not found.",
+  "Некорректный параметр since.": "Invalid since parameter.",
+  "Версия недоступна, требуется полная загрузка справочника.":
+    "Version unavailable, the full directory must be reloaded.",
+  "Импорт ещё не выполнялся.": "No import has been performed yet.",
+  "Нет сотрудников для выгрузки.": "No employees to export.",
+  "Публичный API не настроен.": "The public API is not configured.",
+  "Неизвестный ключ API.": "Unknown API key.",
+  "Укажите ключ API в заголовке Authorization: Bearer <ключ>.":
+    "Provide an API key in the Authorization: Bearer <key> header.",
+  "Превышен лимит запросов для ключа API. Попробуйте позже.":
+    "Request limit exceeded for the API key. Try again later.",
+  "Звонки через АТС не настроены.": "PBX calls are not configured.",
+  "Укажите номер собеседника.": "Enter the number to call.",
+  "Для вашей учётной записи не указан внутренний номер.":
+    "No extension is set for your account.",
+  "Нельзя позвонить на свой номер.": "You cannot call your own number.",
+  "Слишком много звонков. Попробуйте позже.":
+    "Too many calls. Try again later.",
+  "АТС не приняла вызов. Попробуйте позже.":
+    "The PBX rejected the call. Try again later.",
+};
+
+// Сообщения с подставленными значениями; значения переносятся как есть
+const EN_PATTERNS: [RegExp, string][] = [
+  [
+    /^Строка поиска должна содержать от 1 до (\d+) символов\.$/,
+    "The search query must be 1 to $1 characters long.",
+  ],
+  [
+    /^Внутренний номер "(.*)" не найден в справочнике\.$/,
+    'Extension "$1" was not found in the directory.',
+  ],
+  [
+    /^Номер "(.*)" не найден в справочнике\.$/,
+    'Number "$1" was not found in the directory.',
+  ],
+  [/^Неизвестное поле "(.*)"\.$/, 'Unknown field "$1".'],
+  [/^Поле "(.*)" должно быть строкой\.$/, 'Field "$1" must be a string.'],
+  [
+    /^Поле "(.*)" длиннее (\d+) символов\.$/,
+    'Field "$1" is longer than $2 characters.',
+  ],
+  [
+    /^Поле "(.*)" не похоже на номер телефона\.$/,
+    'Field "$1" does not look like a phone number.',
+  ],
+  [
+    /^Поле "(.*)" не похоже на адрес электронной почты\.$/,
+    'Field "$1" does not look like an email address.',
+  ],
+  [
+    /^Поле "(.*)" должно быть целым числом\.$/,
+    'Field "$1" must be an integer.',
+  ],
+  [/^Поле "(.*)" обязательно для заполнения\.$/, 'Field "$1" is required.'],
+  [
+    /^В источнике данных нет колонки для поля "(.*)"\.$/,
+    'The data source has no column for field "$1".',
+  ],
+];
+
+/**
+ * Язык ответа по заголовку Accept-Language; без заголовка или
+ * при неподдерживаемых языках — русский.
+ */
+export function requestLanguage(req: Request): Language {
+  return (req.acceptsLanguages(...LANGUAGES) || LANGUAGES[0]) as Language;
+}
+
+/**
+ * Переводит сообщение API на указанный язык.
+ * @returns Перевод или исходное сообщение, если перевода нет.
+ */
+export function translateMessage(message: string, language: Language): string {
+  if (language === "ru") return message;
+  if (EN_MESSAGES[message]) return EN_MESSAGES[message];
+  const pattern = EN_PATTERNS.find(([regexp]) => regexp.test(message));
+  return pattern ? message.replace(pattern[0], pattern[1]) : message;
+}
+
+/**
+ * Переводит сообщения об ошибках ({status: "error", message}) на язык
+ * из Accept-Language. Обработчики по-прежнему отвечают по-русски.
+ */
+export function localizeErrors(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const language = requestLanguage(req);
+  const json = res.json.bind(res);
+  res.json = (body?: any) => {
+    if (body && body.status === "error" && typeof body.message === "string") {
+      res.vary("Accept-Language");
+      res.set("Content-Language", language);
+      return json({
+        ...body,
+        message: translateMessage(body.message, language),
+      });
+    }
+    return json(body);
+  };
+  next();
+}
@@ -0,0 +1,22 @@
+import fs from "fs";
+import winston from "winston";
+
+// Настройка логгера
+const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || "info",
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.File({ filename: "logs/error.log", level: "error" }),
+    new winston.transports.File({ filename: "logs/combined.log" }),
+    new winston.transports.Console({ format: winston.format.simple() }),
+  ],
+});
+
+if (!fs.existsSync("logs")) {
+  fs.mkdirSync("logs");
+}
+
+export default logger;
@@ -0,0 +1,157 @@
+import { NextFunction, Request, Response } from "express";
+import { Options as RateLimitOptions } from "express-rate-limit";
+import client from "prom-client";
+import { ImportReport } from "./types";
+
+/** Реестр метрик, отдаваемых на /metrics. */
+export const registry = new client.Registry();
+
+// Метрики процесса Node.js: память, CPU, задержки event loop
+client.collectDefaultMetrics({ register: registry });
+
+const httpRequests = new client.Counter({
+  name: "handbook_http_requests_total",
+  help: "Количество HTTP-запросов по маршрутам и кодам ответа.",
+  labelNames: ["method", "route", "status"] as const,
+  registers: [registry],
+});
+
+const httpRequestDuration = new client.Histogram({
+  name: "handbook_http_request_duration_seconds",
+  help: "Время обработки HTTP-запросов по маршрутам.",
+  labelNames: ["method", "route"] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [registry],
+});
+
+const dataLoads = new client.Counter({
+  name: "handbook_data_loads_total",
+  help: "Обращения к данным справочника: cache — из памяти, reload — чтение источника, error — ошибка.",
+  labelNames: ["directory", "result"] as const,
+  registers: [registry],
+});
+
+const parseDuration = new client.Histogram({
+  name: "handbook_data_parse_duration_seconds",
+  help: "Время чтения и разбора источника данных.",
+  labelNames: ["directory"] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [registry],
+});
+
+const sheetRows = new client.Gauge({
+  name: "handbook_sheet_rows",
+  help: "Строки листов при последнем импорте: total, accepted, rejected, warned.",
+  labelNames: ["directory", "sheet", "state"] as const,
+  registers: [registry],
+});
+
+const lastSuccessfulLoad = new client.Gauge({
+  name: "handbook_last_successful_load_timestamp_seconds",
+  help: "Время последнего успешного чтения источника данных.",
+  labelNames: ["directory"] as const,
+  registers: [registry],
+});
+
+const sourceModified = new client.Gauge({
+  name: "handbook_source_modified_timestamp_seconds",
+  help: "Время изменения загруженной версии источника данных.",
+  labelNames: ["directory"] as const,
+  registers: [registry],
+});
+
+const rateLimitRejections = new client.Counter({
+  name: "handbook_rate_limit_rejections_total",
+  help: "Запросы, отклонённые ограничением частоты.",
+  labelNames: ["limiter"] as const,
+  registers: [registry],
+});
+
+/**
+ * Считает запросы и время их обработки. Маршрут берётся из шаблона
+ * Express (/api/employees/:id), а не из адреса, чтобы число рядов
+ * метрики не росло с каждым новым идентификатором.
+ */
+export function metricsMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const endTimer = httpRequestDuration.startTimer();
+  res.on("finish", () => {
+    const route = req.route
+      ? `${req.baseUrl}${req.route.path}`
+      : req.baseUrl || "unmatched";
+    endTimer({ method: req.method, route });
+    httpRequests.inc({
+      method: req.method,
+      route,
+      status: String(res.statusCode),
+    });
+  });
+  next();
+}
+
+/**
+ * Обработчик превышения лимита express-rate-limit, который учитывает
+ * отказ в метрике и отвечает так же, как обработчик по умолчанию.
+ * @param limiter - Имя ограничения для метки метрики.
+ */
+export function countRateLimitRejections(limiter: string) {
+  return (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    options: RateLimitOptions
+  ) => {
+    rateLimitRejections.inc({ limiter });
+    res.status(options.statusCode).send(options.message);
+  };
+}
+
+/**
+ * Данные отданы из кэша в памяти.
+ * @param directory - Адрес (slug) справочника.
+ */
+export function recordCacheHit(directory: string) {
+  dataLoads.inc({ directory, result: "cache" });
+}
+
+/** Источник не удалось прочитать. */
+export function recordLoadError(directory: string) {
+  dataLoads.inc({ directory, result: "error" });
+}
+
+/**
+ * Учитывает успешное чтение источника.
+ * @param directory - Адрес (slug) справочника.
+ * @param report - Отчёт об импорте.
+ * @param durationSeconds - Время чтения и разбора.
+ */
+export function recordReload(
+  directory: string,
+  report: ImportReport,
+  durationSeconds: number
+) {
+  dataLoads.inc({ directory, result: "reload" });
+  parseDuration.observe({ directory }, durationSeconds);
+  lastSuccessfulLoad.set({ directory }, Date.now() / 1000);
+  if (report.sourceTimestamp !== null) {
+    sourceModified.set({ directory }, report.sourceTimestamp / 1000);
+  }
+  // Отсутствующий лист считается пустым, чтобы не оставались старые значения
+  report.sheets.forEach((sheet) => {
+    const rows = {
+      total: sheet.totalRows,
+      accepted: sheet.acceptedRows,
+      rejected: sheet.rejectedRows,
+      warned: sheet.warnedRows,
+    };
+    Object.entries(rows).forEach(([state, value]) =>
+      sheetRows.set(
+        { directory, sheet: sheet.sheet, state },
+        sheet.found ? value : 0
+      )
+    );
+  });
+}
@@ -0,0 +1,326 @@
+// Описание публичного API версии 1 (см. publicApi.ts) в формате OpenAPI 3.0.
+// Отдаётся по /api/v1/openapi.json; при изменении ресурсов в publicApi.ts
+// описание меняется вместе с ними.
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const successResponse = (data: object, description: string) => ({
+  description,
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        required: ["status", "data"],
+        properties: { status: { type: "string", enum: ["success"] }, data },
+      },
+    },
+  },
+});
+
+const pageOf = (item: string) => ({
+  type: "object",
+  required: ["timestamp", "total", "limit", "offset", "items"],
+  properties: {
+    timestamp: {
+      type: "integer",
+      description: "Версия данных справочника (метка времени, мс).",
+    },
+    total: {
+      type: "integer",
+      description: "Количество записей с учётом фильтров.",
+    },
+    limit: { type: "integer" },
+    offset: { type: "integer" },
+    items: { type: "array", items: ref(item) },
+  },
+});
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: ref("Error") } },
+});
+
+const listResponses = (item: string) => ({
+  200: successResponse(pageOf(item), "Страница списка."),
+  401: { $ref: "#/components/responses/Unauthorized" },
+  404: errorResponse("Справочник не найден."),
+  429: { $ref: "#/components/responses/TooManyRequests" },
+});
+
+const itemResponses = (item: string, notFound: string) => ({
+  200: successResponse(ref(item), "Запись."),
+  401: { $ref: "#/components/responses/Unauthorized" },
+  404: errorResponse(notFound),
+  429: { $ref: "#/components/responses/TooManyRequests" },
+});
+
+const queryParam = (name: string, description: string) => ({
+  name,
+  in: "query",
+  required: false,
+  schema: { type: "string" },
+  description,
+});
+
+const idParam = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "string" },
+};
+
+const pageParams = [
+  { $ref: "#/components/parameters/directory" },
+  { $ref: "#/components/parameters/limit" },
+  { $ref: "#/components/parameters/offset" },
+];
+
+const textQuery = queryParam(
+  "q",
+  "Подстрока без учёта регистра и «ё/е»; запрос из цифр ищется в номерах телефонов."
+);
+
+/**
+ * Строит описание публичного API.
+ * @param pageSize - Размер страницы по умолчанию.
+ * @param maxPageSize - Наибольший допустимый limit.
+ */
+export const buildOpenApiDocument = (
+  pageSize: number,
+  maxPageSize: number
+) => ({
+  openapi: "3.0.3",
+  info: {
+    title: "Корпоративный справочник",
+    version: "1.0.0",
+    description:
+      "Публичный API справочника для внешних систем. Формат ответов " +
+      "меняется только с новой версией API. Все запросы, кроме этого " +
+      "описания, требуют ключа API; у каждого ключа своё ограничение " +
+      "частоты запросов (заголовки RateLimit-*). Состав записей и " +
+      "полей зависит от роли ключа: скрытые от неё поля приходят пустыми.",
+  },
+  servers: [{ url: "/api/v1" }],
+  security: [{ bearerKey: [] }, { headerKey: [] }],
+  paths: {
+    "/directories": {
+      get: {
+        summary: "Список справочников",
+        responses: {
+          200: successResponse(
+            { type: "array", items: ref("Directory") },
+            "Справочники."
+          ),
+          401: { $ref: "#/components/responses/Unauthorized" },
+          429: { $ref: "#/components/responses/TooManyRequests" },
+        },
+      },
+    },
+    "/employees": {
+      get: {
+        summary: "Сотрудники",
+        parameters: [
+          ...pageParams,
+          textQuery,
+          queryParam("department", "Название или ID отдела."),
+          {
+            name: "absent",
+            in: "query",
+            required: false,
+            schema: { type: "string", enum: ["true", "false"] },
+            description:
+              "Только отсутствующие сегодня (true) или только на месте (false).",
+          },
+        ],
+        responses: listResponses("Employee"),
+      },
+    },
+    "/employees/{id}": {
+      get: {
+        summary: "Сотрудник",
+        parameters: [idParam, { $ref: "#/components/parameters/directory" }],
+        responses: itemResponses("Employee", "Сотрудник не найден."),
+      },
+    },
+    "/departments": {
+      get: {
+        summary: "Отделы",
+        parameters: [
+          ...pageParams,
+          textQuery,
+          queryParam("parent", "Название вышестоящего отдела."),
+        ],
+        responses: listResponses("Department"),
+      },
+    },
+    "/departments/{id}": {
+      get: {
+        summary: "Отдел",
+        parameters: [idParam, { $ref: "#/components/parameters/directory" }],
+        responses: itemResponses("Department", "Отдел не найден."),
+      },
+    },
+    "/cabinets": {
+      get: {
+        summary: "Кабинеты",
+        parameters: [...pageParams, textQuery, queryParam("city", "Город.")],
+        responses: listResponses("Cabinet"),
+      },
+    },
+    "/cabinets/{id}": {
+      get: {
+        summary: "Кабинет",
+        parameters: [idParam, { $ref: "#/components/parameters/directory" }],
+        responses: itemResponses("Cabinet", "Кабинет не найден."),
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerKey: { type: "http", scheme: "bearer" },
+      headerKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+    },
+    parameters: {
+      directory: queryParam(
+        "directory",
+        "Адрес (slug) справочника из /directories; по умолчанию — основной."
+      ),
+      limit: {
+        name: "limit",
+        in: "query",
+        required: false,
+        schema: {
+          type: "integer",
+          minimum: 1,
+          maximum: maxPageSize,
+          default: pageSize,
+        },
+      },
+      offset: {
+        name: "offset",
+        in: "query",
+        required: false,
+        schema: { type: "integer", minimum: 0, default: 0 },
+      },
+    },
+    responses: {
+      Unauthorized: errorResponse("Ключ API не указан или неизвестен."),
+      TooManyRequests: errorResponse("Превышен лимит запросов для ключа API."),
+    },
+    schemas: {
+      Error: {
+        type: "object",
+        required: ["status", "message"],
+        properties: {
+          status: { type: "string", enum: ["error"] },
+          message: { type: "string" },
+        },
+      },
+      Directory: {
+        type: "object",
+        required: ["slug", "name", "default"],
+        properties: {
+          slug: { type: "string" },
+          name: { type: "string" },
+          default: { type: "boolean" },
+        },
+      },
+      Phone: {
+        type: "object",
+        required: ["raw", "e164", "extension", "formatted"],
+        properties: {
+          raw: {
+            type: "string",
+            description: "Номер, как указан в справочнике.",
+          },
+          e164: {
+            type: "string",
+            nullable: true,
+            description: "Внешний номер в формате E.164; null — внутренний.",
+          },
+          extension: { type: "string", nullable: true },
+          formatted: { type: "string" },
+        },
+      },
+      Absence: {
+        type: "object",
+        required: ["type", "from", "to", "substituteId", "substituteName"],
+        properties: {
+          type: {
+            type: "string",
+            enum: ["vacation", "sick-leave", "business-trip"],
+          },
+          from: { type: "string", format: "date" },
+          to: { type: "string", format: "date" },
+          substituteId: { type: "string", nullable: true },
+          substituteName: { type: "string" },
+        },
+      },
+      Employee: {
+        type: "object",
+        required: [
+          "id",
+          "fullName",
+          "position",
+          "department",
+          "departmentId",
+          "manager",
+          "internalPhones",
+          "generalPhones",
+          "absence",
+        ],
+        properties: {
+          id: { type: "string" },
+          fullName: { type: "string" },
+          position: { type: "string" },
+          department: { type: "string" },
+          departmentId: { type: "string", nullable: true },
+          manager: {
+            type: "string",
+            description: "Руководитель: ID или ФИО, как указано в справочнике.",
+          },
+          internalPhones: { type: "array", items: ref("Phone") },
+          generalPhones: { type: "array", items: ref("Phone") },
+          absence: {
+            allOf: [ref("Absence")],
+            nullable: true,
+            description: "Отсутствие на текущую дату.",
+          },
+        },
+      },
+      Department: {
+        type: "object",
+        required: [
+          "id",
+          "name",
+          "parent",
+          "location",
+          "email",
+          "head",
+          "phones",
+          "employeeCount",
+        ],
+        properties: {
+          id: { type: "string" },
+          name: { type: "string" },
+          parent: { type: "string", nullable: true },
+          location: { type: "string" },
+          email: { type: "string" },
+          head: { type: "string" },
+          phones: { type: "array", items: ref("Phone") },
+          employeeCount: { type: "integer" },
+        },
+      },
+      Cabinet: {
+        type: "object",
+        required: ["id", "city", "address", "phones"],
+        properties: {
+          id: { type: "string" },
+          city: { type: "string" },
+          address: { type: "string" },
+          phones: { type: "array", items: ref("Phone") },
+        },
+      },
+    },
+  },
+});
@@ -0,0 +1,258 @@
+import { HandbookData, OfficeEmployee } from "./types";
+
+export interface OrgEmployeeNode {
+  employee: OfficeEmployee;
+  /** ID руководителя после разбора колонки «Руководитель»; null — нет. */
+  managerId: string | null;
+  /** Подчинённые из того же отдела. */
+  reports: OrgEmployeeNode[];
+}
+
+export interface OrgDepartmentNode {
+  name: string;
+  parent: string | null;
+  /** Сотрудники отдела верхнего уровня (без руководителя в этом же отделе). */
+  employees: OrgEmployeeNode[];
+  children: OrgDepartmentNode[];
+}
+
+export type OrgChartIssueKind =
+  | "manager-not-found"
+  | "manager-ambiguous"
+  | "manager-self"
+  | "manager-cycle"
+  | "department-cycle"
+  | "parent-conflict";
+
+export interface OrgChartIssue {
+  kind: OrgChartIssueKind;
+  message: string;
+  employeeIds?: string[];
+  department?: string;
+}
+
+export interface OrgChart {
+  timestamp: number;
+  departments: OrgDepartmentNode[];
+  issues: OrgChartIssue[];
+}
+
+const NO_DEPARTMENT = "Без отдела";
+
+const normalizeName = (value: string) =>
+  value.toLowerCase().replace(/ё/g, "е").replace(/\s+/g, " ").trim();
+
+const compareEmployees = (a: OfficeEmployee, b: OfficeEmployee) =>
+  a.sortPriority - b.sortPriority ||
+  a.fullName.toLowerCase().localeCompare(b.fullName.toLowerCase());
+
+const departmentOf = (employee: OfficeEmployee) =>
+  employee.department || NO_DEPARTMENT;
+
+/**
+ * Находит руководителя каждого сотрудника по значению колонки
+ * «Руководитель»: сначала как ID, затем как ФИО.
+ * @returns ID руководителя по ID сотрудника.
+ */
+function resolveManagers(
+  employees: OfficeEmployee[],
+  issues: OrgChartIssue[]
+): Map<string, string> {
+  const byId = new Map(employees.map((e) => [e.id, e]));
+  const byName = new Map<string, OfficeEmployee[]>();
+  employees.forEach((e) => {
+    const key = normalizeName(e.fullName);
+    byName.set(key, [...(byName.get(key) || []), e]);
+  });
+
+  const managers = new Map<string, string>();
+  employees.forEach((employee) => {
+    const reference = employee.manager.trim();
+    if (!reference) return;
+    const candidates = byId.has(reference)
+      ? [byId.get(reference)!]
+      : byName.get(normalizeName(reference)) || [];
+
+    if (candidates.length === 0) {
+      issues.push({
+        kind: "manager-not-found",
+        message: `Руководитель «${reference}» сотрудника ${employee.fullName} не найден в справочнике.`,
+        employeeIds: [employee.id],
+      });
+    } else if (candidates.length > 1) {
+      issues.push({
+        kind: "manager-ambiguous",
+        message: `Руководитель «${reference}» сотрудника ${employee.fullName} неоднозначен: укажите ID вместо ФИО.`,
+        employeeIds: [employee.id, ...candidates.map((c) => c.id)],
+      });
+    } else if (candidates[0].id === employee.id) {
+      issues.push({
+        kind: "manager-self",
+        message: `Сотрудник ${employee.fullName} указан руководителем самого себя.`,
+        employeeIds: [employee.id],
+      });
+    } else {
+      managers.set(employee.id, candidates[0].id);
+    }
+  });
+  return managers;
+}
+
+/**
+ * Ищет циклы в графе «узел -> родитель» (у каждого узла не больше одного
+ * родителя) и разрывает их, удаляя связь у первого по порядку узла цикла.
+ * @param parents - Родитель каждого узла; изменяется на месте.
+ * @param order - Сравнение узлов для выбора узла, у которого рвётся связь.
+ * @returns Найденные циклы.
+ */
+function breakCycles(
+  parents: Map<string, string>,
+  order: (a: string, b: string) => number
+): string[][] {
+  const state = new Map<string, "visiting" | "done">();
+  const cycles: string[][] = [];
+
+  Array.from(parents.keys()).forEach((start) => {
+    const path: string[] = [];
+    let node: string | undefined = start;
+    while (node !== undefined && !state.has(node)) {
+      state.set(node, "visiting");
+      path.push(node);
+      node = parents.get(node);
+    }
+    if (node !== undefined && state.get(node) === "visiting") {
+      const cycle = path.slice(path.indexOf(node));
+      cycles.push(cycle);
+      parents.delete([...cycle].sort(order)[0]);
+    }
+    path.forEach((visited) => state.set(visited, "done"));
+  });
+  return cycles;
+}
+
+/**
+ * Определяет вышестоящий отдел для каждого отдела по колонке
+ * «Вышестоящий отдел». Если сотрудники одного отдела указывают разные
+ * вышестоящие отделы, берётся наиболее частый.
+ */
+function resolveParentDepartments(
+  employees: OfficeEmployee[],
+  issues: OrgChartIssue[]
+): Map<string, string> {
+  const votes = new Map<string, Map<string, number>>();
+  employees.forEach((employee) => {
+    const parent = employee.parentDepartment.trim();
+    if (!parent) return;
+    const department = departmentOf(employee);
+    const counts = votes.get(department) || new Map<string, number>();
+    counts.set(parent, (counts.get(parent) || 0) + 1);
+    votes.set(department, counts);
+  });
+
+  const parents = new Map<string, string>();
+  votes.forEach((counts, department) => {
+    const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+    if (ranked.length > 1) {
+      issues.push({
+        kind: "parent-conflict",
+        message:
+          `Для отдела «${department}» указаны разные вышестоящие отделы: ` +
+          `${ranked.map(([name]) => name).join(", ")}. Используется «${
+            ranked[0][0]
+          }».`,
+        department,
+      });
+    }
+    if (ranked[0][0] !== department) parents.set(department, ranked[0][0]);
+  });
+  return parents;
+}
+
+/**
+ * Строит организационную структуру: дерево отделов, а внутри отдела —
+ * дерево подчинения сотрудников. Ссылки на несуществующих руководителей
+ * и циклы не ломают дерево, а попадают в список замечаний.
+ * @param data - Данные справочника.
+ */
+export function buildOrgChart(data: HandbookData): OrgChart {
+  const issues: OrgChartIssue[] = [];
+  const employees = [...data.office].sort(compareEmployees);
+  const byId = new Map(employees.map((e) => [e.id, e]));
+  const rank = new Map(employees.map((e, index) => [e.id, index]));
+
+  const managers = resolveManagers(employees, issues);
+  breakCycles(managers, (a, b) => rank.get(a)! - rank.get(b)!).forEach(
+    (cycle) =>
+      issues.push({
+        kind: "manager-cycle",
+        message: `Циклическое подчинение: ${cycle
+          .map((id) => byId.get(id)!.fullName)
+          .join(" → ")}.`,
+        employeeIds: cycle,
+      })
+  );
+
+  // Дерево подчинения внутри каждого отдела
+  const nodes = new Map<string, OrgEmployeeNode>(
+    employees.map((employee) => [
+      employee.id,
+      { employee, managerId: managers.get(employee.id) || null, reports: [] },
+    ])
+  );
+  const departmentRoots = new Map<string, OrgEmployeeNode[]>();
+  employees.forEach((employee) => {
+    const node = nodes.get(employee.id)!;
+    const manager = node.managerId ? byId.get(node.managerId) : undefined;
+    if (manager && departmentOf(manager) === departmentOf(employee)) {
+      nodes.get(manager.id)!.reports.push(node);
+    } else {
+      const department = departmentOf(employee);
+      departmentRoots.set(department, [
+        ...(departmentRoots.get(department) || []),
+        node,
+      ]);
+    }
+  });
+
+  // Дерево отделов; вышестоящий отдел без сотрудников тоже становится узлом
+  const parents = resolveParentDepartments(employees, issues);
+  breakCycles(parents, (a, b) => a.localeCompare(b)).forEach((cycle) =>
+    issues.push({
+      kind: "department-cycle",
+      message: `Циклическая подчинённость отделов: ${cycle.join(" → ")}.`,
+      department: cycle[0],
+    })
+  );
+  const departmentNames = new Set([
+    ...Array.from(departmentRoots.keys()),
+    ...Array.from(parents.values()),
+  ]);
+  const departments = new Map<string, OrgDepartmentNode>(
+    Array.from(departmentNames).map((name) => [
+      name,
+      {
+        name,
+        parent: parents.get(name) || null,
+        employees: departmentRoots.get(name) || [],
+        children: [],
+      },
+    ])
+  );
+  const roots: OrgDepartmentNode[] = [];
+  departments.forEach((department) => {
+    if (department.parent) {
+      departments.get(department.parent)!.children.push(department);
+    } else {
+      roots.push(department);
+    }
+  });
+  const sortDepartments = (list: OrgDepartmentNode[]) => {
+    list.sort((a, b) =>
+      a.name.toLowerCase().localeCompare(b.name.toLowerCase())
+    );
+    list.forEach((department) => sortDepartments(department.children));
+  };
+  sortDepartments(roots);
+
+  return { timestamp: data.timestamp, departments: roots, issues };
+}
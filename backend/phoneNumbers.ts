@@ -0,0 +1,107 @@
+import { PhoneNumber } from "./types";
+
+/** Код страны для номеров, записанных без него: «8 (495) …», «495 …». */
+export const COUNTRY_CODE = "7";
+/** Междугородний префикс, который пишут вместо кода страны. */
+export const TRUNK_PREFIX = "8";
+// Внутренние номера короче городских: до шести цифр
+const MAX_INTERNAL_LENGTH = 6;
+const EXTENSION_PATTERN = /(?:доб\.?|ext\.?)\s*(\d+)/i;
+// Разделители нескольких номеров в одной ячейке
+const NUMBER_SEPARATOR = /[,;/\n]/;
+
+/**
+ * Разбирает один номер: внешний приводится к E.164, короткий считается
+ * внутренним, «доб. 123» выделяется в добавочный.
+ */
+function parsePhoneNumber(raw: string): PhoneNumber {
+  const extensionMatch = raw.match(EXTENSION_PATTERN);
+  const main = raw.replace(EXTENSION_PATTERN, "").replace(/\s+/g, " ").trim();
+  const digits = main.replace(/\D/g, "");
+
+  let e164: string | null = null;
+  if (main.startsWith("+") && digits.length >= 8 && digits.length <= 15) {
+    e164 = `+${digits}`;
+  } else if (
+    digits.length === 11 &&
+    (digits.startsWith(COUNTRY_CODE) || digits.startsWith(TRUNK_PREFIX))
+  ) {
+    e164 = `+${COUNTRY_CODE}${digits.slice(1)}`;
+  } else if (digits.length === 10) {
+    e164 = `+${COUNTRY_CODE}${digits}`;
+  }
+
+  if (
+    !e164 &&
+    !extensionMatch &&
+    digits &&
+    digits.length <= MAX_INTERNAL_LENGTH
+  ) {
+    return { raw, e164: null, extension: digits, formatted: digits };
+  }
+
+  const extension = extensionMatch ? extensionMatch[1] : null;
+  const national = e164?.startsWith(`+${COUNTRY_CODE}`)
+    ? e164.slice(COUNTRY_CODE.length + 1)
+    : null;
+  const base =
+    national && national.length === 10
+      ? `+${COUNTRY_CODE} (${national.slice(0, 3)}) ${national.slice(
+          3,
+          6
+        )}-${national.slice(6, 8)}-${national.slice(8)}`
+      : e164 || main;
+  return {
+    raw,
+    e164,
+    extension,
+    formatted: [base, extension && `доб. ${extension}`]
+      .filter(Boolean)
+      .join(" "),
+  };
+}
+
+/**
+ * Разбирает значение ячейки с одним или несколькими номерами через
+ * запятую, точку с запятой или косую черту. «доб. 123» после запятой
+ * относится к предыдущему номеру.
+ * @param value - Значение ячейки.
+ * @returns Номера в порядке записи; пустой список для пустой ячейки.
+ */
+export function parsePhoneNumbers(value: string): PhoneNumber[] {
+  const parts: string[] = [];
+  value
+    .split(NUMBER_SEPARATOR)
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .forEach((part) => {
+      const onlyExtension = !part.replace(EXTENSION_PATTERN, "").trim();
+      if (onlyExtension && parts.length > 0) {
+        parts[parts.length - 1] += ` ${part}`;
+      } else {
+        parts.push(part);
+      }
+    });
+  return parts.map(parsePhoneNumber);
+}
+
+/**
+ * Номера для отображения через запятую.
+ * @param phones - Разобранные номера.
+ */
+export function formatPhoneNumbers(phones: PhoneNumber[]): string {
+  return phones.map((phone) => phone.formatted).join(", ");
+}
+
+/**
+ * URI номера по RFC 3966: tel:+74951234567;ext=200 или tel:101.
+ * @returns URI или null, если в номере нет цифр.
+ */
+export function phoneTelUri(phone: PhoneNumber): string | null {
+  const digits = phone.raw.replace(EXTENSION_PATTERN, "").replace(/\D/g, "");
+  if (!digits) return null;
+  // У внутреннего номера extension — сам номер, а не добавочный
+  const extension =
+    phone.extension && phone.extension !== digits ? phone.extension : null;
+  return `tel:${phone.e164 || digits}${extension ? `;ext=${extension}` : ""}`;
+}
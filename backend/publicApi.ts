@@ -0,0 +1,506 @@
+import {
+  NextFunction,
+  Request,
+  RequestHandler,
+  Response,
+  Router,
+} from "express";
+import rateLimit from "express-rate-limit";
+import logger from "./logger";
+import { countRateLimitRejections } from "./metrics";
+import {
+  ApiKey,
+  ApiKeyStore,
+  DEFAULT_API_KEY_RATE_LIMIT,
+  apiKeyRole,
+} from "./apiKeys";
+import { filterHandbook } from "./visibility";
+import { generateDepartmentId } from "./employeeIds";
+import { HandbookDirectory } from "./handbookDirectory";
+import { buildOpenApiDocument } from "./openapi";
+import { phoneDigits } from "./tableImport";
+import {
+  Cabinet,
+  EmployeeAbsence,
+  HandbookData,
+  OfficeEmployee,
+  PhoneNumber,
+} from "./types";
+
+// Ресурсы публичного API описаны отдельно от внутренних типов: внутренние
+// меняются вместе со справочником, а эти — только с новой версией API.
+
+export interface PhoneV1 {
+  raw: string;
+  e164: string | null;
+  extension: string | null;
+  formatted: string;
+}
+
+export interface AbsenceV1 {
+  type: EmployeeAbsence["type"];
+  from: string;
+  to: string;
+  substituteId: string | null;
+  substituteName: string;
+}
+
+export interface EmployeeV1 {
+  id: string;
+  fullName: string;
+  position: string;
+  department: string;
+  departmentId: string | null;
+  manager: string;
+  internalPhones: PhoneV1[];
+  generalPhones: PhoneV1[];
+  absence: AbsenceV1 | null;
+}
+
+export interface DepartmentV1 {
+  id: string;
+  name: string;
+  parent: string | null;
+  location: string;
+  email: string;
+  head: string;
+  phones: PhoneV1[];
+  employeeCount: number;
+}
+
+export interface CabinetV1 {
+  id: string;
+  city: string;
+  address: string;
+  phones: PhoneV1[];
+}
+
+/** Страница списка ресурсов. */
+export interface PageV1<T> {
+  /** Версия данных справочника (метка времени). */
+  timestamp: number;
+  total: number;
+  limit: number;
+  offset: number;
+  items: T[];
+}
+
+export interface PublicApiOptions {
+  directories: Map<string, HandbookDirectory>;
+  /** Справочник, если параметр directory не указан. */
+  defaultDirectory: HandbookDirectory;
+  apiKeys: ApiKeyStore;
+}
+
+export const PUBLIC_PAGE_SIZE = 50;
+export const PUBLIC_MAX_PAGE_SIZE = 500;
+// Запрос, похожий на номер, сравнивается с номерами по цифрам
+const MIN_DIGIT_QUERY_LENGTH = 2;
+// Запросов без действующего ключа с одного IP за 15 минут, как у общего ограничения /api
+const ANONYMOUS_RATE_LIMIT = 100;
+
+const normalize = (value: string) =>
+  value.toLowerCase().replace(/ё/g, "е").replace(/\s+/g, " ").trim();
+
+const toPhone = (phone: PhoneNumber): PhoneV1 => ({
+  raw: phone.raw,
+  e164: phone.e164,
+  extension: phone.extension,
+  formatted: phone.formatted,
+});
+
+/**
+ * Отделы справочника: описания с листа «Отделы» и отделы, которые
+ * указаны только у сотрудников.
+ */
+function listDepartments(data: HandbookData): DepartmentV1[] {
+  const taken = new Set(data.departments.map((d) => d.id));
+  const byName = new Map<string, DepartmentV1>(
+    data.departments.map((d) => [
+      normalize(d.name),
+      {
+        id: d.id,
+        name: d.name,
+        parent: null,
+        location: d.location,
+        email: d.email,
+        head: d.head,
+        phones: d.phones.generalNumber.map(toPhone),
+        employeeCount: 0,
+      },
+    ])
+  );
+  data.office.forEach((employee) => {
+    if (!employee.department) return;
+    const key = normalize(employee.department);
+    let department = byName.get(key);
+    if (!department) {
+      department = {
+        id: generateDepartmentId(employee.department, taken),
+        name: employee.department,
+        parent: null,
+        location: "",
+        email: "",
+        head: "",
+        phones: employee.phones.generalNumber.map(toPhone),
+        employeeCount: 0,
+      };
+      byName.set(key, department);
+    }
+    department.employeeCount++;
+    department.parent = department.parent || employee.parentDepartment || null;
+  });
+  return Array.from(byName.values());
+}
+
+function toEmployee(
+  employee: OfficeEmployee,
+  departmentIds: Map<string, string>
+): EmployeeV1 {
+  return {
+    id: employee.id,
+    fullName: employee.fullName,
+    position: employee.position,
+    department: employee.department,
+    departmentId: departmentIds.get(normalize(employee.department)) ?? null,
+    manager: employee.manager,
+    internalPhones: employee.phones.internalNumber.map(toPhone),
+    generalPhones: employee.phones.generalNumber.map(toPhone),
+    absence: employee.absence && {
+      type: employee.absence.type,
+      from: employee.absence.from,
+      to: employee.absence.to,
+      substituteId: employee.absence.substituteId,
+      substituteName: employee.absence.substituteName,
+    },
+  };
+}
+
+const toCabinet = (cabinet: Cabinet): CabinetV1 => ({
+  id: cabinet.id,
+  city: cabinet.city,
+  address: cabinet.address,
+  phones: cabinet.phones.internalNumber.map(toPhone),
+});
+
+/**
+ * Фильтр по параметру q: подстрока в текстовых полях без учёта регистра
+ * и «ё/е» или, для запроса из цифр, подстрока в цифрах номеров.
+ * @returns null, если параметр q не указан.
+ */
+function textFilter<T>(
+  req: Request,
+  fields: (item: T) => string[],
+  phones: (item: T) => PhoneV1[]
+): ((item: T) => boolean) | null {
+  const query = typeof req.query.q === "string" ? normalize(req.query.q) : "";
+  if (!query) return null;
+  const digits = /^[\d\s()+-]+$/.test(query) ? phoneDigits(query) : "";
+  return (item) =>
+    fields(item).some((field) => normalize(field).includes(query)) ||
+    (digits.length >= MIN_DIGIT_QUERY_LENGTH &&
+      phones(item).some((phone) => phoneDigits(phone.raw).includes(digits)));
+}
+
+/** Значение параметра-фильтра или null, если он не указан. */
+function filterParam(req: Request, name: string): string | null {
+  const value = req.query[name];
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Отдаёт страницу списка по параметрам limit и offset.
+ */
+function sendPage<T>(
+  req: Request,
+  res: Response,
+  timestamp: number,
+  items: T[]
+) {
+  const limit = Math.min(
+    parseInt(String(req.query.limit), 10) || PUBLIC_PAGE_SIZE,
+    PUBLIC_MAX_PAGE_SIZE
+  );
+  const offset = Math.max(parseInt(String(req.query.offset), 10) || 0, 0);
+  const page: PageV1<T> = {
+    timestamp,
+    total: items.length,
+    limit,
+    offset,
+    items: items.slice(offset, offset + limit),
+  };
+  res.json({ status: "success", data: page });
+}
+
+const sendNotFound = (res: Response, message: string) =>
+  res.status(404).json({ status: "error", message });
+
+const sendServerError = (res: Response) =>
+  res
+    .status(500)
+    .json({ status: "error", message: "Внутренняя ошибка сервера." });
+
+/** Ключ из заголовка Authorization: Bearer <ключ> или X-API-Key. */
+function requestApiKey(req: Request): string | null {
+  const authorization = req.get("Authorization");
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return bearer || req.get("X-API-Key") || null;
+}
+
+/**
+ * Создаёт роутер публичного API версии 1 для внешних систем (helpdesk,
+ * виджеты интранета): постраничные списки сотрудников, отделов и
+ * кабинетов с фильтрами и описание OpenAPI. Формат ответов не зависит
+ * от /api/handbook и меняется только с новой версией API.
+ * Доступ — по ключу API (см. apiKeys.ts); у каждого ключа своё
+ * ограничение частоты запросов вместо общего ограничения /api, а
+ * запросы без действующего ключа ограничиваются по IP.
+ * Монтируется в /api/v1.
+ * @param options - Справочники и ключи API.
+ */
+export function createPublicApiRouter(options: PublicApiOptions): Router {
+  const router = Router();
+  // Ограничители по параметрам ключа: окно у express-rate-limit задаётся при создании
+  const limiters = new Map<string, RequestHandler>();
+
+  const limiterFor = (key: ApiKey): RequestHandler => {
+    const { max, windowMinutes } = key.rateLimit || DEFAULT_API_KEY_RATE_LIMIT;
+    const id = `${max}/${windowMinutes}`;
+    let limiter = limiters.get(id);
+    if (!limiter) {
+      limiter = rateLimit({
+        windowMs: windowMinutes * 60 * 1000,
+        max,
+        standardHeaders: true,
+        legacyHeaders: false,
+        keyGenerator: (req: Request, res: Response) =>
+          (res.locals.apiKey as ApiKey).name,
+        handler: countRateLimitRejections("api-v1"),
+        message: {
+          status: "error",
+          message: "Превышен лимит запросов для ключа API. Попробуйте позже.",
+        },
+      });
+      limiters.set(id, limiter);
+    }
+    return limiter;
+  };
+
+  // Запросы без действующего ключа (описание API, неверные ключи)
+  // ограничиваются по IP до проверки ключа: иначе ключи можно перебирать
+  // без ограничений. Успешные запросы с ключом учитывает ограничитель ключа
+  router.use(
+    rateLimit({
+      windowMs: 15 * 60 * 1000,
+      max: ANONYMOUS_RATE_LIMIT,
+      standardHeaders: true,
+      legacyHeaders: false,
+      skipSuccessfulRequests: true,
+      requestWasSuccessful: (req: Request, res: Response) =>
+        res.locals.apiKey !== undefined && res.statusCode < 400,
+      handler: countRateLimitRejections("api-v1-ip"),
+    })
+  );
+
+  // Описание API доступно без ключа: по нему клиенты генерируют код
+  const openApiDocument = buildOpenApiDocument(
+    PUBLIC_PAGE_SIZE,
+    PUBLIC_MAX_PAGE_SIZE
+  );
+  router.get("/openapi.json", (req: Request, res: Response) => {
+    res.json(openApiDocument);
+  });
+
+  router.use(async (req: Request, res: Response, next: NextFunction) => {
+    const value = requestApiKey(req);
+    try {
+      const key = value ? await options.apiKeys.find(value) : null;
+      if (!key) {
+        res.set("WWW-Authenticate", 'Bearer realm="handbook"');
+        return res.status(401).json({
+          status: "error",
+          message: value
+            ? "Неизвестный ключ API."
+            : "Укажите ключ API в заголовке Authorization: Bearer <ключ>.",
+        });
+      }
+      res.locals.apiKey = key;
+      limiterFor(key)(req, res, next);
+    } catch (error) {
+      logger.error("Ошибка проверки ключа API:", error);
+      sendServerError(res);
+    }
+  });
+
+  router.get("/directories", (req: Request, res: Response) => {
+    res.json({
+      status: "success",
+      data: Array.from(options.directories.values()).map((directory) => ({
+        slug: directory.slug,
+        name: directory.name,
+        default: directory === options.defaultDirectory,
+      })),
+    });
+  });
+
+  /**
+   * Загружает справочник из параметра directory (по умолчанию — основной)
+   * в том виде, в котором он виден роли ключа.
+   * @returns Данные или null, если ответ с ошибкой уже отправлен.
+   */
+  const loadData = async (
+    req: Request,
+    res: Response
+  ): Promise<HandbookData | null> => {
+    const slug = req.query.directory;
+    const directory =
+      typeof slug === "string" && slug
+        ? options.directories.get(slug)
+        : options.defaultDirectory;
+    if (!directory) {
+      sendNotFound(res, "Справочник не найден.");
+      return null;
+    }
+    const data = await directory.load();
+    if (!data) {
+      res.status(500).json({
+        status: "error",
+        message: "Не удалось загрузить данные справочника.",
+      });
+      return null;
+    }
+    return filterHandbook(data, apiKeyRole(res.locals.apiKey as ApiKey));
+  };
+
+  const departmentIds = (departments: DepartmentV1[]) =>
+    new Map(departments.map((d) => [normalize(d.name), d.id]));
+
+  // Сотрудники; фильтры: q, department (название или ID отдела), absent
+  router.get("/employees", async (req: Request, res: Response) => {
+    try {
+      const data = await loadData(req, res);
+      if (!data) return;
+      const departments = listDepartments(data);
+      const ids = departmentIds(departments);
+      const department = filterParam(req, "department");
+      const absent = filterParam(req, "absent");
+      const matches = textFilter<EmployeeV1>(
+        req,
+        (e) => [e.fullName, e.position, e.department],
+        (e) => [...e.internalPhones, ...e.generalPhones]
+      );
+      const items = data.office
+        .map((employee) => toEmployee(employee, ids))
+        .filter(
+          (e) =>
+            (!department ||
+              normalize(e.department) === normalize(department) ||
+              e.departmentId === department) &&
+            (absent === null || (e.absence !== null) === (absent === "true")) &&
+            (!matches || matches(e))
+        );
+      sendPage(req, res, data.timestamp, items);
+    } catch (error) {
+      logger.error("Ошибка в /api/v1/employees:", error);
+      sendServerError(res);
+    }
+  });
+
+  router.get("/employees/:id", async (req: Request, res: Response) => {
+    try {
+      const data = await loadData(req, res);
+      if (!data) return;
+      const employee = data.office.find((e) => e.id === req.params.id);
+      if (!employee) return sendNotFound(res, "Сотрудник не найден.");
+      res.json({
+        status: "success",
+        data: toEmployee(employee, departmentIds(listDepartments(data))),
+      });
+    } catch (error) {
+      logger.error("Ошибка в /api/v1/employees/:id:", error);
+      sendServerError(res);
+    }
+  });
+
+  // Отделы; фильтры: q, parent (название вышестоящего отдела)
+  router.get("/departments", async (req: Request, res: Response) => {
+    try {
+      const data = await loadData(req, res);
+      if (!data) return;
+      const parent = filterParam(req, "parent");
+      const matches = textFilter<DepartmentV1>(
+        req,
+        (d) => [d.name, d.location, d.head, d.email],
+        (d) => d.phones
+      );
+      const items = listDepartments(data).filter(
+        (d) =>
+          (!parent || normalize(d.parent || "") === normalize(parent)) &&
+          (!matches || matches(d))
+      );
+      sendPage(req, res, data.timestamp, items);
+    } catch (error) {
+      logger.error("Ошибка в /api/v1/departments:", error);
+      sendServerError(res);
+    }
+  });
+
+  router.get("/departments/:id", async (req: Request, res: Response) => {
+    try {
+      const data = await loadData(req, res);
+      if (!data) return;
+      const department = listDepartments(data).find(
+        (d) => d.id === req.params.id
+      );
+      if (!department) return sendNotFound(res, "Отдел не найден.");
+      res.json({ status: "success", data: department });
+    } catch (error) {
+      logger.error("Ошибка в /api/v1/departments/:id:", error);
+      sendServerError(res);
+    }
+  });
+
+  // Кабинеты; фильтры: q, city
+  router.get("/cabinets", async (req: Request, res: Response) => {
+    try {
+      const data = await loadData(req, res);
+      if (!data) return;
+      const city = filterParam(req, "city");
+      const matches = textFilter<CabinetV1>(
+        req,
+        (c) => [c.city, c.address],
+        (c) => c.phones
+      );
+      const items = data.cabinets
+        .map(toCabinet)
+        .filter(
+          (c) =>
+            (!city || normalize(c.city) === normalize(city)) &&
+            (!matches || matches(c))
+        );
+      sendPage(req, res, data.timestamp, items);
+    } catch (error) {
+      logger.error("Ошибка в /api/v1/cabinets:", error);
+      sendServerError(res);
+    }
+  });
+
+  router.get("/cabinets/:id", async (req: Request, res: Response) => {
+    try {
+      const data = await loadData(req, res);
+      if (!data) return;
+      const cabinet = data.cabinets.find((c) => c.id === req.params.id);
+      if (!cabinet) return sendNotFound(res, "Кабинет не найден.");
+      res.json({ status: "success", data: toCabinet(cabinet) });
+    } catch (error) {
+      logger.error("Ошибка в /api/v1/cabinets/:id:", error);
+      sendServerError(res);
+    }
+  });
+
+  router.use((req: Request, res: Response) => {
+    sendNotFound(res, "Ресурс API не найден.");
+  });
+
+  return router;
+}
@@ -0,0 +1,306 @@
+import {
+  DEFAULT_SORT_PRIORITY,
+  SheetKey,
+  isValidPhone,
+  phoneDigits,
+} from "./tableImport";
+import {
+  HandbookData,
+  ImportSeverity,
+  OfficeEmployee,
+  PhoneNumber,
+} from "./types";
+
+export type QualityIssueKind =
+  | "duplicate-number"
+  | "duplicate-name"
+  | "empty-department"
+  | "invalid-number"
+  | "department-number-mismatch"
+  | "default-sort-priority";
+
+/** Запись, к которой относится замечание. */
+export interface QualityRecordRef {
+  sheet: SheetKey;
+  id: string;
+  /** ФИО сотрудника, адрес кабинета или название отдела. */
+  title: string;
+  department?: string;
+  field?: string;
+  value?: string;
+}
+
+export interface QualityIssue {
+  kind: QualityIssueKind;
+  severity: ImportSeverity;
+  message: string;
+  records: QualityRecordRef[];
+}
+
+export interface QualityReport {
+  timestamp: number;
+  /** Количество замечаний каждого вида. */
+  counts: Record<QualityIssueKind, number>;
+  issues: QualityIssue[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  internalNumber: "внутренний номер",
+  generalNumber: "общий номер",
+};
+
+const normalizeName = (value: string) =>
+  value.toLowerCase().replace(/ё/g, "е").replace(/\s+/g, " ").trim();
+
+const employeeRef = (
+  employee: OfficeEmployee,
+  field?: keyof OfficeEmployee & string
+): QualityRecordRef => ({
+  sheet: "office",
+  id: employee.id,
+  title: employee.fullName,
+  department: employee.department,
+  ...(field && { field, value: String(employee[field]) }),
+});
+
+const describeRef = (ref: QualityRecordRef) =>
+  ref.sheet === "office"
+    ? ref.department
+      ? `${ref.title} (${ref.department})`
+      : ref.title
+    : ref.sheet === "cabinets"
+    ? `кабинет ${ref.title}`
+    : `отдел «${ref.title}»`;
+
+/**
+ * Один внутренний номер у нескольких сотрудников или кабинетов: звонок
+ * попадёт не туда. Каждый номер ячейки («101, 102») сравнивается
+ * отдельно, по цифрам.
+ */
+function findDuplicateNumbers(data: HandbookData): QualityIssue[] {
+  const byNumber = new Map<
+    string,
+    { number: string; refs: QualityRecordRef[] }
+  >();
+  const add = (phones: PhoneNumber[], ref: QualityRecordRef) =>
+    phones.forEach((phone) => {
+      const digits = phoneDigits(phone.formatted);
+      if (!digits) return;
+      const entry = byNumber.get(digits) || {
+        number: phone.formatted,
+        refs: [],
+      };
+      // Номер, повторённый в одной ячейке, — не повод для замечания
+      if (!entry.refs.some((r) => r.sheet === ref.sheet && r.id === ref.id)) {
+        entry.refs.push(ref);
+      }
+      byNumber.set(digits, entry);
+    });
+  data.office.forEach((e) =>
+    add(e.phones.internalNumber, employeeRef(e, "internalNumber"))
+  );
+  data.cabinets.forEach((c) =>
+    add(c.phones.internalNumber, {
+      sheet: "cabinets",
+      id: c.id,
+      title: [c.city, c.address].filter(Boolean).join(", "),
+      field: "internalNumber",
+      value: c.internalNumber,
+    })
+  );
+
+  return Array.from(byNumber.values())
+    .filter(({ refs }) => refs.length > 1)
+    .map(
+      ({ number, refs }): QualityIssue => ({
+        kind: "duplicate-number",
+        severity: "error",
+        message: `Внутренний номер ${number} указан у нескольких записей: ${refs
+          .map(describeRef)
+          .join(", ")}.`,
+        records: refs,
+      })
+    );
+}
+
+/**
+ * Одинаковые ФИО: один человек в двух отделах или повторная строка.
+ * Возможны и однофамильцы, поэтому это предупреждение.
+ */
+function findDuplicateNames(data: HandbookData): QualityIssue[] {
+  const byName = new Map<string, OfficeEmployee[]>();
+  data.office.forEach((e) => {
+    const key = normalizeName(e.fullName);
+    byName.set(key, [...(byName.get(key) || []), e]);
+  });
+
+  return Array.from(byName.values())
+    .filter((employees) => employees.length > 1)
+    .map((employees): QualityIssue => {
+      const departments = Array.from(
+        new Set(employees.map((e) => e.department || "без отдела"))
+      );
+      return {
+        kind: "duplicate-name",
+        severity: "warning",
+        message:
+          departments.length > 1
+            ? `Сотрудник ${
+                employees[0].fullName
+              } указан в нескольких отделах: ${departments.join(", ")}.`
+            : `Сотрудник ${employees[0].fullName} указан в отделе «${departments[0]}» несколько раз.`,
+        records: employees.map((e) => employeeRef(e)),
+      };
+    });
+}
+
+/** Отделы с листа «Отделы», в которых нет ни одного сотрудника. */
+function findEmptyDepartments(data: HandbookData): QualityIssue[] {
+  const used = new Set(data.office.map((e) => e.department));
+  return data.departments
+    .filter((department) => !used.has(department.name))
+    .map(
+      (department): QualityIssue => ({
+        kind: "empty-department",
+        severity: "warning",
+        message: `В отделе «${department.name}» нет сотрудников: проверьте название на листах «Отделы» и «Офис».`,
+        records: [
+          { sheet: "departments", id: department.id, title: department.name },
+        ],
+      })
+    );
+}
+
+/** Значения, не похожие на телефонный номер. */
+function findInvalidNumbers(data: HandbookData): QualityIssue[] {
+  const refs: QualityRecordRef[] = [
+    ...data.office.flatMap((e) => [
+      employeeRef(e, "internalNumber"),
+      employeeRef(e, "generalNumber"),
+    ]),
+    ...data.cabinets.map((c) => ({
+      sheet: "cabinets" as const,
+      id: c.id,
+      title: [c.city, c.address].filter(Boolean).join(", "),
+      field: "internalNumber",
+      value: c.internalNumber,
+    })),
+    ...data.departments.map((d) => ({
+      sheet: "departments" as const,
+      id: d.id,
+      title: d.name,
+      field: "generalNumber",
+      value: d.generalNumber,
+    })),
+  ];
+
+  return refs
+    .filter((ref) => ref.value && !isValidPhone(ref.value))
+    .map(
+      (ref): QualityIssue => ({
+        kind: "invalid-number",
+        severity: "warning",
+        message: `Некорректный ${FIELD_LABELS[ref.field!]} «${
+          ref.value
+        }»: ${describeRef(ref)}.`,
+        records: [ref],
+      })
+    );
+}
+
+/**
+ * Общий номер сотрудника отличается от номера его отдела с листа «Отделы».
+ * Добавочный не учитывается.
+ */
+function findDepartmentNumberMismatches(data: HandbookData): QualityIssue[] {
+  return data.departments
+    .filter((department) => department.generalNumber)
+    .flatMap((department): QualityIssue[] => {
+      const mismatched = data.office.filter(
+        (e) =>
+          e.department === department.name &&
+          e.generalNumber &&
+          phoneDigits(e.generalNumber) !== phoneDigits(department.generalNumber)
+      );
+      if (mismatched.length === 0) return [];
+      return [
+        {
+          kind: "department-number-mismatch",
+          severity: "warning",
+          message:
+            `Общий номер отдела «${department.name}» (${department.generalNumber}) ` +
+            `не совпадает с номером у сотрудников: ${mismatched
+              .map((e) => `${e.fullName} (${e.generalNumber})`)
+              .join(", ")}.`,
+          records: mismatched.map((e) => employeeRef(e, "generalNumber")),
+        },
+      ];
+    });
+}
+
+/**
+ * Приоритет по умолчанию у части сотрудников отдела, когда остальным он
+ * задан: скорее всего, его забыли указать, и сотрудник окажется в конце
+ * списка. Отдел, где приоритет не задан никому, сортируется по ФИО
+ * и замечаний не вызывает.
+ */
+function findDefaultSortPriorities(data: HandbookData): QualityIssue[] {
+  const byDepartment = new Map<string, OfficeEmployee[]>();
+  data.office.forEach((e) =>
+    byDepartment.set(e.department, [
+      ...(byDepartment.get(e.department) || []),
+      e,
+    ])
+  );
+
+  return Array.from(byDepartment.entries()).flatMap(
+    ([department, employees]): QualityIssue[] => {
+      const defaults = employees.filter(
+        (e) => e.sortPriority === DEFAULT_SORT_PRIORITY
+      );
+      if (defaults.length === 0 || defaults.length === employees.length) {
+        return [];
+      }
+      return [
+        {
+          kind: "default-sort-priority",
+          severity: "warning",
+          message: `В отделе «${
+            department || "без отдела"
+          }» не указан приоритет (используется ${DEFAULT_SORT_PRIORITY}): ${defaults
+            .map((e) => e.fullName)
+            .join(", ")}.`,
+          records: defaults.map((e) => employeeRef(e, "sortPriority")),
+        },
+      ];
+    }
+  );
+}
+
+/**
+ * Проверяет согласованность данных справочника: повторяющиеся номера
+ * и ФИО, пустые отделы, некорректные номера, расхождение общих номеров
+ * и забытый приоритет сортировки. В отличие от отчёта об импорте,
+ * проверки сравнивают записи между собой, а не отдельные строки.
+ * @param data - Данные справочника.
+ */
+export function buildQualityReport(data: HandbookData): QualityReport {
+  const issues = [
+    ...findDuplicateNumbers(data),
+    ...findDuplicateNames(data),
+    ...findEmptyDepartments(data),
+    ...findInvalidNumbers(data),
+    ...findDepartmentNumberMismatches(data),
+    ...findDefaultSortPriorities(data),
+  ];
+  const counts: Record<QualityIssueKind, number> = {
+    "duplicate-number": 0,
+    "duplicate-name": 0,
+    "empty-department": 0,
+    "invalid-number": 0,
+    "department-number-mismatch": 0,
+    "default-sort-priority": 0,
+  };
+  issues.forEach((issue) => counts[issue.kind]++);
+  return { timestamp: data.timestamp, counts, issues };
+}
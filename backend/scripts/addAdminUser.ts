@@ -0,0 +1,114 @@
+/**
+ * Добавляет пользователя справочника или меняет его пароль.
+ *
+ * Использование:
+ * npm run admin:add-user -- <имя пользователя> [роль] [внутренний номер]
+ * Роль: employee (сотрудник), hr (отдел кадров) или admin (администратор,
+ * по умолчанию для нового пользователя). Внутренний номер нужен для
+ * звонков из справочника: АТС звонит на него. Без роли и номера у
+ * существующего пользователя меняется только пароль.
+ * Пароль запрашивается в терминале; при запуске без терминала
+ * он читается из стандартного ввода.
+ */
+import "dotenv/config";
+import path from "path";
+import readline from "readline";
+import {
+  ADMIN_ROLES,
+  AdminRole,
+  isValidUsername,
+  saveUser,
+} from "../adminUsers";
+
+// Тот же каталог, относительно которого пути разрешает сервер
+const DATA_BASE_DIR = path.resolve(__dirname, "../..");
+const MIN_PASSWORD_LENGTH = 10;
+const INTERNAL_NUMBER_PATTERN = /^\d{2,6}$/;
+
+/**
+ * Запрашивает строку в терминале, не показывая вводимые символы.
+ */
+function promptHidden(question: string): Promise<string> {
+  return new Promise((resolve) => {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+      terminal: true,
+    });
+    const output = rl as unknown as { _writeToOutput: (s: string) => void };
+    rl.question(question, (answer) => {
+      rl.close();
+      process.stdout.write("\n");
+      resolve(answer);
+    });
+    // Приглашение уже выведено, дальше ввод не отображается
+    output._writeToOutput = () => undefined;
+  });
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks)
+    .toString("utf-8")
+    .replace(/\r?\n$/, "");
+}
+
+async function main() {
+  const [username, ...rest] = process.argv.slice(2);
+  if (!username || !isValidUsername(username)) {
+    throw new Error(
+      "Укажите имя пользователя: латинские буквы, цифры, точка, дефис или подчёркивание."
+    );
+  }
+  // Роль и номер можно указать в любом порядке: номер состоит из цифр
+  const internalNumber = rest.find((arg) => INTERNAL_NUMBER_PATTERN.test(arg));
+  const role = rest.find((arg) => arg !== internalNumber);
+  if (role !== undefined && !ADMIN_ROLES.includes(role as AdminRole)) {
+    throw new Error(`Роль должна быть одной из: ${ADMIN_ROLES.join(", ")}.`);
+  }
+  if (rest.length > (role ? 1 : 0) + (internalNumber ? 1 : 0)) {
+    throw new Error("Лишние аргументы: укажите не больше одной роли и номера.");
+  }
+  if (!process.env.ADMIN_USERS_FILE) {
+    throw new Error(
+      "ОШИБКА: Отсутствует переменная окружения ADMIN_USERS_FILE"
+    );
+  }
+  const usersFile = path.resolve(DATA_BASE_DIR, process.env.ADMIN_USERS_FILE);
+
+  let password: string;
+  if (process.stdin.isTTY) {
+    password = await promptHidden("Пароль: ");
+    if ((await promptHidden("Повторите пароль: ")) !== password) {
+      throw new Error("Пароли не совпадают.");
+    }
+  } else {
+    password = await readStdin();
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(
+      `Пароль должен быть не короче ${MIN_PASSWORD_LENGTH} символов.`
+    );
+  }
+
+  const created = await saveUser(
+    usersFile,
+    username,
+    password,
+    role as AdminRole | undefined,
+    internalNumber
+  );
+  console.log(
+    created
+      ? `Пользователь ${username} добавлен в ${usersFile}`
+      : `Пароль пользователя ${username} изменён`
+  );
+  if (role) console.log(`Роль: ${role}`);
+  if (internalNumber) console.log(`Внутренний номер: ${internalNumber}`);
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,74 @@
+/**
+ * Создаёт ключ публичного API для системы-клиента или заменяет её ключ.
+ *
+ * Использование: npm run api:add-key -- <название> [запросов [минут]]
+ * Например: npm run api:add-key -- helpdesk 1200 15
+ * Без ограничения действует DEFAULT_API_KEY_RATE_LIMIT. Ключ выводится
+ * один раз: в файле хранится только его хэш. Ключ видит данные с ролью
+ * DEFAULT_API_KEY_ROLE; другую роль можно указать в поле role в файле.
+ */
+import "dotenv/config";
+import path from "path";
+import {
+  ApiKeyRateLimit,
+  DEFAULT_API_KEY_RATE_LIMIT,
+  createApiKey,
+  isValidApiKeyName,
+} from "../apiKeys";
+
+// Тот же каталог, относительно которого пути разрешает сервер
+const DATA_BASE_DIR = path.resolve(__dirname, "../..");
+
+/**
+ * Разбирает необязательное ограничение частоты запросов из аргументов.
+ */
+function parseRateLimit(
+  max: string | undefined,
+  windowMinutes: string | undefined
+): ApiKeyRateLimit | undefined {
+  if (max === undefined) return undefined;
+  const limit = {
+    max: Number(max),
+    windowMinutes:
+      windowMinutes === undefined
+        ? DEFAULT_API_KEY_RATE_LIMIT.windowMinutes
+        : Number(windowMinutes),
+  };
+  if (
+    !Number.isInteger(limit.max) ||
+    limit.max <= 0 ||
+    !Number.isInteger(limit.windowMinutes) ||
+    limit.windowMinutes <= 0
+  ) {
+    throw new Error(
+      "Число запросов и длительность окна в минутах должны быть положительными целыми числами."
+    );
+  }
+  return limit;
+}
+
+async function main() {
+  const [name, max, windowMinutes] = process.argv.slice(2);
+  if (!name || !isValidApiKeyName(name)) {
+    throw new Error(
+      "Укажите название системы-клиента: латинские буквы, цифры, точка, дефис или подчёркивание."
+    );
+  }
+  if (!process.env.API_KEYS_FILE) {
+    throw new Error("ОШИБКА: Отсутствует переменная окружения API_KEYS_FILE");
+  }
+  const keysFile = path.resolve(DATA_BASE_DIR, process.env.API_KEYS_FILE);
+  const rateLimit = parseRateLimit(max, windowMinutes);
+
+  const key = await createApiKey(keysFile, name, rateLimit);
+  const { max: limit, windowMinutes: window } =
+    rateLimit || DEFAULT_API_KEY_RATE_LIMIT;
+  console.log(`Ключ для ${name} сохранён в ${keysFile}`);
+  console.log(`Ограничение: ${limit} запросов за ${window} мин.`);
+  console.log(`Ключ (показывается один раз): ${key}`);
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
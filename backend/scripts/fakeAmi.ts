@@ -0,0 +1,156 @@
+/**
+ * Учебный AMI-сервер для проверки звонков без настоящей АТС.
+ *
+ * Использование: npm run ami:fake -- [порт]
+ * Принимает вход с AMI_USERNAME/AMI_SECRET из окружения (по умолчанию
+ * admin/secret), на Originate отвечает успехом и печатает, какой вызов
+ * выполнила бы АТС. Порт по умолчанию — AMI_PORT или 5038.
+ * Сервер можно запустить и из тестов: см. createFakeAmiServer.
+ */
+import "dotenv/config";
+import net from "net";
+import { AmiMessage, formatAmiMessage, parseAmiMessage } from "../ami";
+
+const BANNER = "Asterisk Call Manager/5.0.0 (fake)\r\n";
+const MESSAGE_SEPARATOR = "\r\n\r\n";
+
+/** Учётная запись AMI, с которой принимается вход. */
+export interface FakeAmiCredentials {
+  username: string;
+  secret: string;
+}
+
+/**
+ * Отвечает на одно действие клиента.
+ * @returns Ответ и признак того, что после него соединение закрывается.
+ */
+function handleAction(
+  action: AmiMessage,
+  session: { loggedIn: boolean },
+  credentials: FakeAmiCredentials,
+  onOriginate: (action: AmiMessage) => void
+): { reply: AmiMessage; close?: boolean } {
+  const name = (action.action || "").toLowerCase();
+  const actionId: AmiMessage = action.actionid
+    ? { ActionID: action.actionid }
+    : {};
+
+  if (name === "login") {
+    session.loggedIn =
+      action.username === credentials.username &&
+      action.secret === credentials.secret;
+    return session.loggedIn
+      ? {
+          reply: {
+            Response: "Success",
+            ...actionId,
+            Message: "Authentication accepted",
+          },
+        }
+      : {
+          reply: {
+            Response: "Error",
+            ...actionId,
+            Message: "Authentication failed",
+          },
+          close: true,
+        };
+  }
+  if (name === "logoff") {
+    return {
+      reply: {
+        Response: "Goodbye",
+        ...actionId,
+        Message: "Thanks for all the fish.",
+      },
+      close: true,
+    };
+  }
+  if (!session.loggedIn) {
+    return {
+      reply: {
+        Response: "Error",
+        ...actionId,
+        Message: "Permission denied",
+      },
+    };
+  }
+  if (name === "originate") {
+    onOriginate(action);
+    return {
+      reply: {
+        Response: "Success",
+        ...actionId,
+        Message: "Originate successfully queued",
+      },
+    };
+  }
+  if (name === "ping") {
+    return { reply: { Response: "Success", ...actionId, Ping: "Pong" } };
+  }
+  return {
+    reply: {
+      Response: "Error",
+      ...actionId,
+      Message: "Invalid/unknown command",
+    },
+  };
+}
+
+const logOriginate = (action: AmiMessage) =>
+  console.log(
+    `Originate: ${action.channel} -> ${action.exten}@${action.context}` +
+      ` (CallerID ${action.callerid || "-"})`
+  );
+
+/**
+ * Создаёт учебный AMI-сервер; слушать порт он начинает после listen.
+ * @param credentials - Учётная запись, с которой принимается вход.
+ * @param onOriginate - Вызывается для каждого принятого Originate;
+ *   по умолчанию печатает вызов.
+ */
+export function createFakeAmiServer(
+  credentials: FakeAmiCredentials,
+  onOriginate: (action: AmiMessage) => void = logOriginate
+): net.Server {
+  return net.createServer((socket) => {
+    const session = { loggedIn: false };
+    let buffer = "";
+    socket.setEncoding("utf-8");
+    socket.write(BANNER);
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      let separator = buffer.indexOf(MESSAGE_SEPARATOR);
+      while (separator !== -1) {
+        const action = parseAmiMessage(buffer.slice(0, separator));
+        buffer = buffer.slice(separator + MESSAGE_SEPARATOR.length);
+        const { reply, close } = handleAction(
+          action,
+          session,
+          credentials,
+          onOriginate
+        );
+        socket.write(formatAmiMessage(reply));
+        if (close) {
+          socket.end();
+          return;
+        }
+        separator = buffer.indexOf(MESSAGE_SEPARATOR);
+      }
+    });
+    socket.on("error", (error) =>
+      console.error("Ошибка соединения:", error.message)
+    );
+  });
+}
+
+if (require.main === module) {
+  const port =
+    parseInt(process.argv[2] || process.env.AMI_PORT || "", 10) || 5038;
+  const username = process.env.AMI_USERNAME || "admin";
+  const secret = process.env.AMI_SECRET || "secret";
+
+  createFakeAmiServer({ username, secret }).listen(port, () => {
+    console.log(`Учебный AMI-сервер слушает порт ${port} (${username}/***)`);
+  });
+}
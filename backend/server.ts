@@ -1,22 +1,41 @@
+import "dotenv/config";
 import express, { Request, Response, NextFunction } from "express";
-import ExcelJS from "exceljs";
 import path from "path";
-import fs from "fs";
 import helmet from "helmet";
 import rateLimit from "express-rate-limit";
-import winston from "winston";
-import sanitizeHtml from "sanitize-html";
-import dotenv from "dotenv";
-
-dotenv.config();
+import logger from "./logger";
+import { loadColumnAliases } from "./tableImport";
+import {
+  DirectoryConfig,
+  HandbookDirectory,
+  directoryHistoryDir,
+  loadDirectoryConfigs,
+} from "./handbookDirectory";
+import {
+  createHandbookRouter,
+  parseSearchQuery,
+  sendInvalidSearchQuery,
+} from "./handbookRoutes";
+import { getSearchIndex } from "./handbookSearch";
+import { createAdminRouter } from "./adminRoutes";
+import { createAuditLog } from "./auditLog";
+import { createHandbookEditor } from "./handbookEditor";
+import { AmiConfig, createAmiDialer } from "./ami";
+import { createDialRouter } from "./dialRoutes";
+import { ApiKeyStore } from "./apiKeys";
+import { createPublicApiRouter } from "./publicApi";
+import { sessionRole } from "./adminSessions";
+import { filterHandbook } from "./visibility";
+import { localizeErrors } from "./i18n";
+import {
+  countRateLimitRejections,
+  metricsMiddleware,
+  registry,
+} from "./metrics";
 
 // Проверка наличия обязательных переменных окружения при старте
-const requiredEnvVars = [
-  "PORT",
-  "EXCEL_FILE_NAME",
-  "ALLOWED_ORIGINS",
-  "NODE_ENV",
-];
+// (переменные конкретного источника данных проверяет createDataSource)
+const requiredEnvVars = ["PORT", "ALLOWED_ORIGINS", "NODE_ENV"];
 const missingEnvVars = requiredEnvVars.filter(
   (varName) => !process.env[varName]
 );
@@ -28,147 +47,116 @@ if (missingEnvVars.length > 0) {
 
 const app = express();
 const PORT = process.env.PORT || 3001;
-const EXCEL_FILE_PATH = path.resolve(
-  __dirname,
-  "..",
-  process.env.EXCEL_FILE_NAME!
-);
+// Каталог, относительно которого указываются пути к файлам данных
+const DATA_BASE_DIR = path.resolve(__dirname, "..");
 const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS?.split(",") || [];
-
-// Data Interfaces
-interface OfficeEmployee {
-  department: string;
-  sortPriority: number;
-  position: string;
-  fullName: string;
-  internalNumber: string;
-  generalNumber: string;
-}
-
-interface Cabinet {
-  city: string;
-  address: string;
-  internalNumber: string;
-}
-
-interface HandbookData {
-  timestamp: number;
-  office: OfficeEmployee[];
-  cabinets: Cabinet[];
-}
-
-// Настройка логгера
-const logger = winston.createLogger({
-  level: process.env.LOG_LEVEL || "info",
-  format: winston.format.combine(
-    winston.format.timestamp(),
-    winston.format.json()
-  ),
-  transports: [
-    new winston.transports.File({ filename: "logs/error.log", level: "error" }),
-    new winston.transports.File({ filename: "logs/combined.log" }),
-    new winston.transports.Console({ format: winston.format.simple() }),
-  ],
-});
-
-if (!fs.existsSync("logs")) {
-  fs.mkdirSync("logs");
+// Пауза после последнего изменения файла перед повторной загрузкой:
+// при сохранении книга записывается в несколько приёмов
+const WATCH_DEBOUNCE_MS =
+  parseInt(process.env.WATCH_DEBOUNCE_MS || "", 10) || 2000;
+// Сколько последних версий хранить для построения дельты
+const SNAPSHOT_LIMIT = parseInt(process.env.SNAPSHOT_LIMIT || "", 10) || 10;
+// Каталог истории изменений и сколько версий с изменениями в ней хранить
+const HISTORY_DIR = path.resolve(
+  DATA_BASE_DIR,
+  process.env.HISTORY_DIR || "history"
+);
+const HISTORY_LIMIT = parseInt(process.env.HISTORY_LIMIT || "", 10) || 500;
+// Каталог готовых миниатюр фотографий сотрудников (см. PHOTOS_DIR)
+const PHOTO_CACHE_DIR = path.resolve(
+  DATA_BASE_DIR,
+  process.env.PHOTO_CACHE_DIR || "photo-cache"
+);
+// Список справочников (компаний, филиалов); без него справочник один,
+// и источник данных задаётся переменными окружения
+const DIRECTORIES_FILE = process.env.DIRECTORIES_FILE
+  ? path.resolve(DATA_BASE_DIR, process.env.DIRECTORIES_FILE)
+  : null;
+const DEFAULT_DIRECTORY_SLUG = "main";
+// Файл пользователей-администраторов; без него редактирование отключено
+const ADMIN_USERS_FILE = process.env.ADMIN_USERS_FILE
+  ? path.resolve(DATA_BASE_DIR, process.env.ADMIN_USERS_FILE)
+  : null;
+// Ключи публичного API /api/v1 для внешних систем; без файла API отключён
+const API_KEYS_FILE = process.env.API_KEYS_FILE
+  ? path.resolve(DATA_BASE_DIR, process.env.API_KEYS_FILE)
+  : null;
+// Журнал действий администраторов (по умолчанию рядом с остальными логами)
+const AUDIT_LOG_FILE = path.resolve(
+  process.env.AUDIT_LOG_FILE || "logs/audit.log"
+);
+const SESSION_TTL_MINUTES =
+  parseInt(process.env.SESSION_TTL_MINUTES || "", 10) || 480;
+// Cookie сессии только по HTTPS; в production включено по умолчанию
+const ADMIN_COOKIE_SECURE = process.env.ADMIN_COOKIE_SECURE
+  ? process.env.ADMIN_COOKIE_SECURE === "true"
+  : process.env.NODE_ENV === "production";
+
+// Подключение к Asterisk AMI для звонков из справочника; без AMI_HOST отключено
+if (
+  process.env.AMI_HOST &&
+  (!process.env.AMI_USERNAME || !process.env.AMI_SECRET)
+) {
+  throw new Error(
+    "ОШИБКА: Для AMI_HOST нужны переменные окружения AMI_USERNAME и AMI_SECRET"
+  );
 }
+const AMI_CONFIG: AmiConfig | null = process.env.AMI_HOST
+  ? {
+      host: process.env.AMI_HOST,
+      port: parseInt(process.env.AMI_PORT || "", 10) || 5038,
+      username: process.env.AMI_USERNAME || "",
+      secret: process.env.AMI_SECRET || "",
+      channel: process.env.AMI_CHANNEL || "PJSIP/{extension}",
+      context: process.env.AMI_CONTEXT || "from-internal",
+      timeoutMs: parseInt(process.env.AMI_TIMEOUT_MS || "", 10) || 5000,
+    }
+  : null;
 
-// Кэш данных в памяти
-let cachedData: HandbookData | null = null;
-let lastModifiedTime = 0;
+// Синонимы заголовков колонок (стандартные + из COLUMN_ALIASES_FILE)
+const COLUMN_ALIASES = loadColumnAliases(
+  process.env.COLUMN_ALIASES_FILE
+    ? path.resolve(DATA_BASE_DIR, process.env.COLUMN_ALIASES_FILE)
+    : undefined
+);
 
-/**
- * Очищает строку от HTML-тегов для предотвращения XSS-атак.
- * @param input - Входная строка.
- * @returns Очищенная строка.
- */
-function sanitizeString(input: any): string {
-  if (!input) return "";
-  return sanitizeHtml(String(input), {
-    allowedTags: [],
-    allowedAttributes: {},
-  }).trim();
-}
+// Справочники и их источники данных (Excel, CSV, JSON или SQLite — см. DATA_SOURCE).
+// Первый справочник — основной: он отдаётся по /api/handbook и редактируется
+// через /api/admin.
+const directoryConfigs: DirectoryConfig[] = DIRECTORIES_FILE
+  ? loadDirectoryConfigs(DIRECTORIES_FILE)
+  : [
+      {
+        slug: DEFAULT_DIRECTORY_SLUG,
+        name: process.env.ORGANIZATION_NAME || "Справочник",
+        source: process.env,
+      },
+    ];
+const directories = new Map(
+  directoryConfigs.map((config) => [
+    config.slug,
+    new HandbookDirectory(config, {
+      baseDir: DATA_BASE_DIR,
+      aliases: COLUMN_ALIASES,
+      snapshotLimit: SNAPSHOT_LIMIT,
+      historyDir: directoryHistoryDir(
+        HISTORY_DIR,
+        config.slug,
+        DIRECTORIES_FILE !== null
+      ),
+      historyLimit: HISTORY_LIMIT,
+      photoCacheDir: PHOTO_CACHE_DIR,
+    }),
+  ])
+);
+const defaultDirectory = directories.get(directoryConfigs[0].slug)!;
 
 /**
- * Загружает и парсит данные из Excel-файла.
- * Использует кэширование в памяти: если файл не был изменен с момента
- * последней загрузки, возвращает данные из кэша.
- * @returns Объект с данными справочника или null в случае ошибки.
+ * Название организации в выгрузках справочника: ORGANIZATION_NAME из его
+ * настроек, а для справочников из DIRECTORIES_FILE — по умолчанию его название.
  */
-async function loadHandbookData(): Promise<HandbookData | null> {
-  try {
-    if (!fs.existsSync(EXCEL_FILE_PATH)) {
-      logger.error(`Файл не найден: ${EXCEL_FILE_PATH}`);
-      return null;
-    }
-
-    const stats = fs.statSync(EXCEL_FILE_PATH);
-    const currentModTime = stats.mtimeMs;
-
-    if (cachedData && lastModifiedTime === currentModTime) {
-      logger.info("Возврат данных из кэша.");
-      return cachedData;
-    }
-
-    logger.info(`Загрузка данных из: ${EXCEL_FILE_PATH}`);
-    const workbook = new ExcelJS.Workbook();
-    await workbook.xlsx.readFile(EXCEL_FILE_PATH);
-
-    const officeData: OfficeEmployee[] = [];
-    const cabinetsData: Cabinet[] = [];
-
-    const officeSheet = workbook.getWorksheet("Офис");
-    if (officeSheet) {
-      officeSheet.eachRow((row, rowNumber) => {
-        if (rowNumber === 1) return;
-        const cleanValues = (row.values as any[]).slice(1);
-        if (cleanValues.every((val) => !val)) return;
-
-        officeData.push({
-          department: sanitizeString(cleanValues[0]),
-          sortPriority: parseInt(sanitizeString(cleanValues[1])) || 99,
-          position: sanitizeString(cleanValues[2]),
-          fullName: sanitizeString(cleanValues[3]),
-          internalNumber: sanitizeString(cleanValues[4]),
-          generalNumber: sanitizeString(cleanValues[5]),
-        });
-      });
-    }
-
-    const cabinetsSheet = workbook.getWorksheet("Кабинеты");
-    if (cabinetsSheet) {
-      cabinetsSheet.eachRow((row, rowNumber) => {
-        if (rowNumber === 1) return;
-        const cleanValues = (row.values as any[]).slice(1);
-        if (cleanValues.every((val) => !val)) return;
-
-        cabinetsData.push({
-          city: sanitizeString(cleanValues[0]),
-          address: sanitizeString(cleanValues[1]),
-          internalNumber: sanitizeString(cleanValues[2]),
-        });
-      });
-    }
-
-    cachedData = {
-      timestamp: currentModTime,
-      office: officeData,
-      cabinets: cabinetsData,
-    };
-    lastModifiedTime = currentModTime;
-
-    logger.info(
-      `Данные загружены. Офис: ${officeData.length}, Кабинеты: ${cabinetsData.length}`
-    );
-    return cachedData;
-  } catch (error) {
-    logger.error("Ошибка при обработке Excel-файла:", error);
-    return null;
-  }
-}
+const organizationName = (config: DirectoryConfig) =>
+  config.source.ORGANIZATION_NAME ?? (DIRECTORIES_FILE ? config.name : "");
 
 // --- MIDDLEWARES ---
 
@@ -187,17 +175,26 @@ app.use(
   helmet({ contentSecurityPolicy: false, crossOriginEmbedderPolicy: false })
 );
 
+// Счётчики и время обработки запросов для /metrics
+app.use(metricsMiddleware);
+
+// Сообщения об ошибках на языке из Accept-Language
+app.use(localizeErrors);
+
 // Настройка CORS
 app.use((req: Request, res: Response, next: NextFunction) => {
   const origin = req.headers.origin;
   if (origin && ALLOWED_ORIGINS.includes(origin)) {
     res.header("Access-Control-Allow-Origin", origin);
+    // Cookie сессии администратора передаётся только разрешённым источникам
+    res.header("Access-Control-Allow-Credentials", "true");
   }
-  res.header("Access-Control-Allow-Methods", "GET, OPTIONS");
+  res.header("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
   res.header(
     "Access-Control-Allow-Headers",
-    "Origin, X-Requested-With, Content-Type, Accept"
+    "Origin, X-Requested-With, Content-Type, Accept, If-None-Match, X-CSRF-Token, Authorization, X-API-Key"
   );
+  res.header("Access-Control-Expose-Headers", "ETag");
   if (req.method === "OPTIONS") return res.sendStatus(200);
   next();
 });
@@ -208,9 +205,26 @@ const limiter = rateLimit({
   max: 100,
   standardHeaders: true,
   legacyHeaders: false,
+  // Поиск вызывается при наборе запроса и ограничивается отдельно,
+  // фотографии запрашиваются для каждой строки таблицы и кэшируются браузером,
+  // у публичного API ограничения свои: для каждого ключа и по IP для
+  // запросов без ключа (см. createPublicApiRouter)
+  skip: (req) =>
+    req.path.endsWith("/handbook/search") ||
+    req.path.endsWith("/photo") ||
+    req.path.startsWith("/v1/"),
+  handler: countRateLimitRejections("api"),
 });
 app.use("/api/", limiter);
 
+const searchLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 120,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: countRateLimitRejections("search"),
+});
+
 // Логирование всех входящих запросов
 app.use((req: Request, res: Response, next: NextFunction) => {
   logger.info(`${req.method} ${req.path} - ${req.ip}`);
@@ -219,37 +233,172 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 
 // --- ROUTES ---
 
-// Эндпоинт для проверки состояния сервера
-app.get("/health", (req: Request, res: Response) => {
-  res.json({
-    status: "ok",
+/**
+ * Эндпоинт для проверки состояния сервера и каждого справочника
+ * (см. DirectoryHealth). Общий status: error — ни один справочник
+ * не загружен (ответ 503), degraded — хотя бы один не в порядке.
+ */
+app.get("/health", async (req: Request, res: Response) => {
+  const states = await Promise.all(
+    Array.from(directories.values()).map((directory) => directory.health())
+  );
+  const status = states.every((state) => state.status === "error")
+    ? "error"
+    : states.some((state) => state.status !== "ok")
+    ? "degraded"
+    : "ok";
+  res.status(status === "error" ? 503 : 200).json({
+    status,
     uptime: process.uptime(),
-    cacheStatus: cachedData ? "active" : "empty",
+    subscribers: states.reduce((sum, state) => sum + state.subscribers, 0),
+    directories: states,
   });
 });
 
-// Основной эндпоинт для получения данных справочника
-app.get("/api/handbook", async (req: Request, res: Response) => {
+// Метрики в формате Prometheus
+app.get("/metrics", async (req: Request, res: Response) => {
   try {
-    const data = await loadHandbookData();
-    if (data) {
-      res.json({ status: "success", data });
-    } else {
-      res
-        .status(500)
-        .json({
-          status: "error",
-          message: "Не удалось загрузить данные справочника.",
-        });
-    }
+    res.set("Content-Type", registry.contentType);
+    res.end(await registry.metrics());
   } catch (error) {
-    logger.error("Ошибка в /api/handbook:", error);
+    logger.error("Ошибка в /metrics:", error);
+    res.status(500).end();
+  }
+});
+
+// Список справочников для переключателя во фронтенде
+app.get("/api/directories", (req: Request, res: Response) => {
+  res.json({
+    status: "success",
+    data: Array.from(directories.values()).map((directory) => ({
+      slug: directory.slug,
+      name: directory.name,
+      default: directory === defaultDirectory,
+    })),
+  });
+});
+
+// Поиск сразу по всем справочникам; результаты сгруппированы по справочникам
+app.get("/api/search", searchLimiter, async (req: Request, res: Response) => {
+  const params = parseSearchQuery(req);
+  if (!params) return sendInvalidSearchQuery(res);
+  try {
+    const results = await Promise.all(
+      Array.from(directories.values()).map(async (directory) => {
+        const loaded = await directory.load();
+        const data = loaded && filterHandbook(loaded, sessionRole(req));
+        return (
+          data && {
+            slug: directory.slug,
+            name: directory.name,
+            timestamp: data.timestamp,
+            ...getSearchIndex(data).search(params.query, params.limit),
+          }
+        );
+      })
+    );
+    res.json({
+      status: "success",
+      data: {
+        query: params.query,
+        // Недоступные справочники пропускаются, их состояние видно в /health
+        directories: results.filter(Boolean),
+      },
+    });
+  } catch (error) {
+    logger.error("Ошибка в /api/search:", error);
     res
       .status(500)
       .json({ status: "error", message: "Внутренняя ошибка сервера." });
   }
 });
 
+// Публичный API для внешних систем: /api/v1/employees, /api/v1/openapi.json...
+if (API_KEYS_FILE) {
+  app.use(
+    "/api/v1",
+    createPublicApiRouter({
+      directories,
+      defaultDirectory,
+      apiKeys: new ApiKeyStore(API_KEYS_FILE),
+    })
+  );
+} else {
+  app.use("/api/v1", (req: Request, res: Response) => {
+    res
+      .status(404)
+      .json({ status: "error", message: "Публичный API не настроен." });
+  });
+}
+
+// Данные каждого справочника: /api/directories/<slug>/handbook и т. д.
+const directoryRouters = new Map(
+  directoryConfigs.map((config) => [
+    config.slug,
+    createHandbookRouter(directories.get(config.slug)!, {
+      searchLimiter,
+      organization: organizationName(config),
+    }),
+  ])
+);
+app.use(
+  "/api/directories/:slug",
+  (req: Request, res: Response, next: NextFunction) => {
+    const router = directoryRouters.get(req.params.slug);
+    if (!router) {
+      return res
+        .status(404)
+        .json({ status: "error", message: "Справочник не найден." });
+    }
+    router(req, res, next);
+  }
+);
+
+// Основной справочник по прежним адресам: /api/handbook, /api/employees/:id...
+app.use("/api", directoryRouters.get(defaultDirectory.slug)!);
+
+// Администрирование: вход, изменение записей и журнал действий
+if (ADMIN_USERS_FILE) {
+  app.use(
+    "/api/admin",
+    createAdminRouter({
+      usersFile: ADMIN_USERS_FILE,
+      editor: createHandbookEditor(defaultDirectory.dataSource),
+      auditLog: createAuditLog(AUDIT_LOG_FILE),
+      sessionTtlMs: SESSION_TTL_MINUTES * 60 * 1000,
+      secureCookie: ADMIN_COOKIE_SECURE,
+      onDataChanged: () => defaultDirectory.reloadOnChange(),
+    })
+  );
+} else {
+  app.use("/api/admin", (req: Request, res: Response) => {
+    res
+      .status(404)
+      .json({ status: "error", message: "Администрирование не настроено." });
+  });
+}
+
+// Звонок через АТС: с внутреннего номера пользователя на номер из справочника
+if (AMI_CONFIG) {
+  app.use(
+    "/api/dial",
+    createDialRouter({
+      dialer: createAmiDialer(AMI_CONFIG),
+      // Звонить можно только на номера, которые видны пользователю
+      loadData: async (req: Request) => {
+        const data = await defaultDirectory.load();
+        return data && filterHandbook(data, sessionRole(req));
+      },
+    })
+  );
+} else {
+  app.use("/api/dial", (req: Request, res: Response) => {
+    res
+      .status(404)
+      .json({ status: "error", message: "Звонки через АТС не настроены." });
+  });
+}
+
 // --- SERVING FRONTEND & ERROR HANDLING ---
 
 // Раздача статических файлов собранного React-приложения
@@ -273,5 +422,6 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
 app.listen(PORT, () => {
   logger.info(`API-сервер запущен на порту ${PORT}`);
   logger.info(`Environment: ${process.env.NODE_ENV}`);
-  loadHandbookData(); // Предзагрузка данных при старте
+  // Предзагрузка данных при старте и слежение за файлами источников
+  directories.forEach((directory) => directory.start(WATCH_DEBOUNCE_MS));
 });
@@ -0,0 +1,32 @@
+import { HandbookData } from "./types";
+
+/**
+ * Хранит в памяти несколько последних версий справочника, чтобы строить
+ * дельту для клиентов, чей кэш отстал на одну-две версии.
+ */
+export class SnapshotStore {
+  private readonly snapshots = new Map<number, HandbookData>();
+
+  constructor(private readonly limit: number) {}
+
+  /**
+   * Запоминает версию; самые старые версии сверх лимита удаляются.
+   * @param data - Загруженные данные справочника.
+   */
+  remember(data: HandbookData) {
+    this.snapshots.delete(data.timestamp);
+    this.snapshots.set(data.timestamp, data);
+    while (this.snapshots.size > this.limit) {
+      const oldest = this.snapshots.keys().next().value as number;
+      this.snapshots.delete(oldest);
+    }
+  }
+
+  /**
+   * Возвращает версию справочника по её метке времени.
+   * @param timestamp - Метка времени версии (время изменения файла).
+   */
+  get(timestamp: number): HandbookData | undefined {
+    return this.snapshots.get(timestamp);
+  }
+}
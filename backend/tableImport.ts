@@ -0,0 +1,1138 @@
+import fs from "fs";
+import sanitizeHtml from "sanitize-html";
+import {
+  generateCabinetId,
+  generateDepartmentId,
+  generateEmployeeIds,
+  isValidExplicitId,
+} from "./employeeIds";
+import {
+  ABSENCE_TYPE_HINT,
+  createEmployeeLookup,
+  parseAbsenceDate,
+  parseAbsenceType,
+} from "./absences";
+import { parsePhoneNumbers } from "./phoneNumbers";
+import { ROLE_HINT, emptyVisibilityRules, parseRole } from "./visibility";
+import {
+  Absence,
+  Cabinet,
+  Department,
+  ImportIssue,
+  ImportReport,
+  OfficeEmployee,
+  RecordVisibility,
+  Role,
+  SheetImportSummary,
+  VisibilityRules,
+} from "./types";
+
+export type SheetKey = "office" | "cabinets" | "departments" | "absences";
+
+/** Листы с записями справочника: их строки имеют ID и редактируются. */
+export type RecordSheetKey = Exclude<SheetKey, "absences">;
+
+/** Поле данных -> список допустимых заголовков колонки. */
+export type ColumnAliases = Record<SheetKey, Record<string, string[]>>;
+
+/**
+ * Расположение принятых записей листа в источнике: номер колонки для
+ * каждого найденного поля и номер строки для каждого идентификатора.
+ * Нужно источникам, которые умеют записывать изменения обратно.
+ */
+export interface SheetLocation {
+  columns: Record<string, number>;
+  rows: Record<string, number>;
+}
+
+export interface ImportResult {
+  office: OfficeEmployee[];
+  cabinets: Cabinet[];
+  departments: Department[];
+  absences: Absence[];
+  visibility: VisibilityRules;
+  report: ImportReport;
+  locations: Record<RecordSheetKey, SheetLocation>;
+}
+
+/**
+ * Таблица в том виде, в котором её отдаёт источник данных: строка
+ * заголовков и строки значений с номерами строк в исходном файле
+ * (для отчёта об импорте).
+ */
+export interface RawTable {
+  header: unknown[];
+  rows: { rowNumber: number; cells: unknown[] }[];
+}
+
+export type RawTables = Partial<Record<SheetKey, RawTable>>;
+
+/** Названия листов книги; для остальных источников — имена наборов в отчёте. */
+export const SHEET_NAMES: Record<SheetKey, string> = {
+  office: "Офис",
+  cabinets: "Кабинеты",
+  departments: "Отделы",
+  absences: "Отсутствия",
+};
+
+/** Листы, которых может не быть в источнике. */
+const OPTIONAL_SHEETS: SheetKey[] = ["departments", "absences"];
+
+/** Приоритет и порядок сортировки, если в книге значение не указано. */
+export const DEFAULT_SORT_PRIORITY = 99;
+
+/**
+ * Колонка «Видимость»: кому видна строка («сотрудники») или отдельные
+ * её поля («Общий номер: HR»); несколько значений — через «;».
+ */
+const VISIBILITY_ALIASES = ["Видимость", "Доступ", "Visibility", "visibility"];
+
+/**
+ * Заголовки колонок, по которым ищутся поля. Сравнение нечувствительно
+ * к регистру, лишним пробелам и различию «е/ё».
+ */
+export const DEFAULT_COLUMN_ALIASES: ColumnAliases = {
+  office: {
+    id: ["ID", "Идентификатор", "Табельный номер", "Таб. номер", "Таб. №"],
+    department: ["Отдел", "Подразделение", "Department"],
+    sortPriority: [
+      "Приоритет",
+      "Приоритет сортировки",
+      "Сортировка",
+      "Порядок",
+      "Sort priority",
+      "sortPriority",
+    ],
+    position: ["Должность", "Position"],
+    fullName: ["ФИО", "Ф.И.О.", "Сотрудник", "Full name", "fullName"],
+    fullNameEn: [
+      "ФИО (англ.)",
+      "ФИО по-английски",
+      "Full name (English)",
+      "Name in English",
+      "fullNameEn",
+    ],
+    positionEn: [
+      "Должность (англ.)",
+      "Должность по-английски",
+      "Position (English)",
+      "positionEn",
+    ],
+    internalNumber: [
+      "Внутренний номер",
+      "Внутренний",
+      "Вн. номер",
+      "Internal number",
+      "internalNumber",
+    ],
+    generalNumber: [
+      "Общий номер",
+      "Городской номер",
+      "General number",
+      "generalNumber",
+    ],
+    manager: ["Руководитель", "Начальник", "Manager", "manager"],
+    parentDepartment: [
+      "Вышестоящий отдел",
+      "Родительский отдел",
+      "Parent department",
+      "parentDepartment",
+    ],
+    visibility: VISIBILITY_ALIASES,
+  },
+  cabinets: {
+    id: ["ID", "Идентификатор"],
+    city: ["Город", "City"],
+    address: ["Адрес", "Address"],
+    internalNumber: [
+      "Внутренний номер",
+      "Внутренний",
+      "Вн. номер",
+      "Internal number",
+      "internalNumber",
+    ],
+    visibility: VISIBILITY_ALIASES,
+  },
+  departments: {
+    id: ["ID", "Идентификатор"],
+    name: ["Отдел", "Название", "Подразделение", "Department", "name"],
+    generalNumber: [
+      "Общий номер",
+      "Городской номер",
+      "General number",
+      "generalNumber",
+    ],
+    location: [
+      "Расположение",
+      "Этаж/кабинет",
+      "Этаж / кабинет",
+      "Location",
+      "location",
+    ],
+    email: ["Email", "E-mail", "Эл. почта", "Электронная почта", "email"],
+    head: ["Руководитель", "Начальник", "Head", "head"],
+    sortOrder: [
+      "Порядок",
+      "Порядок отображения",
+      "Сортировка",
+      "Display order",
+      "sortOrder",
+    ],
+    visibility: VISIBILITY_ALIASES,
+  },
+  absences: {
+    employee: ["Сотрудник", "ФИО", "Employee", "employee"],
+    type: ["Вид", "Тип", "Причина", "Type", "type"],
+    from: ["С", "Начало", "Дата начала", "From", "from"],
+    to: ["По", "Окончание", "Дата окончания", "To", "to"],
+    substitute: [
+      "Замещает",
+      "Заместитель",
+      "Замещающий",
+      "Substitute",
+      "substitute",
+    ],
+  },
+};
+
+/** Поля, без колонки для которых лист не может быть импортирован. */
+const REQUIRED_COLUMNS: Record<SheetKey, string[]> = {
+  office: ["fullName"],
+  cabinets: ["address"],
+  departments: ["name"],
+  absences: ["employee", "type", "from", "to"],
+};
+
+/** Необязательные поля, об отсутствии колонки для которых не нужно предупреждать. */
+const OPTIONAL_COLUMNS: Record<SheetKey, string[]> = {
+  office: [
+    "id",
+    "fullNameEn",
+    "positionEn",
+    "manager",
+    "parentDepartment",
+    "visibility",
+  ],
+  cabinets: ["id", "visibility"],
+  departments: ["id", "location", "email", "head", "sortOrder", "visibility"],
+  absences: ["substitute"],
+};
+
+// Допустимые символы в телефонном номере; «доб. 123» проверяется отдельно
+const PHONE_PATTERN = /^[+\d\s()\-–.,;/]+$/;
+const EXTENSION_PATTERN = /(доб\.?|ext\.?)\s*\d+/gi;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Метка видимости в заголовке колонки: «Общий номер [HR]»
+const HEADER_MARKER_PATTERN = /^(.*?)\s*\[([^\]]+)\]$/;
+// Роль для нераспознанной метки: лучше скрыть лишнее, чем показать
+const UNKNOWN_VISIBILITY_ROLE: Role = "admin";
+
+/**
+ * Загружает пользовательские синонимы заголовков из JSON-файла и добавляет
+ * их к стандартным. Формат файла: { "office": { "fullName": ["Сотрудник"] } }.
+ * @param filePath - Путь к файлу или undefined, если файл не задан.
+ * @returns Итоговый набор синонимов.
+ */
+export function loadColumnAliases(filePath?: string): ColumnAliases {
+  const aliases: ColumnAliases = {
+    office: { ...DEFAULT_COLUMN_ALIASES.office },
+    cabinets: { ...DEFAULT_COLUMN_ALIASES.cabinets },
+    departments: { ...DEFAULT_COLUMN_ALIASES.departments },
+    absences: { ...DEFAULT_COLUMN_ALIASES.absences },
+  };
+  if (!filePath) return aliases;
+
+  const custom = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  (Object.keys(aliases) as SheetKey[]).forEach((sheet) => {
+    Object.entries(custom[sheet] || {}).forEach(([field, values]) => {
+      if (!(field in aliases[sheet])) {
+        throw new Error(
+          `Неизвестное поле "${field}" для листа "${SHEET_NAMES[sheet]}" в ${filePath}`
+        );
+      }
+      if (!Array.isArray(values)) {
+        throw new Error(
+          `Синонимы поля "${field}" в ${filePath} должны быть массивом строк`
+        );
+      }
+      aliases[sheet][field] = [...aliases[sheet][field], ...values.map(String)];
+    });
+  });
+  return aliases;
+}
+
+/**
+ * Очищает строку от HTML-тегов для предотвращения XSS-атак.
+ * @param input - Входная строка.
+ * @returns Очищенная строка.
+ */
+export function sanitizeString(input: any): string {
+  if (!input) return "";
+  return sanitizeHtml(String(input), {
+    allowedTags: [],
+    allowedAttributes: {},
+  }).trim();
+}
+
+/**
+ * Приводит значение ячейки к строке без HTML.
+ */
+function cellToString(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  // sanitizeString отбрасывает «ложные» значения, а 0 — обычное число
+  if (typeof value === "number") return String(value);
+  return sanitizeString(value);
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/ё/g, "е").replace(/\s+/g, " ").trim();
+}
+
+/** Нормализованный заголовок -> поле. */
+function headerLookup(fieldAliases: Record<string, string[]>) {
+  const lookup = new Map<string, string>();
+  Object.entries(fieldAliases).forEach(([field, names]) => {
+    names.forEach((name) => lookup.set(normalizeHeader(name), field));
+  });
+  return lookup;
+}
+
+/**
+ * Проверяет, похоже ли значение на телефонный номер (допускается «доб. 123»).
+ */
+export function isValidPhone(value: string): boolean {
+  const withoutExtension = value.replace(EXTENSION_PATTERN, "").trim();
+  if (!withoutExtension) return withoutExtension !== value.trim();
+  return PHONE_PATTERN.test(withoutExtension) && /\d/.test(withoutExtension);
+}
+
+/**
+ * Оставляет от номера только цифры без добавочного, чтобы сравнивать
+ * номера, записанные по-разному.
+ */
+export function phoneDigits(value: string): string {
+  return value.replace(EXTENSION_PATTERN, "").replace(/\D/g, "");
+}
+
+/**
+ * Проверяет, похоже ли значение на адрес электронной почты.
+ */
+export function isValidEmail(value: string): boolean {
+  return EMAIL_PATTERN.test(value);
+}
+
+/**
+ * Собирает замечания и статистику по одному листу.
+ */
+class SheetCollector {
+  readonly summary: SheetImportSummary;
+  readonly issues: ImportIssue[] = [];
+  /** Роли из меток в заголовках колонок: поле -> минимальная роль. */
+  readonly columnVisibility: Record<string, Role> = {};
+  private readonly warnedRows = new Set<number>();
+  private rowHasError = false;
+
+  constructor(readonly sheet: string) {
+    this.summary = {
+      sheet,
+      found: false,
+      columns: {},
+      unmappedColumns: [],
+      totalRows: 0,
+      acceptedRows: 0,
+      rejectedRows: 0,
+      warnedRows: 0,
+    };
+  }
+
+  sheetIssue(severity: ImportIssue["severity"], message: string) {
+    this.issues.push({ sheet: this.sheet, row: null, severity, message });
+  }
+
+  startRow() {
+    this.summary.totalRows++;
+    this.rowHasError = false;
+  }
+
+  /**
+   * Добавляет замечание к строке. Предупреждения можно добавлять и после
+   * finishRow — например, при проверках, затрагивающих весь лист.
+   */
+  rowIssue(issue: Omit<ImportIssue, "sheet"> & { row: number }) {
+    this.issues.push({ sheet: this.sheet, ...issue });
+    if (issue.severity === "error") {
+      this.rowHasError = true;
+    } else {
+      this.warnedRows.add(issue.row);
+    }
+  }
+
+  /**
+   * Завершает строку и возвращает true, если её можно принять.
+   * @param rowNumber - Номер строки на листе.
+   */
+  finishRow(rowNumber: number): boolean {
+    if (this.rowHasError) {
+      this.summary.rejectedRows++;
+      this.warnedRows.delete(rowNumber);
+      return false;
+    }
+    this.summary.acceptedRows++;
+    return true;
+  }
+
+  /** Возвращает сводку по листу с актуальным числом строк с предупреждениями. */
+  getSummary(): SheetImportSummary {
+    return { ...this.summary, warnedRows: this.warnedRows.size };
+  }
+}
+
+/**
+ * Читает строки таблицы, определяя колонки по заголовкам.
+ * @param table - Таблица или undefined, если её нет в источнике.
+ *   Отсутствие необязательного листа (OPTIONAL_SHEETS) не считается ошибкой.
+ * @param sheetKey - Тип листа.
+ * @param aliases - Синонимы заголовков.
+ * @param collector - Сборщик отчёта по листу.
+ * @param onRow - Обработчик строки; получает значения полей по имени.
+ * @returns Номера колонок найденных полей или null, если лист не прочитан.
+ */
+function readSheet(
+  table: RawTable | undefined,
+  sheetKey: SheetKey,
+  aliases: ColumnAliases,
+  collector: SheetCollector,
+  onRow: (values: Record<string, string>, rowNumber: number) => void
+): Record<string, number> | null {
+  if (!table) {
+    if (OPTIONAL_SHEETS.includes(sheetKey)) return null;
+    collector.sheetIssue(
+      "error",
+      `Лист "${collector.sheet}" не найден в источнике данных.`
+    );
+    return null;
+  }
+  collector.summary.found = true;
+
+  const fieldAliases = aliases[sheetKey];
+  const lookup = headerLookup(fieldAliases);
+
+  const columnIndex: Record<string, number> = {};
+  table.header.forEach((cell, colNumber) => {
+    const header = cellToString(cell);
+    if (!header) return;
+    let field = lookup.get(normalizeHeader(header));
+    const marker = header.match(HEADER_MARKER_PATTERN);
+    if (!field && marker && lookup.has(normalizeHeader(marker[1]))) {
+      field = lookup.get(normalizeHeader(marker[1]))!;
+      const role = parseRole(marker[2]);
+      if (!role) {
+        collector.sheetIssue(
+          "warning",
+          `Неизвестная видимость "${marker[2]}" в заголовке "${header}": ` +
+            `колонка видна только администраторам. Допустимые значения: ${ROLE_HINT}.`
+        );
+      }
+      if (!(field in columnIndex)) {
+        collector.columnVisibility[field] = role || UNKNOWN_VISIBILITY_ROLE;
+      }
+    }
+    if (!field) {
+      collector.summary.unmappedColumns.push(header);
+    } else if (field in columnIndex) {
+      collector.sheetIssue(
+        "warning",
+        `Колонка "${header}" повторно задаёт поле "${field}" и игнорируется.`
+      );
+    } else {
+      columnIndex[field] = colNumber;
+      collector.summary.columns[field] = header;
+    }
+  });
+
+  const missingRequired = REQUIRED_COLUMNS[sheetKey].filter(
+    (field) => !(field in columnIndex)
+  );
+  if (missingRequired.length > 0) {
+    missingRequired.forEach((field) =>
+      collector.sheetIssue(
+        "error",
+        `Не найдена обязательная колонка для поля "${field}". ` +
+          `Ожидается один из заголовков: ${fieldAliases[field].join(", ")}.`
+      )
+    );
+    return null;
+  }
+  Object.keys(fieldAliases)
+    .filter(
+      (field) =>
+        !(field in columnIndex) && !OPTIONAL_COLUMNS[sheetKey].includes(field)
+    )
+    .forEach((field) =>
+      collector.sheetIssue(
+        "warning",
+        `Не найдена колонка для поля "${field}", значения будут пустыми.`
+      )
+    );
+
+  table.rows.forEach(({ rowNumber, cells }) => {
+    const values: Record<string, string> = {};
+    Object.entries(columnIndex).forEach(([field, colNumber]) => {
+      values[field] = cellToString(cells[colNumber]);
+    });
+    Object.keys(fieldAliases).forEach((field) => {
+      if (!(field in values)) values[field] = "";
+    });
+    if (Object.values(values).every((val) => !val)) return;
+    onRow(values, rowNumber);
+  });
+  return columnIndex;
+}
+
+/**
+ * Проверяет формат телефонного номера и добавляет предупреждение, если
+ * значение не похоже на номер.
+ */
+function checkPhone(
+  collector: SheetCollector,
+  rowNumber: number,
+  field: string,
+  value: string
+) {
+  if (value && !isValidPhone(value)) {
+    collector.rowIssue({
+      row: rowNumber,
+      severity: "warning",
+      field,
+      column: collector.summary.columns[field],
+      value,
+      message: "Некорректный формат номера телефона.",
+    });
+  }
+}
+
+/**
+ * Разбирает приоритет или порядок сортировки. Нецелое значение заменяется
+ * значением по умолчанию с предупреждением.
+ */
+function parseSortNumber(
+  collector: SheetCollector,
+  rowNumber: number,
+  field: string,
+  value: string,
+  label: string
+): number {
+  if (!value) return DEFAULT_SORT_PRIORITY;
+  const parsed = Number(value.replace(",", "."));
+  if (Number.isInteger(parsed)) return parsed;
+  collector.rowIssue({
+    row: rowNumber,
+    severity: "warning",
+    field,
+    column: collector.summary.columns[field],
+    value,
+    message: `${label} не является целым числом, используется ${DEFAULT_SORT_PRIORITY}.`,
+  });
+  return DEFAULT_SORT_PRIORITY;
+}
+
+function parseOfficeRow(
+  values: Record<string, string>,
+  rowNumber: number,
+  collector: SheetCollector
+): OfficeEmployee | null {
+  collector.startRow();
+  const columns = collector.summary.columns;
+
+  if (!values.fullName) {
+    collector.rowIssue({
+      row: rowNumber,
+      severity: "error",
+      field: "fullName",
+      column: columns.fullName,
+      message: "Не указано ФИО, строка пропущена.",
+    });
+  }
+  if (!values.department) {
+    collector.rowIssue({
+      row: rowNumber,
+      severity: "warning",
+      field: "department",
+      column: columns.department,
+      message: "Не указан отдел.",
+    });
+  }
+
+  const sortPriority = parseSortNumber(
+    collector,
+    rowNumber,
+    "sortPriority",
+    values.sortPriority,
+    "Приоритет"
+  );
+
+  checkPhone(collector, rowNumber, "internalNumber", values.internalNumber);
+  checkPhone(collector, rowNumber, "generalNumber", values.generalNumber);
+
+  if (!collector.finishRow(rowNumber)) return null;
+  return {
+    id: values.id,
+    department: values.department,
+    sortPriority,
+    position: values.position,
+    fullName: values.fullName,
+    fullNameEn: values.fullNameEn,
+    positionEn: values.positionEn,
+    internalNumber: values.internalNumber,
+    generalNumber: values.generalNumber,
+    phones: {
+      internalNumber: parsePhoneNumbers(values.internalNumber),
+      generalNumber: parsePhoneNumbers(values.generalNumber),
+    },
+    manager: values.manager,
+    parentDepartment: values.parentDepartment,
+    absence: null,
+  };
+}
+
+function parseCabinetRow(
+  values: Record<string, string>,
+  rowNumber: number,
+  collector: SheetCollector
+): Cabinet | null {
+  collector.startRow();
+  const columns = collector.summary.columns;
+
+  if (!values.address) {
+    collector.rowIssue({
+      row: rowNumber,
+      severity: "error",
+      field: "address",
+      column: columns.address,
+      message: "Не указан адрес, строка пропущена.",
+    });
+  }
+  if (!values.city) {
+    collector.rowIssue({
+      row: rowNumber,
+      severity: "warning",
+      field: "city",
+      column: columns.city,
+      message: "Не указан город.",
+    });
+  }
+  if (!values.internalNumber) {
+    collector.rowIssue({
+      row: rowNumber,
+      severity: "warning",
+      field: "internalNumber",
+      column: columns.internalNumber,
+      message: "Не указан внутренний номер.",
+    });
+  }
+  checkPhone(collector, rowNumber, "internalNumber", values.internalNumber);
+
+  if (!collector.finishRow(rowNumber)) return null;
+  return {
+    id: values.id,
+    city: values.city,
+    address: values.address,
+    internalNumber: values.internalNumber,
+    phones: { internalNumber: parsePhoneNumbers(values.internalNumber) },
+  };
+}
+
+/**
+ * Разбирает строку листа «Отделы». Повторное описание того же отдела
+ * отклоняется, чтобы у отдела был один общий номер.
+ * @param seenNames - Уже принятые отделы: нормализованное название -> номер строки.
+ */
+function parseDepartmentRow(
+  values: Record<string, string>,
+  rowNumber: number,
+  collector: SheetCollector,
+  seenNames: Map<string, number>
+): Department | null {
+  collector.startRow();
+  const columns = collector.summary.columns;
+  const nameKey = normalizeHeader(values.name);
+
+  if (!values.name) {
+    collector.rowIssue({
+      row: rowNumber,
+      severity: "error",
+      field: "name",
+      column: columns.name,
+      message: "Не указано название отдела, строка пропущена.",
+    });
+  } else if (seenNames.has(nameKey)) {
+    collector.rowIssue({
+      row: rowNumber,
+      severity: "error",
+      field: "name",
+      column: columns.name,
+      value: values.name,
+      message: `Отдел уже описан в строке ${seenNames.get(
+        nameKey
+      )}, строка пропущена.`,
+    });
+  }
+  const sortOrder = parseSortNumber(
+    collector,
+    rowNumber,
+    "sortOrder",
+    values.sortOrder,
+    "Порядок"
+  );
+  checkPhone(collector, rowNumber, "generalNumber", values.generalNumber);
+  if (values.email && !isValidEmail(values.email)) {
+    collector.rowIssue({
+      row: rowNumber,
+      severity: "warning",
+      field: "email",
+      column: columns.email,
+      value: values.email,
+      message: "Некорректный адрес электронной почты.",
+    });
+  }
+
+  if (!collector.finishRow(rowNumber)) return null;
+  seenNames.set(nameKey, rowNumber);
+  return {
+    id: values.id,
+    name: values.name,
+    generalNumber: values.generalNumber,
+    phones: { generalNumber: parsePhoneNumbers(values.generalNumber) },
+    location: values.location,
+    email: values.email,
+    head: values.head,
+    sortOrder,
+  };
+}
+
+/**
+ * Разбирает строку листа «Отсутствия». Строка без сотрудника, с неизвестным
+ * видом или некорректными датами отклоняется.
+ */
+function parseAbsenceRow(
+  values: Record<string, string>,
+  rowNumber: number,
+  collector: SheetCollector
+): Absence | null {
+  collector.startRow();
+  const columns = collector.summary.columns;
+
+  if (!values.employee) {
+    collector.rowIssue({
+      row: rowNumber,
+      severity: "error",
+      field: "employee",
+      column: columns.employee,
+      message: "Не указан сотрудник, строка пропущена.",
+    });
+  }
+  const type = parseAbsenceType(values.type);
+  if (!type) {
+    collector.rowIssue({
+      row: rowNumber,
+      severity: "error",
+      field: "type",
+      column: columns.type,
+      value: values.type,
+      message: `Неизвестный вид отсутствия, ожидается одно из: ${ABSENCE_TYPE_HINT}.`,
+    });
+  }
+  const [from, to] = (["from", "to"] as const).map((field) => {
+    const date = parseAbsenceDate(values[field]);
+    if (!date) {
+      collector.rowIssue({
+        row: rowNumber,
+        severity: "error",
+        field,
+        column: columns[field],
+        value: values[field],
+        message: "Некорректная дата, ожидается ДД.ММ.ГГГГ.",
+      });
+    }
+    return date;
+  });
+  if (from && to && to < from) {
+    collector.rowIssue({
+      row: rowNumber,
+      severity: "error",
+      field: "to",
+      column: columns.to,
+      value: values.to,
+      message: "Дата окончания раньше даты начала.",
+    });
+  }
+
+  if (!collector.finishRow(rowNumber)) return null;
+  return {
+    employee: values.employee,
+    type: type!,
+    from: from!,
+    to: to!,
+    substitute: values.substitute,
+  };
+}
+
+/**
+ * Проверяет, что сотрудники и замещающие с листа «Отсутствия» однозначно
+ * находятся на листе «Офис». Ненайденные не отклоняют строку: книгу
+ * могут обновлять по частям.
+ */
+function checkAbsenceReferences(
+  rows: { record: Absence; rowNumber: number }[],
+  office: OfficeEmployee[],
+  collector: SheetCollector
+) {
+  const lookup = createEmployeeLookup(office);
+  rows.forEach(({ record, rowNumber }) => {
+    (["employee", "substitute"] as const).forEach((field) => {
+      const reference = record[field];
+      if (!reference) return;
+      const found = lookup(reference).length;
+      if (found === 1) return;
+      collector.rowIssue({
+        row: rowNumber,
+        severity: "warning",
+        field,
+        column: collector.summary.columns[field],
+        value: reference,
+        message:
+          found === 0
+            ? `Сотрудник не найден на листе "${SHEET_NAMES.office}".`
+            : "Несколько сотрудников с таким ФИО, укажите ID.",
+      });
+    });
+  });
+}
+
+/**
+ * Назначает записям листа идентификаторы. Значения из колонки ID
+ * используются как есть, если они корректны и уникальны; остальным
+ * записям идентификатор строится функцией generate.
+ * @param rows - Принятые строки листа с номерами строк.
+ * @param collector - Сборщик отчёта, в который попадут предупреждения.
+ * @param generate - Построение идентификаторов записей без ID по их
+ * содержимому; возвращает идентификаторы в порядке записей.
+ * @param fallbackHint - Пояснение для предупреждения, по чему будет построен идентификатор.
+ */
+function assignRecordIds<T extends { id: string }>(
+  rows: { record: T; rowNumber: number }[],
+  collector: SheetCollector,
+  generate: (records: T[], taken: Set<string>) => string[],
+  fallbackHint: string
+) {
+  const taken = new Set<string>();
+  const withoutId: T[] = [];
+
+  rows.forEach(({ record, rowNumber }) => {
+    const explicitId = record.id;
+    if (!explicitId) {
+      withoutId.push(record);
+      return;
+    }
+    let problem: string | null = null;
+    if (!isValidExplicitId(explicitId)) {
+      problem = "ID содержит недопустимые символы";
+    } else if (taken.has(explicitId)) {
+      problem = "ID уже используется другой записью";
+    }
+    if (problem) {
+      collector.rowIssue({
+        row: rowNumber,
+        severity: "warning",
+        field: "id",
+        column: collector.summary.columns.id,
+        value: explicitId,
+        message: `${problem}, идентификатор будет построен ${fallbackHint}.`,
+      });
+      withoutId.push(record);
+      return;
+    }
+    taken.add(explicitId);
+  });
+
+  const ids = generate(withoutId, taken);
+  withoutId.forEach((record, index) => {
+    record.id = ids[index];
+  });
+}
+
+/**
+ * Разбирает колонку «Видимость» принятых строк листа. Значение — роль
+ * для всей строки («сотрудники») и/или роли для отдельных полей
+ * («Общий номер: HR»), через «;». Нераспознанная роль скрывает строку
+ * или поле от всех, кроме администраторов.
+ * @param rows - Принятые строки с уже назначенными идентификаторами.
+ * @param fieldAliases - Синонимы заголовков листа: поле указывается заголовком колонки.
+ * @returns Ограничения по ID записи.
+ */
+function collectRowVisibility(
+  rows: { record: { id: string }; rowNumber: number; visibility: string }[],
+  fieldAliases: Record<string, string[]>,
+  collector: SheetCollector
+): Record<string, RecordVisibility> {
+  const lookup = headerLookup(fieldAliases);
+  const result: Record<string, RecordVisibility> = {};
+  const warn = (rowNumber: number, value: string, message: string) =>
+    collector.rowIssue({
+      row: rowNumber,
+      severity: "warning",
+      field: "visibility",
+      column: collector.summary.columns.visibility,
+      value,
+      message,
+    });
+
+  rows.forEach(({ record, rowNumber, visibility }) => {
+    if (!visibility) return;
+    const rule: RecordVisibility = { row: "anonymous", fields: {} };
+    visibility
+      .split(/[;\n]/)
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .forEach((part) => {
+        const separator = part.lastIndexOf(":");
+        const header = separator === -1 ? "" : part.slice(0, separator);
+        const value = separator === -1 ? part : part.slice(separator + 1);
+        const field = header ? lookup.get(normalizeHeader(header)) : null;
+        if (header && (!field || field === "visibility")) {
+          warn(
+            rowNumber,
+            part,
+            `Неизвестная колонка "${header}", значение пропущено.`
+          );
+          return;
+        }
+        let role = parseRole(value);
+        if (!role) {
+          warn(
+            rowNumber,
+            part,
+            `Неизвестная видимость "${value.trim()}", ${
+              field ? "поле" : "строка"
+            } будет видна только администраторам. Допустимые значения: ${ROLE_HINT}.`
+          );
+          role = UNKNOWN_VISIBILITY_ROLE;
+        }
+        if (field) rule.fields[field] = role;
+        else rule.row = role;
+      });
+    if (rule.row !== "anonymous" || Object.keys(rule.fields).length > 0) {
+      result[record.id] = rule;
+    }
+  });
+  return result;
+}
+
+/**
+ * Формирует итоговый отчёт по результатам разбора листов.
+ */
+function buildReport(
+  source: string,
+  sourceTimestamp: number | null,
+  collectors: SheetCollector[]
+): ImportReport {
+  const issues = collectors.flatMap((c) => c.issues);
+  const hasErrors = issues.some((issue) => issue.severity === "error");
+  return {
+    source,
+    generatedAt: Date.now(),
+    sourceTimestamp,
+    status: hasErrors ? "errors" : issues.length > 0 ? "warnings" : "ok",
+    sheets: collectors.map((c) => c.getSummary()),
+    issues,
+  };
+}
+
+/**
+ * Формирует отчёт для случая, когда файл не удалось прочитать целиком.
+ * @param source - Путь к источнику данных.
+ * @param message - Описание ошибки.
+ */
+export function buildFailedReport(
+  source: string,
+  message: string
+): ImportReport {
+  return {
+    source,
+    generatedAt: Date.now(),
+    sourceTimestamp: null,
+    status: "failed",
+    sheets: [],
+    issues: [{ sheet: "", row: null, severity: "error", message }],
+  };
+}
+
+/**
+ * Разбирает таблицы источника данных в записи справочника.
+ * Колонки определяются по заголовкам, каждая строка проверяется,
+ * а все замечания собираются в отчёт об импорте.
+ * @param tables - Таблицы «Офис», «Кабинеты», «Отделы» и «Отсутствия»
+ *   из источника.
+ * @param aliases - Синонимы заголовков колонок.
+ * @param source - Описание источника для отчёта.
+ * @param sourceTimestamp - Версия (время изменения) источника.
+ * @returns Принятые записи и отчёт об импорте.
+ */
+export function importTables(
+  tables: RawTables,
+  aliases: ColumnAliases,
+  source: string,
+  sourceTimestamp: number
+): ImportResult {
+  // Значение колонки «Видимость» разбирается после назначения ID
+  type RecordRow<T> = { record: T; rowNumber: number; visibility: string };
+  const officeRows: RecordRow<OfficeEmployee>[] = [];
+  const cabinetRows: RecordRow<Cabinet>[] = [];
+  const departmentRows: RecordRow<Department>[] = [];
+  const absenceRows: { record: Absence; rowNumber: number }[] = [];
+
+  const officeCollector = new SheetCollector(SHEET_NAMES.office);
+  const officeColumns = readSheet(
+    tables.office,
+    "office",
+    aliases,
+    officeCollector,
+    (values, rowNumber) => {
+      const employee = parseOfficeRow(values, rowNumber, officeCollector);
+      if (employee) {
+        officeRows.push({
+          record: employee,
+          rowNumber,
+          visibility: values.visibility,
+        });
+      }
+    }
+  );
+  assignRecordIds(
+    officeRows,
+    officeCollector,
+    generateEmployeeIds,
+    "по ФИО и отделу"
+  );
+
+  const cabinetsCollector = new SheetCollector(SHEET_NAMES.cabinets);
+  const cabinetColumns = readSheet(
+    tables.cabinets,
+    "cabinets",
+    aliases,
+    cabinetsCollector,
+    (values, rowNumber) => {
+      const cabinet = parseCabinetRow(values, rowNumber, cabinetsCollector);
+      if (cabinet) {
+        cabinetRows.push({
+          record: cabinet,
+          rowNumber,
+          visibility: values.visibility,
+        });
+      }
+    }
+  );
+  assignRecordIds(
+    cabinetRows,
+    cabinetsCollector,
+    (cabinets, taken) =>
+      cabinets.map((c) => generateCabinetId(c.city, c.address, taken)),
+    "по городу и адресу"
+  );
+
+  const departmentsCollector = new SheetCollector(SHEET_NAMES.departments);
+  const departmentNames = new Map<string, number>();
+  const departmentColumns = readSheet(
+    tables.departments,
+    "departments",
+    aliases,
+    departmentsCollector,
+    (values, rowNumber) => {
+      const department = parseDepartmentRow(
+        values,
+        rowNumber,
+        departmentsCollector,
+        departmentNames
+      );
+      if (department) {
+        departmentRows.push({
+          record: department,
+          rowNumber,
+          visibility: values.visibility,
+        });
+      }
+    }
+  );
+  assignRecordIds(
+    departmentRows,
+    departmentsCollector,
+    (departments, taken) =>
+      departments.map((d) => generateDepartmentId(d.name, taken)),
+    "по названию"
+  );
+
+  const absencesCollector = new SheetCollector(SHEET_NAMES.absences);
+  readSheet(
+    tables.absences,
+    "absences",
+    aliases,
+    absencesCollector,
+    (values, rowNumber) => {
+      const absence = parseAbsenceRow(values, rowNumber, absencesCollector);
+      if (absence) absenceRows.push({ record: absence, rowNumber });
+    }
+  );
+  checkAbsenceReferences(
+    absenceRows,
+    officeRows.map((row) => row.record),
+    absencesCollector
+  );
+
+  const visibility = emptyVisibilityRules();
+  visibility.columns = {
+    office: officeCollector.columnVisibility,
+    cabinets: cabinetsCollector.columnVisibility,
+    departments: departmentsCollector.columnVisibility,
+  };
+  visibility.rows = {
+    office: collectRowVisibility(officeRows, aliases.office, officeCollector),
+    cabinets: collectRowVisibility(
+      cabinetRows,
+      aliases.cabinets,
+      cabinetsCollector
+    ),
+    departments: collectRowVisibility(
+      departmentRows,
+      aliases.departments,
+      departmentsCollector
+    ),
+  };
+
+  const locate = (
+    columns: Record<string, number> | null,
+    rows: { record: { id: string }; rowNumber: number }[]
+  ): SheetLocation => ({
+    columns: columns || {},
+    rows: Object.fromEntries(rows.map((r) => [r.record.id, r.rowNumber])),
+  });
+
+  return {
+    office: officeRows.map((row) => row.record),
+    cabinets: cabinetRows.map((row) => row.record),
+    departments: departmentRows.map((row) => row.record),
+    absences: absenceRows.map((row) => row.record),
+    visibility,
+    report: buildReport(source, sourceTimestamp, [
+      officeCollector,
+      cabinetsCollector,
+      departmentsCollector,
+      absencesCollector,
+    ]),
+    locations: {
+      office: locate(officeColumns, officeRows),
+      cabinets: locate(cabinetColumns, cabinetRows),
+      departments: locate(departmentColumns, departmentRows),
+    },
+  };
+}
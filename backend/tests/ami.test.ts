@@ -0,0 +1,192 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import net from "net";
+import {
+  AmiConfig,
+  AmiError,
+  AmiMessage,
+  createAmiDialer,
+  formatAmiMessage,
+  parseAmiMessage,
+} from "../ami";
+import { createFakeAmiServer } from "../scripts/fakeAmi";
+
+const CREDENTIALS = { username: "handbook", secret: "s3cret" };
+
+describe("formatAmiMessage", () => {
+  it("завершает сообщение пустой строкой", () => {
+    assert.equal(
+      formatAmiMessage({ Action: "Ping", ActionID: "1" }),
+      "Action: Ping\r\nActionID: 1\r\n\r\n"
+    );
+  });
+
+  it("убирает переводы строк из значений", () => {
+    const message = formatAmiMessage({
+      Action: "Originate",
+      Exten: "101\r\n\r\nAction: Hangup\nChannel: PJSIP/102\r",
+    });
+
+    assert.equal(
+      message,
+      "Action: Originate\r\nExten: 101Action: HangupChannel: PJSIP/102\r\n\r\n"
+    );
+    assert.equal(message.indexOf("\r\n\r\n"), message.length - 4);
+  });
+
+  it("разбирается обратно parseAmiMessage", () => {
+    const block = formatAmiMessage({ Response: "Success", Message: "a: b" });
+
+    assert.deepEqual(parseAmiMessage(block), {
+      response: "Success",
+      message: "a: b",
+    });
+  });
+});
+
+describe("учебный AMI-сервер", () => {
+  const originated: AmiMessage[] = [];
+  const server = createFakeAmiServer(CREDENTIALS, (action) =>
+    originated.push(action)
+  );
+  let config: AmiConfig;
+
+  before(async () => {
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as net.AddressInfo;
+    config = {
+      host: "127.0.0.1",
+      port,
+      ...CREDENTIALS,
+      channel: "PJSIP/{extension}",
+      context: "from-internal",
+      timeoutMs: 2000,
+    };
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    originated.length = 0;
+  });
+
+  /**
+   * Отправляет серверу действия по одному и собирает ответы; соединение
+   * закрывается после последнего ответа или по инициативе сервера.
+   */
+  function exchange(actions: AmiMessage[]): Promise<AmiMessage[]> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect(config.port, config.host);
+      const replies: AmiMessage[] = [];
+      let buffer = "";
+      let bannerReceived = false;
+      const next = () => {
+        if (replies.length === actions.length) {
+          socket.end();
+        } else {
+          socket.write(formatAmiMessage(actions[replies.length]));
+        }
+      };
+      socket.setEncoding("utf-8");
+      socket.on("data", (chunk: string) => {
+        buffer += chunk;
+        if (!bannerReceived) {
+          const lineEnd = buffer.indexOf("\r\n");
+          if (lineEnd === -1) return;
+          buffer = buffer.slice(lineEnd + 2);
+          bannerReceived = true;
+          next();
+        }
+        let separator = buffer.indexOf("\r\n\r\n");
+        while (separator !== -1) {
+          replies.push(parseAmiMessage(buffer.slice(0, separator)));
+          buffer = buffer.slice(separator + 4);
+          next();
+          separator = buffer.indexOf("\r\n\r\n");
+        }
+      });
+      socket.on("error", reject);
+      socket.on("close", () => resolve(replies));
+    });
+  }
+
+  it("принимает вход с верной учётной записью", async () => {
+    const replies = await exchange([
+      {
+        Action: "Login",
+        ActionID: "1",
+        Username: CREDENTIALS.username,
+        Secret: CREDENTIALS.secret,
+      },
+      { Action: "Ping", ActionID: "2" },
+    ]);
+
+    assert.deepEqual(
+      replies.map((r) => [r.response, r.actionid]),
+      [
+        ["Success", "1"],
+        ["Success", "2"],
+      ]
+    );
+  });
+
+  it("отклоняет неверный пароль и закрывает соединение", async () => {
+    const replies = await exchange([
+      {
+        Action: "Login",
+        ActionID: "1",
+        Username: CREDENTIALS.username,
+        Secret: "wrong",
+      },
+      { Action: "Ping", ActionID: "2" },
+    ]);
+
+    assert.equal(replies.length, 1);
+    assert.equal(replies[0].response, "Error");
+    assert.equal(replies[0].message, "Authentication failed");
+  });
+
+  it("не выполняет действия без входа", async () => {
+    const replies = await exchange([
+      { Action: "Originate", ActionID: "1", Exten: "101" },
+    ]);
+
+    assert.equal(replies[0].response, "Error");
+    assert.equal(replies[0].message, "Permission denied");
+    assert.deepEqual(originated, []);
+  });
+
+  it("соединяет номера через createAmiDialer", async () => {
+    await createAmiDialer(config).originate("101", "74951234567");
+
+    assert.equal(originated.length, 1);
+    assert.equal(originated[0].channel, "PJSIP/101");
+    assert.equal(originated[0].exten, "74951234567");
+    assert.equal(originated[0].context, "from-internal");
+    assert.equal(originated[0].async, "true");
+  });
+
+  it("сообщает об отказе во входе ошибкой AmiError", async () => {
+    const dialer = createAmiDialer({ ...config, secret: "wrong" });
+
+    await assert.rejects(dialer.originate("101", "102"), (error) => {
+      assert.ok(error instanceof AmiError);
+      assert.equal(error.message, "Authentication failed");
+      return true;
+    });
+    assert.deepEqual(originated, []);
+  });
+
+  it("не даёт подставить второе действие через номер", async () => {
+    await createAmiDialer(config).originate(
+      "101",
+      "102\r\n\r\nAction: Originate\r\nChannel: PJSIP/999"
+    );
+
+    assert.equal(originated.length, 1);
+    assert.equal(originated[0].channel, "PJSIP/101");
+    assert.equal(originated[0].exten, "102Action: OriginateChannel: PJSIP/999");
+  });
+});
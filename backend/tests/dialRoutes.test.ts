@@ -0,0 +1,114 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import net from "net";
+import { Server } from "http";
+import { createDialRouter } from "../dialRoutes";
+import { SESSION_COOKIE, createSession } from "../adminSessions";
+import { cabinet, department, employee, handbook } from "./fixtures";
+
+const data = handbook({
+  timestamp: 1,
+  office: [
+    employee({ id: "a", internalNumber: "101, 102", generalNumber: "" }),
+    employee({
+      id: "b",
+      fullName: "Петров Пётр",
+      internalNumber: "201; 202",
+      generalNumber: "+7 (495) 123-45-67, +7 (495) 765-43-21",
+    }),
+  ],
+  cabinets: [cabinet({ id: "c", internalNumber: "301, 302" })],
+  departments: [
+    department({
+      id: "d",
+      generalNumber: "+7 (495) 111-22-33, 8 495 111-22-44",
+    }),
+  ],
+});
+
+describe("POST /api/dial", () => {
+  const calls: [string, string][] = [];
+  const app = express();
+  app.use(
+    "/api/dial",
+    createDialRouter({
+      dialer: {
+        originate: async (from, to) => {
+          calls.push([from, to]);
+        },
+      },
+      loadData: async () => data,
+    })
+  );
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    calls.length = 0;
+  });
+
+  /** Звонок от имени пользователя с внутренним номером internalNumber. */
+  async function dial(internalNumber: string | null, to: string) {
+    const session = createSession("alice", "employee", 60_000, internalNumber);
+    const response = await fetch(`${baseUrl}/api/dial`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Cookie: `${SESSION_COOKIE}=${session.id}`,
+        "X-CSRF-Token": session.csrfToken,
+      },
+      body: JSON.stringify({ to }),
+    });
+    const body = (await response.json()) as { message?: string };
+    return { status: response.status, body };
+  }
+
+  it("звонит на любой номер из ячейки с несколькими номерами", async () => {
+    for (const to of ["202", "+7 (495) 765-43-21", "302", "8 495 111-22-44"]) {
+      const { status } = await dial("102", to);
+      assert.equal(status, 200, to);
+    }
+    assert.deepEqual(calls, [
+      ["102", "202"],
+      ["102", "74957654321"],
+      ["102", "302"],
+      ["102", "84951112244"],
+    ]);
+  });
+
+  it("принимает любой внутренний номер сотрудника как свой", async () => {
+    assert.equal((await dial("101", "201")).status, 200);
+    assert.equal((await dial("201", "101")).status, 200);
+  });
+
+  it("не склеивает номера ячейки в один", async () => {
+    const { status, body } = await dial("101", "201202");
+
+    assert.equal(status, 400);
+    assert.equal(body.message, 'Номер "201202" не найден в справочнике.');
+    assert.equal((await dial("101102", "201")).status, 400);
+    assert.deepEqual(calls, []);
+  });
+
+  it("требует вход и внутренний номер в учётной записи", async () => {
+    const anonymous = await fetch(`${baseUrl}/api/dial`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ to: "201" }),
+    });
+
+    assert.equal(anonymous.status, 401);
+    assert.equal((await dial(null, "201")).status, 403);
+    assert.deepEqual(calls, []);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  EmployeeIdSource,
+  generateCabinetId,
+  generateDepartmentId,
+  generateEmployeeIds,
+  isValidExplicitId,
+} from "../employeeIds";
+
+const ivanov: EmployeeIdSource = {
+  fullName: "Иванов Иван",
+  department: "Бухгалтерия",
+};
+
+describe("generateEmployeeIds", () => {
+  it("строит один и тот же ID при каждом импорте", () => {
+    const [first] = generateEmployeeIds([ivanov], new Set());
+    const [second] = generateEmployeeIds([ivanov], new Set());
+
+    assert.match(first, /^[0-9a-f]{10}$/);
+    assert.equal(first, second);
+  });
+
+  it("не зависит от регистра, пробелов и «ё» в ФИО", () => {
+    const [id] = generateEmployeeIds([ivanov], new Set());
+    const [same] = generateEmployeeIds(
+      [{ ...ivanov, fullName: "  ИВАНОВ   иван " }],
+      new Set()
+    );
+
+    assert.equal(same, id);
+  });
+
+  it("не меняет ID, когда в книге появляется однофамилец", () => {
+    const [id] = generateEmployeeIds([ivanov], new Set());
+    const ids = generateEmployeeIds(
+      [{ ...ivanov, department: "Склад" }, ivanov],
+      new Set()
+    );
+
+    assert.equal(ids[1], id);
+    assert.notEqual(ids[0], id);
+    assert.ok(ids.every((value) => /^[0-9a-f]{10}$/.test(value)));
+  });
+
+  it("различает полных тёзок в одном отделе суффиксом", () => {
+    const ids = generateEmployeeIds([ivanov, ivanov], new Set());
+
+    assert.equal(ids[1], `${ids[0]}-2`);
+  });
+
+  it("добавляет суффикс к занятому ID", () => {
+    const [id] = generateEmployeeIds([ivanov], new Set());
+    const taken = new Set([id]);
+
+    const [next] = generateEmployeeIds([ivanov], taken);
+
+    assert.equal(next, `${id}-2`);
+    assert.ok(taken.has(next));
+  });
+});
+
+describe("generateCabinetId и generateDepartmentId", () => {
+  it("строят ID по адресу и названию без учёта регистра", () => {
+    assert.equal(
+      generateCabinetId("Москва", "ул. Ленина, 1", new Set()),
+      generateCabinetId("москва", "УЛ. ЛЕНИНА, 1", new Set())
+    );
+    assert.equal(
+      generateDepartmentId("Бухгалтерия", new Set()),
+      generateDepartmentId(" бухгалтерия ", new Set())
+    );
+  });
+});
+
+describe("isValidExplicitId", () => {
+  it("допускает только безопасные для URL символы", () => {
+    assert.equal(isValidExplicitId("emp-001_A"), true);
+    assert.equal(isValidExplicitId(""), false);
+    assert.equal(isValidExplicitId("a/b"), false);
+    assert.equal(isValidExplicitId("x".repeat(65)), false);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { officeToCsv, toCsv } from "../exportFormats";
+import { employee } from "./fixtures";
+
+const lines = (csv: string) => csv.replace(/^\uFEFF/, "").split("\r\n");
+
+describe("toCsv", () => {
+  it("разделяет значения «;» и начинается с BOM", () => {
+    const csv = toCsv(["A", "B"], [["1", "2"]]);
+
+    assert.equal(csv, "\uFEFFA;B\r\n1;2\r\n");
+  });
+
+  it("берёт в кавычки значения с разделителем, кавычками и переводом строки", () => {
+    const csv = toCsv(["A"], [['ООО "Ромашка"; филиал\nМосква']]);
+
+    assert.equal(csv, '\uFEFFA\r\n"ООО ""Ромашка""; филиал\nМосква"\r\n');
+  });
+
+  it("не даёт Excel принять значение за формулу", () => {
+    const formulas = [
+      "=1+1",
+      "+7 (495) 123-45-67",
+      "-5",
+      "@SUM(A1)",
+      '=HYPERLINK("x")',
+    ];
+
+    const [, row] = lines(toCsv(["A"], [formulas]));
+
+    assert.equal(
+      row,
+      [
+        `"'=1+1"`,
+        `"'+7 (495) 123-45-67"`,
+        `"'-5"`,
+        `"'@SUM(A1)"`,
+        `"'=HYPERLINK(""x"")"`,
+      ].join(";")
+    );
+  });
+});
+
+describe("officeToCsv", () => {
+  it("выводит сотрудников с отделом и номерами", () => {
+    const csv = officeToCsv([employee({ id: "a", generalNumber: "" })]);
+
+    assert.deepEqual(lines(csv).slice(0, 2), [
+      "Отдел;ФИО;Должность;Внутренний номер;Общий номер",
+      "Бухгалтерия;Иванов Иван Иванович;Бухгалтер;101;",
+    ]);
+  });
+});
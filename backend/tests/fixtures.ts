@@ -0,0 +1,71 @@
+import { parsePhoneNumbers } from "../phoneNumbers";
+import { Cabinet, Department, HandbookData, OfficeEmployee } from "../types";
+
+/** Сотрудник с заполненными по умолчанию полями. */
+export function employee(fields: Partial<OfficeEmployee>): OfficeEmployee {
+  const result: OfficeEmployee = {
+    id: "e1",
+    department: "Бухгалтерия",
+    sortPriority: 99,
+    position: "Бухгалтер",
+    fullName: "Иванов Иван Иванович",
+    fullNameEn: "",
+    positionEn: "",
+    internalNumber: "101",
+    generalNumber: "+7 (495) 123-45-67",
+    phones: { internalNumber: [], generalNumber: [] },
+    manager: "",
+    parentDepartment: "",
+    absence: null,
+    ...fields,
+  };
+  return {
+    ...result,
+    phones: {
+      internalNumber: parsePhoneNumbers(result.internalNumber),
+      generalNumber: parsePhoneNumbers(result.generalNumber),
+    },
+  };
+}
+
+/** Кабинет с заполненными по умолчанию полями. */
+export function cabinet(fields: Partial<Cabinet>): Cabinet {
+  const result: Cabinet = {
+    id: "c1",
+    city: "Москва",
+    address: "ул. Ленина, 1",
+    internalNumber: "200",
+    phones: { internalNumber: [] },
+    ...fields,
+  };
+  return {
+    ...result,
+    phones: { internalNumber: parsePhoneNumbers(result.internalNumber) },
+  };
+}
+
+/** Описание отдела с заполненными по умолчанию полями. */
+export function department(fields: Partial<Department>): Department {
+  const result: Department = {
+    id: "d1",
+    name: "Бухгалтерия",
+    generalNumber: "",
+    phones: { generalNumber: [] },
+    location: "",
+    email: "",
+    head: "",
+    sortOrder: 99,
+    ...fields,
+  };
+  return {
+    ...result,
+    phones: { generalNumber: parsePhoneNumbers(result.generalNumber) },
+  };
+}
+
+/** Версия справочника из отдельных наборов. */
+export function handbook(
+  fields: Partial<HandbookData> & { timestamp: number }
+): HandbookData {
+  return { office: [], cabinets: [], departments: [], ...fields };
+}
@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { diffHandbook, diffRecords, employeeIdentity } from "../handbookDiff";
+import { cabinet, department, employee, handbook } from "./fixtures";
+
+describe("diffRecords", () => {
+  it("не находит изменений в одинаковых наборах", () => {
+    const office = [employee({ id: "a" }), employee({ id: "b" })];
+
+    const delta = diffRecords(office, [...office].reverse(), employeeIdentity);
+
+    assert.deepEqual(delta, { added: [], removed: [], changed: [] });
+  });
+
+  it("находит добавленные, удалённые и изменённые записи", () => {
+    const kept = employee({ id: "a" });
+    const removed = employee({ id: "b", fullName: "Петров Пётр" });
+    const before = employee({ id: "c", internalNumber: "103" });
+    const after = employee({ id: "c", internalNumber: "113" });
+    const added = employee({ id: "d", fullName: "Сидоров Сидор" });
+
+    const delta = diffRecords(
+      [kept, removed, before],
+      [after, kept, added],
+      employeeIdentity
+    );
+
+    assert.deepEqual(delta.added, [added]);
+    assert.deepEqual(delta.removed, [removed]);
+    assert.deepEqual(delta.changed, [{ before, after }]);
+  });
+
+  it("сопоставляет повторяющиеся записи по одной", () => {
+    const same = employee({ id: "a" });
+
+    const delta = diffRecords([same], [same, same], employeeIdentity);
+
+    assert.deepEqual(delta.added, [same]);
+    assert.deepEqual(delta.removed, []);
+  });
+});
+
+describe("diffHandbook", () => {
+  it("строит дельту по всем наборам между версиями", () => {
+    const previous = handbook({
+      timestamp: 1,
+      office: [employee({ id: "a" })],
+      cabinets: [cabinet({ id: "c1" })],
+      departments: [department({ id: "d1", location: "2 этаж" })],
+    });
+    const current = handbook({
+      timestamp: 2,
+      office: [employee({ id: "a" }), employee({ id: "b" })],
+      cabinets: [],
+      departments: [department({ id: "d1", location: "3 этаж" })],
+    });
+
+    const delta = diffHandbook(previous, current);
+
+    assert.equal(delta.from, 1);
+    assert.equal(delta.to, 2);
+    assert.deepEqual(
+      delta.office.added.map((e) => e.id),
+      ["b"]
+    );
+    assert.deepEqual(
+      delta.cabinets.removed.map((c) => c.id),
+      ["c1"]
+    );
+    assert.equal(delta.departments.changed.length, 1);
+    assert.equal(delta.departments.changed[0].after.location, "3 этаж");
+  });
+});
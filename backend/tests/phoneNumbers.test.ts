@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  formatPhoneNumbers,
+  parsePhoneNumbers,
+  phoneTelUri,
+} from "../phoneNumbers";
+
+describe("parsePhoneNumbers", () => {
+  it("приводит внешние номера к E.164", () => {
+    const phones = parsePhoneNumbers(
+      "+7 (495) 123-45-67, 8 495 765-43-21; 4951112233"
+    );
+
+    assert.deepEqual(
+      phones.map((p) => p.e164),
+      ["+74951234567", "+74957654321", "+74951112233"]
+    );
+    assert.deepEqual(
+      phones.map((p) => p.formatted),
+      ["+7 (495) 123-45-67", "+7 (495) 765-43-21", "+7 (495) 111-22-33"]
+    );
+  });
+
+  it("считает короткий номер внутренним", () => {
+    const [phone] = parsePhoneNumbers(" 101 ");
+
+    assert.deepEqual(phone, {
+      raw: "101",
+      e164: null,
+      extension: "101",
+      formatted: "101",
+    });
+  });
+
+  it("выделяет добавочный, в том числе записанный после запятой", () => {
+    const [inline] = parsePhoneNumbers("+7 495 123-45-67 доб. 200");
+    const separate = parsePhoneNumbers("+7 495 123-45-67, ext 300");
+
+    assert.equal(inline.e164, "+74951234567");
+    assert.equal(inline.extension, "200");
+    assert.equal(inline.formatted, "+7 (495) 123-45-67 доб. 200");
+    assert.equal(separate.length, 1);
+    assert.equal(separate[0].extension, "300");
+  });
+
+  it("сохраняет нераспознанный номер как есть", () => {
+    const [phone] = parsePhoneNumbers("1234567");
+
+    assert.equal(phone.e164, null);
+    assert.equal(phone.formatted, "1234567");
+  });
+
+  it("возвращает пустой список для пустой ячейки", () => {
+    assert.deepEqual(parsePhoneNumbers(""), []);
+    assert.deepEqual(parsePhoneNumbers(" , ; "), []);
+  });
+});
+
+describe("formatPhoneNumbers и phoneTelUri", () => {
+  it("форматируют номера для вывода и ссылок", () => {
+    const phones = parsePhoneNumbers("8 (495) 123-45-67 доб. 200, 101");
+
+    assert.equal(
+      formatPhoneNumbers(phones),
+      "+7 (495) 123-45-67 доб. 200, 101"
+    );
+    assert.deepEqual(phones.map(phoneTelUri), [
+      "tel:+74951234567;ext=200",
+      "tel:101",
+    ]);
+  });
+});
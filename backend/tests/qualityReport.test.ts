@@ -0,0 +1,56 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildQualityReport } from "../qualityReport";
+import { cabinet, employee, handbook } from "./fixtures";
+
+const duplicateNumbers = (fields: Parameters<typeof handbook>[0]) =>
+  buildQualityReport(handbook(fields)).issues.filter(
+    (issue) => issue.kind === "duplicate-number"
+  );
+
+describe("buildQualityReport: повторяющиеся номера", () => {
+  it("сравнивает каждый номер ячейки с несколькими номерами", () => {
+    const issues = duplicateNumbers({
+      timestamp: 1,
+      office: [
+        employee({ id: "a", internalNumber: "101, 102" }),
+        employee({ id: "b", fullName: "Петров Пётр", internalNumber: "102" }),
+      ],
+      cabinets: [cabinet({ id: "c", internalNumber: "103; 101" })],
+    });
+
+    assert.deepEqual(
+      issues.map((issue) => issue.records.map((r) => r.id)),
+      [
+        ["a", "c"],
+        ["a", "b"],
+      ]
+    );
+    assert.match(issues[1].message, /^Внутренний номер 102 /);
+  });
+
+  it("не считает повтором номер, дважды записанный в одной ячейке", () => {
+    const issues = duplicateNumbers({
+      timestamp: 1,
+      office: [employee({ id: "a", internalNumber: "101, 101" })],
+    });
+
+    assert.deepEqual(issues, []);
+  });
+
+  it("не склеивает номера ячейки в один", () => {
+    const issues = duplicateNumbers({
+      timestamp: 1,
+      office: [
+        employee({ id: "a", internalNumber: "101, 102" }),
+        employee({
+          id: "b",
+          fullName: "Петров Пётр",
+          internalNumber: "101102",
+        }),
+      ],
+    });
+
+    assert.deepEqual(issues, []);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_COLUMN_ALIASES,
+  DEFAULT_SORT_PRIORITY,
+  RawTable,
+  SHEET_NAMES,
+  importTables,
+} from "../tableImport";
+
+const SOURCE = "/data/book.xlsx";
+const TIMESTAMP = 1700000000000;
+
+/** Таблица из заголовков и строк; строки нумеруются как в книге, со второй. */
+function table(header: string[], rows: string[][]): RawTable {
+  return {
+    header,
+    rows: rows.map((cells, index) => ({ rowNumber: index + 2, cells })),
+  };
+}
+
+const cabinets = table(["Город", "Адрес"], [["Москва", "ул. Ленина, 1"]]);
+
+function importOffice(office: RawTable) {
+  return importTables(
+    { office, cabinets },
+    DEFAULT_COLUMN_ALIASES,
+    SOURCE,
+    TIMESTAMP
+  );
+}
+
+describe("importTables", () => {
+  it("находит колонки по синонимам заголовков без учёта регистра и пробелов", () => {
+    const result = importOffice(
+      table(
+        ["  сотрудник ", "ПОДРАЗДЕЛЕНИЕ", "Вн. номер", "Городской номер"],
+        [["Иванов Иван", "Бухгалтерия", "101", "+7 (495) 123-45-67"]]
+      )
+    );
+
+    const summary = result.report.sheets.find(
+      (s) => s.sheet === SHEET_NAMES.office
+    )!;
+    assert.deepEqual(summary.columns, {
+      fullName: "сотрудник",
+      department: "ПОДРАЗДЕЛЕНИЕ",
+      internalNumber: "Вн. номер",
+      generalNumber: "Городской номер",
+    });
+    assert.equal(result.office.length, 1);
+    assert.equal(result.office[0].fullName, "Иванов Иван");
+    assert.equal(result.office[0].department, "Бухгалтерия");
+    assert.equal(result.office[0].internalNumber, "101");
+    assert.equal(result.office[0].sortPriority, DEFAULT_SORT_PRIORITY);
+  });
+
+  it("перечисляет в отчёте нераспознанные колонки", () => {
+    const result = importOffice(
+      table(["ФИО", "Любимый цвет"], [["Иванов Иван", "синий"]])
+    );
+
+    const summary = result.report.sheets.find(
+      (s) => s.sheet === SHEET_NAMES.office
+    )!;
+    assert.deepEqual(summary.unmappedColumns, ["Любимый цвет"]);
+  });
+
+  it("учитывает пользовательские синонимы", () => {
+    const aliases = {
+      ...DEFAULT_COLUMN_ALIASES,
+      office: {
+        ...DEFAULT_COLUMN_ALIASES.office,
+        fullName: [...DEFAULT_COLUMN_ALIASES.office.fullName, "Работник"],
+      },
+    };
+    const result = importTables(
+      { office: table(["Работник"], [["Иванов Иван"]]), cabinets },
+      aliases,
+      SOURCE,
+      TIMESTAMP
+    );
+
+    assert.equal(result.office[0].fullName, "Иванов Иван");
+  });
+
+  it("отклоняет строки с ошибками и считает их в отчёте", () => {
+    const result = importOffice(
+      table(
+        ["ФИО", "Отдел", "Внутренний номер"],
+        [
+          ["Иванов Иван", "Бухгалтерия", "101"],
+          ["", "Бухгалтерия", "102"],
+          ["Петров Пётр", "", "абв"],
+        ]
+      )
+    );
+
+    assert.deepEqual(
+      result.office.map((e) => e.fullName),
+      ["Иванов Иван", "Петров Пётр"]
+    );
+    const summary = result.report.sheets.find(
+      (s) => s.sheet === SHEET_NAMES.office
+    )!;
+    assert.equal(summary.totalRows, 3);
+    assert.equal(summary.acceptedRows, 2);
+    assert.equal(summary.rejectedRows, 1);
+    assert.equal(summary.warnedRows, 1);
+    assert.equal(result.report.status, "errors");
+
+    const rejected = result.report.issues.find((i) => i.row === 3)!;
+    assert.equal(rejected.severity, "error");
+    assert.equal(rejected.field, "fullName");
+    const warnings = result.report.issues
+      .filter((i) => i.row === 4)
+      .map((i) => i.field);
+    assert.deepEqual(warnings.sort(), ["department", "internalNumber"]);
+  });
+
+  it("не импортирует лист без обязательной колонки", () => {
+    const result = importOffice(table(["Отдел"], [["Бухгалтерия"]]));
+
+    assert.equal(result.office.length, 0);
+    assert.equal(result.report.status, "errors");
+    assert.ok(
+      result.report.issues.some(
+        (i) =>
+          i.sheet === SHEET_NAMES.office &&
+          i.row === null &&
+          i.severity === "error"
+      )
+    );
+  });
+
+  it("считает ошибкой отсутствие обязательного листа, но не необязательного", () => {
+    const result = importTables(
+      { office: table(["ФИО"], [["Иванов Иван"]]) },
+      DEFAULT_COLUMN_ALIASES,
+      SOURCE,
+      TIMESTAMP
+    );
+
+    const sheetErrors = result.report.issues.filter(
+      (i) => i.row === null && i.severity === "error"
+    );
+    assert.deepEqual(
+      sheetErrors.map((i) => i.sheet),
+      [SHEET_NAMES.cabinets]
+    );
+  });
+
+  it("заполняет сведения об источнике в отчёте", () => {
+    const result = importOffice(
+      table(
+        ["ФИО", "Отдел", "Должность"],
+        [["Иванов Иван", "Бухгалтерия", "Бухгалтер"]]
+      )
+    );
+
+    assert.equal(result.report.source, SOURCE);
+    assert.equal(result.report.sourceTimestamp, TIMESTAMP);
+    assert.ok(["ok", "warnings"].includes(result.report.status));
+  });
+
+  it("берёт ID из колонки и генерирует недостающие", () => {
+    const result = importOffice(
+      table(
+        ["ID", "ФИО"],
+        [
+          ["emp-1", "Иванов Иван"],
+          ["", "Петров Пётр"],
+        ]
+      )
+    );
+
+    assert.equal(result.office[0].id, "emp-1");
+    assert.match(result.office[1].id, /^[0-9a-f]{10}$/);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  emptyVisibilityRules,
+  filterHandbook,
+  hideFields,
+  parseRole,
+  recordVisibility,
+  roleAllows,
+} from "../visibility";
+import { VisibilityRules } from "../types";
+import { cabinet, employee, handbook } from "./fixtures";
+
+describe("parseRole", () => {
+  it("распознаёт роли по-русски и по-английски", () => {
+    assert.equal(parseRole("Все"), "anonymous");
+    assert.equal(parseRole(" сотрудники "), "employee");
+    assert.equal(parseRole("Отдел  кадров"), "hr");
+    assert.equal(parseRole("admin"), "admin");
+    assert.equal(parseRole("начальство"), null);
+  });
+});
+
+describe("roleAllows", () => {
+  it("открывает старшим ролям всё, что видят младшие", () => {
+    assert.equal(roleAllows("admin", "hr"), true);
+    assert.equal(roleAllows("hr", "hr"), true);
+    assert.equal(roleAllows("employee", "hr"), false);
+    assert.equal(roleAllows("anonymous", "anonymous"), true);
+  });
+});
+
+describe("recordVisibility", () => {
+  it("выбирает более строгое из ограничений колонки и строки", () => {
+    const rules = emptyVisibilityRules();
+    rules.columns.office.generalNumber = "employee";
+    rules.rows.office.a = {
+      row: "anonymous",
+      fields: { generalNumber: "hr", position: "employee" },
+    };
+
+    assert.deepEqual(recordVisibility(rules, "office", "a"), {
+      row: "anonymous",
+      fields: { generalNumber: "hr", position: "employee" },
+    });
+    assert.deepEqual(recordVisibility(rules, "office", "b"), {
+      row: "anonymous",
+      fields: { generalNumber: "employee" },
+    });
+    assert.equal(
+      recordVisibility(emptyVisibilityRules(), "office", "a"),
+      undefined
+    );
+  });
+});
+
+describe("hideFields", () => {
+  it("очищает скрытые поля и разобранные номера, но не ID", () => {
+    const record = employee({ id: "a" });
+
+    const hidden = hideFields(
+      record,
+      { row: "anonymous", fields: { generalNumber: "hr", id: "admin" } },
+      "employee"
+    )!;
+
+    assert.equal(hidden.id, "a");
+    assert.equal(hidden.generalNumber, "");
+    assert.deepEqual(hidden.phones.generalNumber, []);
+    assert.equal(hidden.internalNumber, record.internalNumber);
+    assert.equal(record.generalNumber, "+7 (495) 123-45-67");
+  });
+
+  it("скрывает вместе с ФИО и должностью их английские варианты", () => {
+    const record = employee({
+      id: "a",
+      fullNameEn: "Ivan Ivanov",
+      positionEn: "Accountant",
+    });
+
+    const hidden = hideFields(
+      record,
+      { row: "anonymous", fields: { position: "hr" } },
+      "employee"
+    )!;
+
+    assert.equal(hidden.position, "");
+    assert.equal(hidden.positionEn, "");
+    assert.equal(hidden.fullNameEn, "Ivan Ivanov");
+    assert.equal(
+      hideFields(
+        record,
+        { row: "anonymous", fields: { fullName: "admin" } },
+        "hr"
+      )!.fullNameEn,
+      ""
+    );
+  });
+
+  it("скрывает запись целиком от младших ролей", () => {
+    const record = employee({ id: "a" });
+    const visibility = { row: "hr" as const, fields: {} };
+
+    assert.equal(hideFields(record, visibility, "employee"), null);
+    assert.equal(hideFields(record, visibility, "hr"), record);
+  });
+});
+
+describe("filterHandbook", () => {
+  const rules: VisibilityRules = emptyVisibilityRules();
+  rules.columns.office.internalNumber = "employee";
+  rules.rows.office.secret = { row: "hr", fields: {} };
+  rules.rows.cabinets.c2 = { row: "admin", fields: {} };
+
+  const data = handbook({
+    timestamp: 1,
+    office: [
+      employee({ id: "a" }),
+      employee({ id: "secret", fullName: "Петров Пётр" }),
+      employee({
+        id: "b",
+        fullName: "Сидоров Сидор",
+        absence: {
+          type: "vacation",
+          from: "2026-01-01",
+          to: "2026-01-14",
+          substituteId: "secret",
+          substituteName: "Петров Пётр",
+        },
+      }),
+    ],
+    cabinets: [cabinet({ id: "c1" }), cabinet({ id: "c2" })],
+    visibility: rules,
+  });
+
+  it("убирает скрытые записи и поля и не отдаёт правила", () => {
+    const anonymous = filterHandbook(data, "anonymous");
+
+    assert.deepEqual(
+      anonymous.office.map((e) => e.id),
+      ["a", "b"]
+    );
+    assert.ok(anonymous.office.every((e) => e.internalNumber === ""));
+    assert.deepEqual(
+      anonymous.cabinets.map((c) => c.id),
+      ["c1"]
+    );
+    assert.equal(anonymous.visibility, undefined);
+  });
+
+  it("не упоминает скрытого от роли замещающего", () => {
+    const employeeView = filterHandbook(data, "employee");
+    const hrView = filterHandbook(data, "hr");
+
+    const absence = employeeView.office.find((e) => e.id === "b")!.absence!;
+    assert.equal(absence.substituteId, null);
+    assert.equal(absence.substituteName, "");
+    assert.equal(
+      hrView.office.find((e) => e.id === "b")!.absence!.substituteId,
+      "secret"
+    );
+  });
+
+  it("показывает администратору всё", () => {
+    const admin = filterHandbook(data, "admin");
+
+    assert.equal(admin.office.length, 3);
+    assert.equal(admin.cabinets.length, 2);
+    assert.equal(admin.office[0].internalNumber, "101");
+  });
+});
@@ -0,0 +1,161 @@
+// Data Interfaces
+/** Номер телефона после разбора значения ячейки. */
+export interface PhoneNumber {
+  /** Номер, как он записан в ячейке. */
+  raw: string;
+  /** Внешний номер в формате E.164 (+74951234567); null — внутренний или не распознан. */
+  e164: string | null;
+  /** Добавочный («доб. 123») или сам внутренний номер; только цифры. */
+  extension: string | null;
+  /** Номер для отображения: «+7 (495) 123-45-67 доб. 123». */
+  formatted: string;
+}
+
+/** Вид отсутствия с листа «Отсутствия». */
+export type AbsenceType = "vacation" | "sick-leave" | "business-trip";
+
+/** Строка листа «Отсутствия». Даты — ГГГГ-ММ-ДД, обе включительно. */
+export interface Absence {
+  /** Сотрудник: ID или ФИО, как указано в книге. */
+  employee: string;
+  type: AbsenceType;
+  from: string;
+  to: string;
+  /** Замещающий сотрудник: ID или ФИО (пусто — не указан). */
+  substitute: string;
+}
+
+/** Отсутствие сотрудника на текущую дату. */
+export interface EmployeeAbsence {
+  type: AbsenceType;
+  from: string;
+  to: string;
+  /** ID замещающего, если он найден в справочнике. */
+  substituteId: string | null;
+  /** ФИО замещающего или значение из книги, если он не найден. */
+  substituteName: string;
+}
+
+export interface OfficeEmployee {
+  /** Стабильный идентификатор: из колонки ID или хэш ФИО и отдела. */
+  id: string;
+  department: string;
+  sortPriority: number;
+  position: string;
+  fullName: string;
+  /** ФИО и должность по-английски (пусто — не указаны). */
+  fullNameEn: string;
+  positionEn: string;
+  internalNumber: string;
+  generalNumber: string;
+  /** Разобранные номера из internalNumber и generalNumber. */
+  phones: Record<"internalNumber" | "generalNumber", PhoneNumber[]>;
+  /** Руководитель: ID или ФИО, как указано в книге (пусто — не указан). */
+  manager: string;
+  /** Вышестоящий отдел для отдела сотрудника (пусто — не указан). */
+  parentDepartment: string;
+  /** Отпуск, больничный или командировка на текущую дату. */
+  absence: EmployeeAbsence | null;
+}
+
+export interface Cabinet {
+  /** Стабильный идентификатор: из колонки ID или хэш города и адреса. */
+  id: string;
+  city: string;
+  address: string;
+  internalNumber: string;
+  /** Разобранные номера из internalNumber. */
+  phones: Record<"internalNumber", PhoneNumber[]>;
+}
+
+/** Описание отдела с листа «Отделы». */
+export interface Department {
+  /** Стабильный идентификатор: из колонки ID или хэш названия. */
+  id: string;
+  /** Название; совпадает со значением колонки «Отдел» у сотрудников. */
+  name: string;
+  generalNumber: string;
+  /** Разобранные номера из generalNumber. */
+  phones: Record<"generalNumber", PhoneNumber[]>;
+  /** Этаж, кабинет — где находится отдел. */
+  location: string;
+  email: string;
+  /** Руководитель отдела, как указано в книге. */
+  head: string;
+  /** Порядок отображения; отделы с одинаковым порядком идут по алфавиту. */
+  sortOrder: number;
+}
+
+export interface HandbookData {
+  timestamp: number;
+  office: OfficeEmployee[];
+  cabinets: Cabinet[];
+  departments: Department[];
+  /** Ограничения видимости из источника; клиентам не отдаётся. */
+  visibility?: VisibilityRules;
+}
+
+// Visibility Interfaces
+/** Роль пользователя; в порядке расширения прав. */
+export type Role = "anonymous" | "employee" | "hr" | "admin";
+
+/** Листы, строки и колонки которых можно скрыть. */
+export type VisibilitySheet = "office" | "cabinets" | "departments";
+
+/** Кому видна запись и её отдельные поля. */
+export interface RecordVisibility {
+  /** Минимальная роль, которой видна запись целиком. */
+  row: Role;
+  /** Минимальная роль для отдельных полей записи. */
+  fields: Record<string, Role>;
+}
+
+/**
+ * Ограничения видимости: метки в заголовках колонок («Общий номер [HR]»)
+ * и колонка «Видимость» на листах.
+ */
+export interface VisibilityRules {
+  /** Минимальная роль для поля во всех записях листа. */
+  columns: Record<VisibilitySheet, Record<string, Role>>;
+  /** Ограничения отдельных записей по ID. */
+  rows: Record<VisibilitySheet, Record<string, RecordVisibility>>;
+}
+
+// Import Report Interfaces
+export type ImportSeverity = "error" | "warning";
+
+/**
+ * Замечание к конкретной строке (или ко всему листу, если row = null).
+ * Строка с хотя бы одной ошибкой (severity = "error") отклоняется.
+ */
+export interface ImportIssue {
+  sheet: string;
+  row: number | null;
+  severity: ImportSeverity;
+  field?: string;
+  column?: string;
+  value?: string;
+  message: string;
+}
+
+export interface SheetImportSummary {
+  sheet: string;
+  found: boolean;
+  /** Соответствие поля данных заголовку колонки, по которому оно найдено. */
+  columns: Record<string, string>;
+  unmappedColumns: string[];
+  totalRows: number;
+  acceptedRows: number;
+  rejectedRows: number;
+  warnedRows: number;
+}
+
+export interface ImportReport {
+  source: string;
+  generatedAt: number;
+  sourceTimestamp: number | null;
+  /** failed — источник не удалось прочитать, errors — есть отклонённые строки. */
+  status: "ok" | "warnings" | "errors" | "failed";
+  sheets: SheetImportSummary[];
+  issues: ImportIssue[];
+}
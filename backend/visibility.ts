@@ -0,0 +1,188 @@
+import {
+  Cabinet,
+  Department,
+  HandbookData,
+  OfficeEmployee,
+  RecordVisibility,
+  Role,
+  VisibilityRules,
+  VisibilitySheet,
+} from "./types";
+
+/** Роли в порядке расширения прав: каждая видит всё, что видят предыдущие. */
+export const ROLES: Role[] = ["anonymous", "employee", "hr", "admin"];
+
+/** Как роль может быть записана в книге: в метке колонки и колонке «Видимость». */
+const ROLE_NAMES: Record<Role, string[]> = {
+  anonymous: ["все", "всем", "публично", "anonymous", "public"],
+  employee: ["сотрудники", "сотрудникам", "employee", "employees"],
+  hr: ["hr", "кадры", "отдел кадров"],
+  admin: ["администраторы", "администраторам", "admin"],
+};
+
+/** Допустимые значения видимости для сообщений об ошибках. */
+export const ROLE_HINT = ROLES.map((role) => ROLE_NAMES[role][0]).join(", ");
+
+// Поле, которое не скрывается: по нему сопоставляются записи
+const ID_FIELD = "id";
+
+// Английские варианты полей скрываются вместе с основными,
+// иначе скрытая должность осталась бы видна в positionEn
+const ENGLISH_FIELDS: Record<string, string> = {
+  fullName: "fullNameEn",
+  position: "positionEn",
+};
+
+const normalize = (value: string) =>
+  value.toLowerCase().replace(/ё/g, "е").replace(/\s+/g, " ").trim();
+
+/**
+ * Определяет роль по значению из книги.
+ * @returns Роль или null, если значение не распознано.
+ */
+export function parseRole(value: string): Role | null {
+  const normalized = normalize(value);
+  return ROLES.find((role) => ROLE_NAMES[role].includes(normalized)) || null;
+}
+
+/**
+ * Видно ли роли то, что открыто для required и старших ролей.
+ */
+export function roleAllows(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/** Более строгая из двух ролей. */
+export function stricterRole(a: Role, b: Role): Role {
+  return roleAllows(a, b) ? a : b;
+}
+
+/** Пустые правила: всё видно всем. */
+export function emptyVisibilityRules(): VisibilityRules {
+  return {
+    columns: { office: {}, cabinets: {}, departments: {} },
+    rows: { office: {}, cabinets: {}, departments: {} },
+  };
+}
+
+/**
+ * Кому видна запись и её поля с учётом меток колонок и колонки
+ * «Видимость». Из двух ограничений поля действует более строгое.
+ * @returns Ограничения или undefined, если запись и все поля видны всем.
+ */
+export function recordVisibility(
+  rules: VisibilityRules | undefined,
+  sheet: VisibilitySheet,
+  id: string
+): RecordVisibility | undefined {
+  if (!rules) return undefined;
+  const row = rules.rows[sheet][id];
+  const fields = { ...rules.columns[sheet] };
+  Object.entries(row?.fields || {}).forEach(([field, role]) => {
+    fields[field] = fields[field] ? stricterRole(fields[field], role) : role;
+  });
+  if (!row && Object.keys(fields).length === 0) return undefined;
+  return { row: row?.row || "anonymous", fields };
+}
+
+/**
+ * Копия записи без полей, которые роли не видны: строковые поля
+ * становятся пустыми, разобранные номера — пустыми списками.
+ * Вместе с ФИО и должностью скрываются их английские варианты.
+ * @returns Запись, копия или null, если запись роли не видна целиком.
+ */
+export function hideFields<T extends { id: string }>(
+  record: T,
+  visibility: RecordVisibility | undefined,
+  role: Role
+): T | null {
+  if (!visibility) return record;
+  if (!roleAllows(role, visibility.row)) return null;
+  const hidden = Object.entries(visibility.fields)
+    .filter(
+      ([field, required]) => field !== ID_FIELD && !roleAllows(role, required)
+    )
+    .flatMap(([field]) =>
+      ENGLISH_FIELDS[field] ? [field, ENGLISH_FIELDS[field]] : [field]
+    );
+  if (hidden.length === 0) return record;
+
+  const copy: Record<string, any> = { ...record };
+  const phones: Record<string, unknown[]> | undefined = copy.phones && {
+    ...copy.phones,
+  };
+  hidden.forEach((field) => {
+    if (typeof copy[field] === "string") copy[field] = "";
+    if (phones && field in phones) phones[field] = [];
+  });
+  if (phones) copy.phones = phones;
+  return copy as T;
+}
+
+// Отфильтрованные данные по версии и роли: фильтр выполняется один раз
+// на версию, а поисковый индекс и структура кэшируются по объекту данных
+const filteredData = new WeakMap<HandbookData, Map<Role, HandbookData>>();
+
+function filterRecords<T extends { id: string }>(
+  records: T[],
+  rules: VisibilityRules | undefined,
+  sheet: VisibilitySheet,
+  role: Role
+): T[] {
+  return records
+    .map((record) =>
+      hideFields(record, recordVisibility(rules, sheet, record.id), role)
+    )
+    .filter((record): record is T => record !== null);
+}
+
+/**
+ * Данные справочника, которые видны роли. Скрытые записи убираются,
+ * скрытые поля очищаются; сами правила видимости в ответ не попадают.
+ * Замещающий, скрытый от роли, не упоминается в отметке об отсутствии.
+ * @param data - Данные, полученные из HandbookDirectory.load.
+ * @param role - Роль пользователя.
+ */
+export function filterHandbook(data: HandbookData, role: Role): HandbookData {
+  let byRole = filteredData.get(data);
+  if (!byRole) {
+    byRole = new Map();
+    filteredData.set(data, byRole);
+  }
+  const cached = byRole.get(role);
+  if (cached) return cached;
+
+  const { visibility: rules, ...rest } = data;
+  const office = filterRecords<OfficeEmployee>(
+    data.office,
+    rules,
+    "office",
+    role
+  );
+  const visibleIds = new Set(office.map((e) => e.id));
+  const result: HandbookData = {
+    ...rest,
+    office: office.map((employee) =>
+      employee.absence?.substituteId &&
+      !visibleIds.has(employee.absence.substituteId)
+        ? {
+            ...employee,
+            absence: {
+              ...employee.absence,
+              substituteId: null,
+              substituteName: "",
+            },
+          }
+        : employee
+    ),
+    cabinets: filterRecords<Cabinet>(data.cabinets, rules, "cabinets", role),
+    departments: filterRecords<Department>(
+      data.departments,
+      rules,
+      "departments",
+      role
+    ),
+  };
+  byRole.set(role, result);
+  return result;
+}
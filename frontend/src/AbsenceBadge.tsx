@@ -0,0 +1,42 @@
+import React from "react";
+import { parseISO } from "date-fns";
+import EmployeeLink from "./EmployeeLink";
+import { useTranslation } from "./i18n";
+import { EmployeeAbsence } from "./types";
+import "./AbsenceBadge.css";
+
+/** Фамилия из ФИО: «замещает Петров». */
+const surname = (fullName: string) => fullName.split(/\s+/)[0];
+
+/**
+ * Отметка об отсутствии сотрудника: «в отпуске до 28.10, замещает
+ * Петров» со ссылкой на карточку замещающего.
+ */
+const AbsenceBadge: React.FC<{ absence: EmployeeAbsence }> = ({ absence }) => {
+  const { t, formatDate } = useTranslation();
+  return (
+    <span className={`absence-badge absence-${absence.type}`}>
+      {t(`absence.${absence.type}` as const)}{" "}
+      {t("absence.until", {
+        date: formatDate(parseISO(absence.to), "dayMonth"),
+      })}
+      {absence.substituteName && (
+        <>
+          {t("absence.substitute")}{" "}
+          {absence.substituteId ? (
+            <EmployeeLink
+              id={absence.substituteId}
+              title={absence.substituteName}
+            >
+              {surname(absence.substituteName)}
+            </EmployeeLink>
+          ) : (
+            absence.substituteName
+          )}
+        </>
+      )}
+    </span>
+  );
+};
+
+export default AbsenceBadge;
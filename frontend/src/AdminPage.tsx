@@ -0,0 +1,567 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { API_URL } from "./api";
+import {
+  AdminApiError,
+  AdminDataset,
+  AdminSession,
+  AuditEntry,
+  createRecord,
+  deleteRecord,
+  getAuditLog,
+  getSession,
+  login,
+  logout,
+  updateRecord,
+} from "./adminApi";
+import { clearRoleData, roleAllows } from "./session";
+import { Cabinet, Department, OfficeEmployee } from "./types";
+import "./Handbook.css";
+import "./AdminPage.css";
+
+// Interfaces
+interface FieldDefinition {
+  name: string;
+  label: string;
+  required?: boolean;
+  /** Показывать ли поле в таблице записей. */
+  inTable?: boolean;
+}
+
+type EditableRecord = (OfficeEmployee | Cabinet | Department) &
+  Record<string, unknown>;
+
+/** Открытая форма: новая запись (record = null) или изменение существующей. */
+interface FormState {
+  record: EditableRecord | null;
+  values: Record<string, string>;
+}
+
+// Constants
+const FIELDS: Record<AdminDataset, FieldDefinition[]> = {
+  employees: [
+    { name: "fullName", label: "ФИО", required: true, inTable: true },
+    { name: "department", label: "Отдел", inTable: true },
+    { name: "position", label: "Должность", inTable: true },
+    { name: "internalNumber", label: "Внутренний номер", inTable: true },
+    { name: "generalNumber", label: "Общий номер" },
+    { name: "sortPriority", label: "Приоритет" },
+    { name: "manager", label: "Руководитель (ID или ФИО)" },
+    { name: "parentDepartment", label: "Вышестоящий отдел" },
+    { name: "fullNameEn", label: "ФИО (англ.)" },
+    { name: "positionEn", label: "Должность (англ.)" },
+  ],
+  cabinets: [
+    { name: "city", label: "Город", inTable: true },
+    { name: "address", label: "Адрес", required: true, inTable: true },
+    { name: "internalNumber", label: "Внутренний номер", inTable: true },
+  ],
+  departments: [
+    { name: "name", label: "Название", required: true, inTable: true },
+    { name: "generalNumber", label: "Общий номер", inTable: true },
+    { name: "location", label: "Расположение", inTable: true },
+    { name: "email", label: "Эл. почта" },
+    { name: "head", label: "Руководитель" },
+    { name: "sortOrder", label: "Порядок" },
+  ],
+};
+
+const ACTION_LABELS: Record<AuditEntry["action"], string> = {
+  create: "Добавление",
+  update: "Изменение",
+  delete: "Удаление",
+  login: "Вход",
+  "login-failed": "Неудачный вход",
+  logout: "Выход",
+};
+
+const AUDIT_PAGE_SIZE = 50;
+
+/**
+ * Кратко описывает запись журнала: какая запись и какие поля изменились.
+ */
+const describeAuditEntry = (entry: AuditEntry): string => {
+  const record = entry.after || entry.before;
+  if (!record) return "";
+  const title = String(
+    record.fullName || record.address || record.name || entry.recordId
+  );
+  if (entry.action !== "update" || !entry.before || !entry.after) return title;
+  const before = entry.before;
+  const changes = Object.keys(entry.after)
+    // phones — разобранные номера, изменение видно по исходным полям
+    .filter(
+      (key) =>
+        key !== "id" &&
+        typeof entry.after![key] !== "object" &&
+        before[key] !== entry.after![key]
+    )
+    .map((key) => `${key}: «${before[key] ?? ""}» → «${entry.after![key]}»`);
+  return changes.length > 0 ? `${title}: ${changes.join(", ")}` : title;
+};
+
+/**
+ * Форма входа администратора.
+ */
+const LoginForm: React.FC<{ onLogin: (session: AdminSession) => void }> = ({
+  onLogin,
+}) => {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      onLogin(await login(username, password));
+    } catch (error: any) {
+      setError(error.message || "Не удалось войти");
+      setPassword("");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form className="admin-form admin-login" onSubmit={handleSubmit}>
+      <label>
+        Имя пользователя
+        <input
+          type="text"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          required
+        />
+      </label>
+      <label>
+        Пароль
+        <input
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+        />
+      </label>
+      {error && <p className="error-message">{error}</p>}
+      <button type="submit" className="admin-button" disabled={submitting}>
+        Войти
+      </button>
+    </form>
+  );
+};
+
+/**
+ * Журнал действий администраторов, начиная с последних записей.
+ */
+const AuditLogView: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(async (offset: number) => {
+    try {
+      const page = await getAuditLog(AUDIT_PAGE_SIZE, offset);
+      setTotal(page.total);
+      setEntries((prev) =>
+        offset === 0 ? page.entries : [...prev, ...page.entries]
+      );
+    } catch (error: any) {
+      setError(error.message || "Не удалось загрузить журнал");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage]);
+
+  return (
+    <div className="table-container">
+      {error && <p className="error-message">{error}</p>}
+      <table className="admin-table">
+        <thead>
+          <tr>
+            <th>Время</th>
+            <th>Пользователь</th>
+            <th>Действие</th>
+            <th>Запись</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry, index) => (
+            <tr key={`${entry.time}-${index}`}>
+              <td>{format(new Date(entry.time), "dd.MM.yyyy HH:mm:ss")}</td>
+              <td>{entry.username}</td>
+              <td>{ACTION_LABELS[entry.action] || entry.action}</td>
+              <td>{describeAuditEntry(entry)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {entries.length === 0 && !error && (
+        <p className="no-results">Журнал пуст.</p>
+      )}
+      {entries.length < total && (
+        <button
+          className="admin-button secondary"
+          onClick={() => loadPage(entries.length)}
+        >
+          Показать ещё
+        </button>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Экран администрирования справочника: вход, добавление, изменение
+ * и удаление сотрудников, кабинетов и отделов, журнал действий.
+ * Изменения записываются сервером прямо в источник данных.
+ */
+const AdminPage: React.FC = () => {
+  const [session, setSession] = useState<AdminSession | null>(null);
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [adminDisabled, setAdminDisabled] = useState(false);
+  const [activeTab, setActiveTab] = useState<AdminDataset | "audit">(
+    "employees"
+  );
+  const [records, setRecords] = useState<{
+    employees: EditableRecord[];
+    cabinets: EditableRecord[];
+    departments: EditableRecord[];
+  }>({ employees: [], cabinets: [], departments: [] });
+  const [filter, setFilter] = useState("");
+  const [form, setForm] = useState<FormState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getSession()
+      .then(setSession)
+      .catch((error) => {
+        if (error instanceof AdminApiError && error.status === 404) {
+          setAdminDisabled(true);
+        }
+      })
+      .finally(() => setSessionChecked(true));
+  }, []);
+
+  const loadRecords = useCallback(async () => {
+    try {
+      // Администратор получает все поля: скрытые от других ролей значения
+      // не должны теряться при сохранении формы
+      const response = await fetch(API_URL, {
+        cache: "no-store",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      const result = await response.json();
+      setRecords({
+        employees: result.data.office,
+        cabinets: result.data.cabinets,
+        departments: result.data.departments,
+      });
+    } catch (error: any) {
+      setError(error.message || "Не удалось загрузить справочник");
+    }
+  }, []);
+
+  // Изменять справочник и читать журнал могут только администраторы
+  const canEdit = !!session && roleAllows(session.role, "admin");
+
+  useEffect(() => {
+    if (canEdit) loadRecords();
+  }, [canEdit, loadRecords]);
+
+  /**
+   * Обрабатывает ошибку запроса: при истёкшей сессии возвращает к форме входа.
+   */
+  const handleApiError = (error: any) => {
+    if (error instanceof AdminApiError && error.status === 401) {
+      setSession(null);
+      setForm(null);
+    }
+    setError(error.message || "Неизвестная ошибка");
+  };
+
+  const handleLogout = async () => {
+    if (session) {
+      await logout(session).catch(() => undefined);
+    }
+    // Данные роли не должны оставаться на общем компьютере после выхода
+    await clearRoleData().catch((e) =>
+      console.warn("Не удалось очистить кэш справочника:", e)
+    );
+    setSession(null);
+    setForm(null);
+  };
+
+  const openForm = (dataset: AdminDataset, record: EditableRecord | null) => {
+    const values: Record<string, string> = {};
+    FIELDS[dataset].forEach((field) => {
+      values[field.name] = record ? String(record[field.name] ?? "") : "";
+    });
+    setError(null);
+    setForm({ record, values });
+  };
+
+  const handleSave = async (dataset: AdminDataset) => {
+    if (!session || !form) return;
+    setSaving(true);
+    setError(null);
+    try {
+      if (form.record) {
+        // Отправляем только изменённые поля, остальные ячейки не трогаем
+        const original = form.record;
+        const changed = Object.fromEntries(
+          Object.entries(form.values).filter(
+            ([name, value]) => String(original[name] ?? "") !== value
+          )
+        );
+        await updateRecord(session, dataset, original.id, changed);
+      } else {
+        await createRecord(session, dataset, form.values);
+      }
+      setForm(null);
+      await loadRecords();
+    } catch (error) {
+      handleApiError(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (
+    dataset: AdminDataset,
+    record: EditableRecord
+  ) => {
+    if (!session) return;
+    const title = String(record.fullName || record.address || record.name);
+    if (!window.confirm(`Удалить запись «${title}»?`)) return;
+    setError(null);
+    try {
+      await deleteRecord(session, dataset, record.id);
+      await loadRecords();
+    } catch (error) {
+      handleApiError(error);
+    }
+  };
+
+  const visibleRecords = useMemo(() => {
+    if (activeTab === "audit") return [];
+    const lowerFilter = filter.toLowerCase();
+    return records[activeTab].filter((record) =>
+      FIELDS[activeTab].some((field) =>
+        String(record[field.name] ?? "")
+          .toLowerCase()
+          .includes(lowerFilter)
+      )
+    );
+  }, [records, activeTab, filter]);
+
+  const renderForm = (dataset: AdminDataset) =>
+    form && (
+      <form
+        className="admin-form admin-record-form"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSave(dataset);
+        }}
+      >
+        <h2>{form.record ? "Изменение записи" : "Новая запись"}</h2>
+        {FIELDS[dataset].map((field) => (
+          <label key={field.name}>
+            {field.label}
+            <input
+              type="text"
+              value={form.values[field.name]}
+              required={field.required}
+              onChange={(e) =>
+                setForm({
+                  ...form,
+                  values: { ...form.values, [field.name]: e.target.value },
+                })
+              }
+            />
+          </label>
+        ))}
+        <div className="admin-form-actions">
+          <button type="submit" className="admin-button" disabled={saving}>
+            Сохранить
+          </button>
+          <button
+            type="button"
+            className="admin-button secondary"
+            onClick={() => setForm(null)}
+          >
+            Отмена
+          </button>
+        </div>
+      </form>
+    );
+
+  const renderRecords = (dataset: AdminDataset) => {
+    const columns = FIELDS[dataset].filter((field) => field.inTable);
+    return (
+      <>
+        <div className="controls-panel">
+          <div className="search-wrapper">
+            <input
+              type="text"
+              placeholder="Отбор записей..."
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="search-input"
+            />
+          </div>
+          <button
+            className="admin-button"
+            onClick={() => openForm(dataset, null)}
+          >
+            Добавить
+          </button>
+        </div>
+        {renderForm(dataset)}
+        <div className="table-container">
+          <table className="admin-table">
+            <thead>
+              <tr>
+                {columns.map((field) => (
+                  <th key={field.name}>{field.label}</th>
+                ))}
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRecords.map((record) => (
+                <tr key={record.id}>
+                  {columns.map((field) => (
+                    <td key={field.name}>{String(record[field.name] ?? "")}</td>
+                  ))}
+                  <td className="admin-row-actions">
+                    <button
+                      className="admin-link-button"
+                      onClick={() => openForm(dataset, record)}
+                    >
+                      Изменить
+                    </button>
+                    <button
+                      className="admin-link-button danger"
+                      onClick={() => handleDelete(dataset, record)}
+                    >
+                      Удалить
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visibleRecords.length === 0 && (
+            <p className="no-results">Нет записей.</p>
+          )}
+        </div>
+      </>
+    );
+  };
+
+  const switchTab = (tab: AdminDataset | "audit") => {
+    setActiveTab(tab);
+    setForm(null);
+    setFilter("");
+    setError(null);
+  };
+
+  return (
+    <div className="handbook-container">
+      <div className="admin-header">
+        <h1>Администрирование справочника</h1>
+        <span className="admin-header-links">
+          {session && roleAllows(session.role, "hr") && (
+            <Link to="/quality">Проверка данных</Link>
+          )}
+          <Link to="/">К справочнику</Link>
+        </span>
+      </div>
+      {!sessionChecked && <p className="no-results">Загрузка...</p>}
+      {adminDisabled && (
+        <p className="error-message">
+          Администрирование не настроено на сервере.
+        </p>
+      )}
+      {sessionChecked && !adminDisabled && !session && (
+        <LoginForm onLogin={setSession} />
+      )}
+      {session && (
+        <>
+          <div className="status-bar">
+            <span className="last-update">
+              Пользователь: {session.username}
+            </span>
+            <button className="admin-link-button" onClick={handleLogout}>
+              Выйти
+            </button>
+          </div>
+          {!canEdit && (
+            <p className="no-results">
+              Изменять справочник могут только администраторы. Справочник
+              показывает данные, доступные вашей роли.
+            </p>
+          )}
+        </>
+      )}
+      {canEdit && (
+        <>
+          <div className="tabs">
+            <button
+              className={`tab-button ${
+                activeTab === "employees" ? "active" : ""
+              }`}
+              onClick={() => switchTab("employees")}
+            >
+              Сотрудники
+            </button>
+            <button
+              className={`tab-button ${
+                activeTab === "cabinets" ? "active" : ""
+              }`}
+              onClick={() => switchTab("cabinets")}
+            >
+              Кабинеты
+            </button>
+            <button
+              className={`tab-button ${
+                activeTab === "departments" ? "active" : ""
+              }`}
+              onClick={() => switchTab("departments")}
+            >
+              Отделы
+            </button>
+            <button
+              className={`tab-button ${activeTab === "audit" ? "active" : ""}`}
+              onClick={() => switchTab("audit")}
+            >
+              Журнал
+            </button>
+          </div>
+          {error && <p className="error-message">{error}</p>}
+          <div className="tab-content">
+            {activeTab === "audit" ? (
+              <AuditLogView />
+            ) : (
+              renderRecords(activeTab)
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AdminPage;
@@ -1,13 +1,28 @@
 // src/App.js
 
 import React from "react";
+import { BrowserRouter, Route, Routes } from "react-router-dom";
 import Handbook from "./Handbook";
+import EmployeeCard from "./EmployeeCard";
+import AdminPage from "./AdminPage";
+import QualityPage from "./QualityPage";
+import { LanguageProvider } from "./i18n";
 // import './App.css'; // Можно удалить, если не используется
 
 function App() {
   return (
     <div className="App">
-      <Handbook />
+      <LanguageProvider>
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Handbook />}>
+              <Route path="employee/:id" element={<EmployeeCard />} />
+            </Route>
+            <Route path="/admin" element={<AdminPage />} />
+            <Route path="/quality" element={<QualityPage />} />
+          </Routes>
+        </BrowserRouter>
+      </LanguageProvider>
     </div>
   );
 }
@@ -0,0 +1,229 @@
+import React, { useCallback, useEffect, useState } from "react";
+import EmployeeLink from "./EmployeeLink";
+import {
+  Language,
+  MessageKey,
+  getLanguage,
+  localizedName,
+  translate,
+  useTranslation,
+} from "./i18n";
+import { Cabinet, OfficeEmployee } from "./types";
+import "./ChangeFeed.css";
+
+// Interfaces
+interface HandbookChange {
+  kind:
+    | "joined"
+    | "left"
+    | "moved"
+    | "renamed"
+    | "position-changed"
+    | "number-changed"
+    | "cabinet-added"
+    | "cabinet-removed"
+    | "cabinet-number-changed";
+  employee?: OfficeEmployee;
+  cabinet?: Cabinet;
+  field?: string;
+  from?: string;
+  to?: string;
+}
+
+interface HistoryEntry {
+  timestamp: number;
+  previousTimestamp: number;
+  changes: HandbookChange[];
+}
+
+interface ChangeFeedProps {
+  /** Время последнего обновления справочника: при смене лента перечитывается. */
+  refreshToken: number | null;
+  /** Адрес данных справочника, историю которого нужно показать. */
+  handbookUrl: string;
+}
+
+// Constants
+const PAGE_SIZE = 20;
+
+const NUMBER_MESSAGES: Record<string, MessageKey> = {
+  internalNumber: "changes.internalNumberChanged",
+  generalNumber: "changes.generalNumberChanged",
+};
+
+/**
+ * Ссылка на карточку сотрудника.
+ */
+const EmployeeName: React.FC<{ employee: OfficeEmployee }> = ({ employee }) => {
+  const { language } = useTranslation();
+  return (
+    <EmployeeLink id={employee.id} className="full-name">
+      {localizedName(employee, language)}
+    </EmployeeLink>
+  );
+};
+
+const cabinetTitle = (cabinet: Cabinet) =>
+  [cabinet.city, cabinet.address].filter(Boolean).join(", ");
+
+/**
+ * Описывает одно изменение понятным текстом.
+ */
+const renderChange = (
+  change: HandbookChange,
+  t: (key: MessageKey) => string,
+  language: Language
+): React.ReactNode => {
+  const { employee, cabinet } = change;
+  const fromTo = (
+    <>
+      {" "}
+      <span className="change-old">{change.from || "—"}</span> →{" "}
+      <span className="change-new">{change.to || "—"}</span>
+    </>
+  );
+
+  switch (change.kind) {
+    case "joined":
+      return (
+        <>
+          {t("changes.joined")} <EmployeeName employee={employee!} />
+          {employee!.department && ` (${employee!.department})`}
+        </>
+      );
+    case "left":
+      return (
+        <>
+          {t("changes.left")} {localizedName(employee!, language)}
+          {employee!.department && ` (${employee!.department})`}
+        </>
+      );
+    case "moved":
+      return (
+        <>
+          {t("changes.moved")} <EmployeeName employee={employee!} />:{fromTo}
+        </>
+      );
+    case "renamed":
+      return (
+        <>
+          {t("changes.renamed")}
+          {fromTo}
+        </>
+      );
+    case "position-changed":
+      return (
+        <>
+          {t("changes.positionChanged")} <EmployeeName employee={employee!} />:
+          {fromTo}
+        </>
+      );
+    case "number-changed":
+      return (
+        <>
+          {t(NUMBER_MESSAGES[change.field || ""] || "changes.numberChanged")}{" "}
+          <EmployeeName employee={employee!} />:{fromTo}
+        </>
+      );
+    case "cabinet-added":
+      return (
+        <>
+          {t("changes.cabinetAdded")} {cabinetTitle(cabinet!)}
+        </>
+      );
+    case "cabinet-removed":
+      return (
+        <>
+          {t("changes.cabinetRemoved")} {cabinetTitle(cabinet!)}
+        </>
+      );
+    case "cabinet-number-changed":
+      return (
+        <>
+          {t("changes.cabinetNumberChanged")} {cabinetTitle(cabinet!)}:{fromTo}
+        </>
+      );
+    default:
+      return null;
+  }
+};
+
+/**
+ * Лента изменений справочника: кто пришёл, кто ушёл, у кого сменился
+ * номер или отдел. Версии показываются от новых к старым.
+ */
+const ChangeFeed: React.FC<ChangeFeedProps> = ({
+  refreshToken,
+  handbookUrl,
+}) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { language, t, formatDate } = useTranslation();
+
+  const loadPage = useCallback(
+    async (offset: number) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(
+          `${handbookUrl}/history?limit=${PAGE_SIZE}&offset=${offset}`,
+          { headers: { "Accept-Language": getLanguage() } }
+        );
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        const result = await response.json();
+        if (result.status !== "success") {
+          throw new Error(result.message || translate("error.fetch"));
+        }
+        setTotal(result.data.total);
+        setEntries((prev) =>
+          offset === 0 ? result.data.entries : [...prev, ...result.data.entries]
+        );
+      } catch (error: any) {
+        setError(error.message || translate("changes.loadFailed"));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [handbookUrl]
+  );
+
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage, refreshToken]);
+
+  return (
+    <div className="change-feed">
+      {error && <p className="error-message">{error}</p>}
+      {entries.map((entry) => (
+        <section key={entry.timestamp} className="change-version">
+          <h3>{formatDate(entry.timestamp, "dateTime")}</h3>
+          <ul>
+            {entry.changes.map((change, index) => (
+              <li key={index} className={`change-item change-${change.kind}`}>
+                {renderChange(change, t, language)}
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+      {!loading && !error && entries.length === 0 && (
+        <p className="no-results">{t("changes.empty")}</p>
+      )}
+      {entries.length < total && (
+        <button
+          className="export-button"
+          onClick={() => loadPage(entries.length)}
+          disabled={loading}
+        >
+          {t("changes.more")}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ChangeFeed;
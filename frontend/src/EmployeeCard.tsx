@@ -0,0 +1,256 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  useLocation,
+  useNavigate,
+  useOutletContext,
+  useParams,
+} from "react-router-dom";
+import { DirectoryUrls, buildExportUrl } from "./api";
+import AbsenceBadge from "./AbsenceBadge";
+import EmployeeLink from "./EmployeeLink";
+import EmployeePhoto from "./EmployeePhoto";
+import {
+  getLanguage,
+  localizedName,
+  localizedPosition,
+  translate,
+  useTranslation,
+} from "./i18n";
+import PhoneLink from "./PhoneLink";
+import { formatPhones } from "./phoneNumbers";
+import { OfficeEmployee } from "./types";
+import "./EmployeeCard.css";
+
+// Interfaces
+interface EmployeeCardData {
+  employee: OfficeEmployee;
+  colleagues: OfficeEmployee[];
+}
+
+export interface HandbookOutletContext {
+  employees: OfficeEmployee[];
+  /** Адреса API справочника, выбранного на странице. */
+  urls: DirectoryUrls;
+}
+
+class EmployeeNotFoundError extends Error {}
+
+/**
+ * Собирает данные карточки из локальных данных справочника.
+ * Используется, когда сервер недоступен, но справочник загружен из кэша.
+ * @param employees - Плоский список сотрудников.
+ * @param id - Идентификатор сотрудника.
+ * @returns Данные карточки или null, если сотрудник не найден.
+ */
+const findInLocalData = (
+  employees: OfficeEmployee[],
+  id: string
+): EmployeeCardData | null => {
+  const employee = employees.find((e) => e.id === id);
+  if (!employee) return null;
+  const colleagues = employees
+    .filter((e) => e.department === employee.department && e.id !== id)
+    .sort(
+      (a, b) =>
+        a.sortPriority - b.sortPriority ||
+        a.fullName.toLowerCase().localeCompare(b.fullName.toLowerCase())
+    );
+  return { employee, colleagues };
+};
+
+/**
+ * Карточка сотрудника, открываемая по адресу /employee/:id поверх справочника.
+ * Ссылку на карточку можно скопировать и отправить в чат.
+ */
+const EmployeeCard: React.FC = () => {
+  const { id = "" } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { employees, urls } = useOutletContext<HandbookOutletContext>();
+  const [card, setCard] = useState<EmployeeCardData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const { language, t } = useTranslation();
+
+  // Локальные данные нужны только как запасной вариант и не должны
+  // вызывать повторный запрос при каждом обновлении справочника
+  const employeesRef = useRef(employees);
+  employeesRef.current = employees;
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    setLinkCopied(false);
+
+    const loadCard = async () => {
+      try {
+        const response = await fetch(
+          `${urls.employees}/${encodeURIComponent(id)}`,
+          { headers: { "Accept-Language": getLanguage() } }
+        );
+        if (response.status === 404) {
+          throw new EmployeeNotFoundError(translate("card.notFound"));
+        }
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        const result = await response.json();
+        if (result.status !== "success") {
+          throw new Error(result.message || translate("error.fetch"));
+        }
+        if (!cancelled) setCard(result.data);
+      } catch (error: any) {
+        if (cancelled) return;
+        const localCard =
+          error instanceof EmployeeNotFoundError
+            ? null
+            : findInLocalData(employeesRef.current, id);
+        setCard(localCard);
+        if (!localCard) setError(error.message || translate("error.unknown"));
+      }
+    };
+
+    loadCard();
+    return () => {
+      cancelled = true;
+    };
+  }, [id, urls.employees]);
+
+  // Параметры адреса (поиск, вкладка) остаются справочнику под карточкой
+  const close = useCallback(
+    () => navigate({ pathname: "/", search: location.search }),
+    [navigate, location.search]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") close();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [close]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+    } catch (e) {
+      console.warn("Не удалось скопировать ссылку:", e);
+    }
+  };
+
+  // Пока загружается карточка другого сотрудника, прежнюю не показываем
+  const currentCard = card && card.employee.id === id ? card : null;
+
+  return (
+    <div className="employee-card-overlay" onClick={close}>
+      <div
+        className="employee-card"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="employee-card-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          className="employee-card-close"
+          onClick={close}
+          aria-label={t("card.close")}
+        >
+          &times;
+        </button>
+        {error && <p className="error-message">{error}</p>}
+        {!currentCard && !error && (
+          <p className="no-results">{t("card.loading")}</p>
+        )}
+        {currentCard && (
+          <>
+            <div className="employee-card-header">
+              <EmployeePhoto
+                employeesUrl={urls.employees}
+                employee={currentCard.employee}
+                size={96}
+              />
+              <div>
+                <h2 id="employee-card-title">
+                  {localizedName(currentCard.employee, language)}
+                </h2>
+                <div className="position">
+                  {localizedPosition(currentCard.employee, language)}
+                </div>
+                {currentCard.employee.absence && (
+                  <AbsenceBadge absence={currentCard.employee.absence} />
+                )}
+              </div>
+            </div>
+            <dl className="employee-card-details">
+              <dt>{t("table.department")}</dt>
+              <dd>{currentCard.employee.department || t("department.none")}</dd>
+              <dt>{t("table.internalNumber")}</dt>
+              <dd>
+                <PhoneLink
+                  number={
+                    formatPhones(currentCard.employee.phones.internalNumber) ||
+                    "—"
+                  }
+                />
+              </dd>
+              <dt>{t("table.generalNumber")}</dt>
+              <dd>
+                <PhoneLink
+                  number={
+                    formatPhones(currentCard.employee.phones.generalNumber) ||
+                    "—"
+                  }
+                />
+              </dd>
+            </dl>
+            <div className="employee-card-actions">
+              <button className="card-action-button" onClick={copyLink}>
+                {linkCopied ? t("card.linkCopied") : t("card.copyLink")}
+              </button>
+              <a
+                href={buildExportUrl(
+                  "vcard",
+                  { id: currentCard.employee.id },
+                  urls.handbook
+                )}
+                className="card-action-button"
+              >
+                {t("card.vcard")}
+              </a>
+            </div>
+            <h3>{t("card.colleagues")}</h3>
+            {currentCard.colleagues.length === 0 ? (
+              <p className="no-results">{t("card.noColleagues")}</p>
+            ) : (
+              <ul className="colleague-list">
+                {currentCard.colleagues.map((colleague) => (
+                  <li key={colleague.id}>
+                    <div className="person-details">
+                      <EmployeeLink
+                        id={colleague.id}
+                        className="colleague-name"
+                      >
+                        {localizedName(colleague, language)}
+                      </EmployeeLink>
+                      <span className="position">
+                        {localizedPosition(colleague, language)}
+                      </span>
+                    </div>
+                    <span className="colleague-number">
+                      <PhoneLink
+                        number={formatPhones(colleague.phones.internalNumber)}
+                      />
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EmployeeCard;
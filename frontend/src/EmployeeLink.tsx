@@ -0,0 +1,32 @@
+import React from "react";
+import { Link, useLocation } from "react-router-dom";
+
+interface EmployeeLinkProps {
+  id: string;
+  className?: string;
+  title?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Ссылка на карточку сотрудника. Параметры адреса (поиск, вкладка,
+ * раскрытые отделы) сохраняются, поэтому справочник под карточкой
+ * не меняется.
+ */
+const EmployeeLink: React.FC<EmployeeLinkProps> = ({
+  id,
+  children,
+  ...rest
+}) => {
+  const { search } = useLocation();
+  return (
+    <Link
+      to={{ pathname: `/employee/${encodeURIComponent(id)}`, search }}
+      {...rest}
+    >
+      {children}
+    </Link>
+  );
+};
+
+export default EmployeeLink;
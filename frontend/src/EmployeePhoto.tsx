@@ -0,0 +1,40 @@
+import React from "react";
+import { OfficeEmployee } from "./types";
+import "./EmployeePhoto.css";
+
+interface EmployeePhotoProps {
+  /** Адрес сотрудников справочника (см. DirectoryUrls). */
+  employeesUrl: string;
+  employee: Pick<OfficeEmployee, "id" | "fullName">;
+  /** Сторона изображения на странице, px. */
+  size: number;
+}
+
+/**
+ * Фотография сотрудника или аватар с инициалами. Загружается, только
+ * когда строка появляется на экране; сервер отдаёт миниатюру с учётом
+ * плотности пикселей экрана.
+ */
+const EmployeePhoto: React.FC<EmployeePhotoProps> = ({
+  employeesUrl,
+  employee,
+  size,
+}) => {
+  const pixels = Math.ceil(size * (window.devicePixelRatio || 1));
+  return (
+    <img
+      className="employee-photo"
+      src={`${employeesUrl}/${encodeURIComponent(
+        employee.id
+      )}/photo?size=${pixels}`}
+      width={size}
+      height={size}
+      loading="lazy"
+      decoding="async"
+      // ФИО написано рядом, поэтому для экранных дикторов фото — оформление
+      alt=""
+    />
+  );
+};
+
+export default EmployeePhoto;
@@ -0,0 +1,34 @@
+import React from "react";
+import { useTranslation } from "./i18n";
+import "./FavouriteButton.css";
+
+interface FavouriteButtonProps {
+  active: boolean;
+  /** ФИО или адрес — для подсказки и экранных дикторов. */
+  label: string;
+  onToggle: () => void;
+}
+
+/** Звёздочка в строке таблицы: добавляет запись в избранное или убирает. */
+const FavouriteButton: React.FC<FavouriteButtonProps> = ({
+  active,
+  label,
+  onToggle,
+}) => {
+  const { t } = useTranslation();
+  return (
+    <button
+      className={`favourite-button ${active ? "active" : ""}`}
+      onClick={onToggle}
+      title={t(active ? "favourites.remove" : "favourites.add")}
+      aria-label={t(active ? "favourites.removeLabel" : "favourites.addLabel", {
+        label,
+      })}
+      aria-pressed={active}
+    >
+      {active ? "★" : "☆"}
+    </button>
+  );
+};
+
+export default FavouriteButton;
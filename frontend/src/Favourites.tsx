@@ -0,0 +1,206 @@
+import React, { useRef, useState } from "react";
+import { formatPhones } from "./phoneNumbers";
+import {
+  FavouriteEntry,
+  FavouriteKind,
+  ResolvedFavourites,
+  cabinetLabel,
+  employeeLabel,
+} from "./favourites";
+import { localizedName, localizedPosition, useTranslation } from "./i18n";
+import AbsenceBadge from "./AbsenceBadge";
+import EmployeeLink from "./EmployeeLink";
+import EmployeePhoto from "./EmployeePhoto";
+import FavouriteButton from "./FavouriteButton";
+import PhoneLink from "./PhoneLink";
+import "./Favourites.css";
+
+interface FavouritesProps {
+  favourites: ResolvedFavourites;
+  /** Адрес сотрудников справочника (см. DirectoryUrls). */
+  employeesUrl: string;
+  onToggle: (kind: FavouriteKind, id: string, label: string) => void;
+  onExport: () => void;
+  /** Добавляет записи из файла; возвращает количество новых записей. */
+  onImport: (file: File) => Promise<number>;
+}
+
+/**
+ * Вкладка «Избранное»: отмеченные звёздочкой сотрудники и кабинеты,
+ * а также выгрузка списка в файл и загрузка из файла.
+ */
+const Favourites: React.FC<FavouritesProps> = ({
+  favourites,
+  employeesUrl,
+  onToggle,
+  onExport,
+  onImport,
+}) => {
+  const { t, language } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const { employees, cabinets, missing } = favourites;
+  const isEmpty =
+    employees.length === 0 && cabinets.length === 0 && missing.length === 0;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Тот же файл можно выбрать повторно
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const added = await onImport(file);
+      setImportMessage(
+        added > 0
+          ? t("favourites.added", { count: added })
+          : t("favourites.nothingAdded")
+      );
+    } catch (error: any) {
+      setImportMessage(error.message || t("favourites.importFailed"));
+    }
+  };
+
+  const renderMissing = (entry: FavouriteEntry) => (
+    <li key={`${entry.kind}-${entry.id}`}>
+      <FavouriteButton
+        active
+        label={entry.label}
+        onToggle={() => onToggle(entry.kind, entry.id, entry.label)}
+      />
+      {entry.label}
+    </li>
+  );
+
+  return (
+    <div className="favourites">
+      <div className="favourites-actions">
+        <button
+          className="export-button"
+          onClick={onExport}
+          title={t("favourites.exportTitle")}
+        >
+          {t("favourites.export")}
+        </button>
+        <button
+          className="export-button"
+          onClick={() => fileInputRef.current?.click()}
+          title={t("favourites.importTitle")}
+        >
+          {t("favourites.import")}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFile}
+          hidden
+        />
+        {importMessage && (
+          <span className="favourites-message" role="status">
+            {importMessage}
+          </span>
+        )}
+      </div>
+      {isEmpty && <p className="no-results">{t("favourites.empty")}</p>}
+      {employees.length > 0 && (
+        <div className="table-container">
+          <table>
+            <thead>
+              <tr>
+                <th>{t("table.nameAndPosition")}</th>
+                <th>{t("table.department")}</th>
+                <th>{t("table.internalNumber")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {employees.map((employee) => (
+                <tr key={employee.id}>
+                  <td>
+                    <div className="person-with-photo">
+                      <FavouriteButton
+                        active
+                        label={localizedName(employee, language)}
+                        onToggle={() =>
+                          onToggle(
+                            "employee",
+                            employee.id,
+                            employeeLabel(employee)
+                          )
+                        }
+                      />
+                      <EmployeePhoto
+                        employeesUrl={employeesUrl}
+                        employee={employee}
+                        size={40}
+                      />
+                      <div className="person-details">
+                        <EmployeeLink id={employee.id} className="full-name">
+                          {localizedName(employee, language)}
+                        </EmployeeLink>
+                        <div className="position">
+                          {localizedPosition(employee, language)}
+                        </div>
+                        {employee.absence && (
+                          <AbsenceBadge absence={employee.absence} />
+                        )}
+                      </div>
+                    </div>
+                  </td>
+                  <td>{employee.department}</td>
+                  <td>
+                    <PhoneLink
+                      number={formatPhones(employee.phones.internalNumber)}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {cabinets.length > 0 && (
+        <div className="table-container">
+          <table>
+            <thead>
+              <tr>
+                <th>{t("table.city")}</th>
+                <th>{t("table.address")}</th>
+                <th>{t("table.internalNumber")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {cabinets.map((cabinet) => (
+                <tr key={cabinet.id}>
+                  <td>
+                    <FavouriteButton
+                      active
+                      label={cabinetLabel(cabinet)}
+                      onToggle={() =>
+                        onToggle("cabinet", cabinet.id, cabinetLabel(cabinet))
+                      }
+                    />
+                    {cabinet.city}
+                  </td>
+                  <td>{cabinet.address}</td>
+                  <td>
+                    <PhoneLink
+                      number={formatPhones(cabinet.phones.internalNumber)}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {missing.length > 0 && (
+        <div className="favourites-missing">
+          <p>{t("favourites.missing")}</p>
+          <ul>{missing.map(renderMissing)}</ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Favourites;
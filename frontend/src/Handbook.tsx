@@ -5,30 +5,66 @@ import React, {
   useCallback,
   useRef,
 } from "react";
+import {
+  Link,
+  Outlet,
+  useLocation,
+  useMatch,
+  useNavigate,
+  useSearchParams,
+} from "react-router-dom";
 import localforage from "localforage";
-import { format, differenceInHours } from "date-fns";
+import { differenceInHours } from "date-fns";
+import {
+  COMBINED_SEARCH_URL,
+  DIRECTORIES_API_URL,
+  buildExportUrl,
+  directoryUrls,
+} from "./api";
+import {
+  DATA_CACHE_KEY,
+  MAX_CACHE_AGE_HOURS,
+  subscribeToHandbookUpdates,
+} from "./offline";
+import {
+  formatPhones,
+  matchesPhoneDigits,
+  phoneQueryDigits,
+} from "./phoneNumbers";
+import { SavedSearch, useQuickFilters } from "./quickFilters";
+import { HandbookDelta, applyDatasetDelta } from "./handbookDelta";
+import { cabinetLabel, employeeLabel, useFavourites } from "./favourites";
+import { Cabinet, Department, OfficeEmployee, PhoneNumber } from "./types";
+import ChangeFeed from "./ChangeFeed";
+import OrgChart from "./OrgChart";
+import AbsenceBadge from "./AbsenceBadge";
+import EmployeeLink from "./EmployeeLink";
+import EmployeePhoto from "./EmployeePhoto";
+import FavouriteButton from "./FavouriteButton";
+import Favourites from "./Favourites";
+import PhoneLink from "./PhoneLink";
+import QuickFilters from "./QuickFilters";
+import { roleAllows, useSessionRole } from "./session";
+import { handleListKeyDown } from "./listNavigation";
+import {
+  LANGUAGES,
+  Language,
+  NO_DEPARTMENT,
+  getLanguage,
+  localizedName,
+  localizedPosition,
+  translate,
+  useTranslation,
+} from "./i18n";
 import "./Handbook.css";
 
 // Interfaces
-interface OfficeEmployee {
-  department: string;
-  position: string;
-  fullName: string;
-  internalNumber: string;
-  generalNumber: string;
-  sortPriority: number;
-}
-
-interface Cabinet {
-  city: string;
-  address: string;
-  internalNumber: string;
-}
-
 interface GroupedOfficeData {
   [department: string]: {
     employees: OfficeEmployee[];
     generalNumber: string;
+    /** Описание с листа «Отделы», если оно есть. */
+    details: Department | null;
   };
 }
 
@@ -36,23 +72,117 @@ interface CachedData {
   data: {
     office: GroupedOfficeData;
     cabinets: Cabinet[];
+    departments: Department[];
   };
   timestamp: number;
   fetchTime: number;
+  etag?: string;
+}
+
+/** Найденный поиском фрагмент значения: [начало, конец). */
+type MatchRange = [number, number];
+
+interface SearchHit<T> {
+  record: T;
+  score: number;
+  matches: Record<string, MatchRange[]>;
+}
+
+interface SearchResponse {
+  query: string;
+  office: SearchHit<OfficeEmployee>[];
+  cabinets: SearchHit<Cabinet>[];
+  /** Количество найденных записей без учёта limit. */
+  total: { office: number; cabinets: number };
+}
+
+/** Результаты общего поиска, сгруппированные по справочникам. */
+interface CombinedSearchResponse {
+  query: string;
+  directories: (SearchResponse & { slug: string; name: string })[];
+}
+
+interface DirectoryInfo {
+  slug: string;
+  name: string;
+  /** Основной справочник отдаётся по прежним адресам /api/handbook. */
+  default: boolean;
+}
+
+/** Количество найденного в других справочниках. */
+interface DirectoryMatches {
+  slug: string;
+  name: string;
+  count: number;
 }
 
 // Constants
-const CACHE_KEY = "handbook_data_cache";
-const API_URL = process.env.REACT_APP_API_URL || "/api/handbook";
-const MAX_CACHE_AGE_HOURS = 12;
+// Выбранный справочник сохраняется между посещениями
+const DIRECTORY_KEY = "handbook_directory";
+// Параметры адреса: ссылкой на справочник можно поделиться, а «Назад»
+// в браузере возвращает прежний поиск, вкладку и раскрытые отделы
+const QUERY_PARAM = "q";
+const TAB_PARAM = "tab";
+const DEPARTMENT_PARAM = "dept";
+const DIRECTORY_PARAM = "directory";
+const TABS = [
+  "office",
+  "cabinets",
+  "favourites",
+  "changes",
+  "orgchart",
+] as const;
+type HandbookTab = (typeof TABS)[number];
+const DEFAULT_TAB: HandbookTab = "office";
+const SEARCH_DEBOUNCE_MS = 250;
+const SEARCH_LIMIT = 500;
+const UPDATE_NOTICE_DURATION_MS = 10000;
+const COPY_NOTICE_DURATION_MS = 3000;
+// Порядок отдела, которого нет на листе «Отделы»
+const DEFAULT_DEPARTMENT_ORDER = 99;
+
+/**
+ * Группирует сотрудников по отделам, не меняя их порядок: отделы идут
+ * в порядке появления первого сотрудника.
+ * @param data - Массив данных о сотрудниках.
+ * @param departments - Описания отделов; общий номер отдела берётся
+ * отсюда, а при отсутствии описания — у первого сотрудника отдела.
+ */
+const groupOfficeData = (
+  data: OfficeEmployee[],
+  departments: Department[]
+): GroupedOfficeData => {
+  const described = new Map(departments.map((d) => [d.name, d]));
+  return data.reduce<GroupedOfficeData>((acc, employee) => {
+    const dept = employee.department || NO_DEPARTMENT;
+    if (!acc[dept]) {
+      const details = described.get(dept) || null;
+      acc[dept] = {
+        employees: [],
+        generalNumber:
+          formatPhones(details?.phones.generalNumber || []) ||
+          formatPhones(employee.phones.generalNumber) ||
+          "—",
+        details,
+      };
+    }
+    acc[dept].employees.push(employee);
+    return acc;
+  }, {});
+};
 
 /**
  * Группирует сотрудников по отделам и сортирует их внутри групп.
  * Сортировка происходит сначала по числовому приоритету, затем по ФИО.
+ * Отделы упорядочиваются по порядку с листа «Отделы», затем по алфавиту.
  * @param data - Массив данных о сотрудниках.
+ * @param departments - Описания отделов.
  * @returns Объект с сгруппированными и отсортированными данными.
  */
-const groupAndSortOfficeData = (data: OfficeEmployee[]): GroupedOfficeData => {
+const groupAndSortOfficeData = (
+  data: OfficeEmployee[],
+  departments: Department[] = []
+): GroupedOfficeData => {
   const sortedByPriority = [...data].sort((a, b) => {
     const priorityCompare = a.sortPriority - b.sortPriority;
     if (priorityCompare !== 0) {
@@ -60,24 +190,13 @@ const groupAndSortOfficeData = (data: OfficeEmployee[]): GroupedOfficeData => {
     }
     return a.fullName.toLowerCase().localeCompare(b.fullName.toLowerCase());
   });
+  const grouped = groupOfficeData(sortedByPriority, departments);
 
-  const grouped = sortedByPriority.reduce<GroupedOfficeData>(
-    (acc, employee) => {
-      const dept = employee.department || "Без отдела";
-      if (!acc[dept]) {
-        acc[dept] = {
-          employees: [],
-          generalNumber: employee.generalNumber || "—",
-        };
-      }
-      acc[dept].employees.push(employee);
-      return acc;
-    },
-    {}
-  );
-
-  const sortedKeys = Object.keys(grouped).sort((a, b) =>
-    a.toLowerCase().localeCompare(b.toLowerCase())
+  const order = (dept: string) =>
+    grouped[dept].details?.sortOrder ?? DEFAULT_DEPARTMENT_ORDER;
+  const sortedKeys = Object.keys(grouped).sort(
+    (a, b) =>
+      order(a) - order(b) || a.toLowerCase().localeCompare(b.toLowerCase())
   );
 
   const finalGroupedData: GroupedOfficeData = {};
@@ -103,109 +222,411 @@ const sortCabinetData = (data: Cabinet[]): Cabinet[] => {
   });
 };
 
+/**
+ * Выводит текст, выделяя найденные поиском фрагменты.
+ */
+const HighlightedText: React.FC<{ text: string; ranges?: MatchRange[] }> = ({
+  text,
+  ranges,
+}) => {
+  if (!ranges || ranges.length === 0) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(<mark key={start}>{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+};
+
+/**
+ * Разворачивает сгруппированные по отделам данные обратно в плоский список.
+ */
+const flattenOfficeData = (office: GroupedOfficeData): OfficeEmployee[] =>
+  Object.values(office).flatMap((group) => group.employees);
+
+/**
+ * Запрашивает изменения с версии кэша и применяет их к кэшу.
+ * @param handbookUrl - Адрес данных справочника.
+ * @param cache - Кэш справочника.
+ * @returns Обновлённый кэш или null, если сервер не может построить дельту
+ * (версия кэша ему неизвестна) и нужна полная загрузка.
+ */
+const fetchChanges = async (
+  handbookUrl: string,
+  cache: CachedData
+): Promise<CachedData | null> => {
+  const response = await fetch(
+    `${handbookUrl}/changes?since=${cache.timestamp}`,
+    { credentials: "include", headers: { "Accept-Language": getLanguage() } }
+  );
+  if (response.status === 410) return null;
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+  const result = await response.json();
+  if (result.status !== "success") {
+    throw new Error(result.message || translate("error.fetch"));
+  }
+
+  const delta: HandbookDelta = result.data;
+  if (delta.to === cache.timestamp) {
+    return { ...cache, fetchTime: Date.now() };
+  }
+  const office = applyDatasetDelta(
+    flattenOfficeData(cache.data.office),
+    delta.office
+  );
+  const cabinets = applyDatasetDelta(cache.data.cabinets, delta.cabinets);
+  const departments = applyDatasetDelta(
+    cache.data.departments,
+    delta.departments
+  );
+  return {
+    data: {
+      office: groupAndSortOfficeData(office, departments),
+      cabinets: sortCabinetData(cabinets),
+      departments,
+    },
+    timestamp: delta.to,
+    fetchTime: Date.now(),
+    // ETag новой версии, чтобы следующая полная загрузка была условной
+    etag: response.headers.get("ETag") || undefined,
+  };
+};
+
+/**
+ * Загружает справочник целиком. Если передан кэш с ETag, запрос делается
+ * условным, и при ответе 304 возвращается тот же кэш.
+ * @param handbookUrl - Адрес данных справочника.
+ * @param cache - Кэш справочника или null.
+ */
+const fetchFullData = async (
+  handbookUrl: string,
+  cache: CachedData | null
+): Promise<CachedData> => {
+  const headers: HeadersInit = cache?.etag
+    ? { "If-None-Match": cache.etag, "Accept-Language": getLanguage() }
+    : { "Accept-Language": getLanguage() };
+  const response = await fetch(handbookUrl, {
+    headers,
+    credentials: "include",
+  });
+  if (response.status === 304 && cache) {
+    return { ...cache, fetchTime: Date.now() };
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+  const result = await response.json();
+  if (result.status !== "success") {
+    throw new Error(result.message || translate("error.fetch"));
+  }
+  // Ответ мог прийти из кэша service worker: время берём из его заголовка
+  const responseDate = Date.parse(response.headers.get("Date") || "");
+  return {
+    data: {
+      office: groupAndSortOfficeData(
+        result.data.office,
+        result.data.departments
+      ),
+      cabinets: sortCabinetData(result.data.cabinets),
+      departments: result.data.departments,
+    },
+    timestamp: result.data.timestamp,
+    fetchTime: Number.isNaN(responseDate) ? Date.now() : responseDate,
+    etag: response.headers.get("ETag") || undefined,
+  };
+};
+
 const Handbook: React.FC = () => {
   const [data, setData] = useState<{
     office: GroupedOfficeData;
     cabinets: Cabinet[];
-  }>({ office: {}, cabinets: [] });
+    departments: Department[];
+  }>({ office: {}, cabinets: [], departments: [] });
+
+  // Поиск, вкладка, раскрытые отделы и справочник хранятся в адресе страницы
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchQuery = searchParams.get(QUERY_PARAM) ?? "";
+  const tabParam = searchParams.get(TAB_PARAM);
+  const activeTab = TABS.find((tab) => tab === tabParam) ?? DEFAULT_TAB;
+  const expandedDepartments = useMemo(
+    () => searchParams.getAll(DEPARTMENT_PARAM),
+    [searchParams]
+  );
+  const directoryParam = searchParams.get(DIRECTORY_PARAM);
 
-  const [activeTab, setActiveTab] = useState<"office" | "cabinets">("office");
-  const [searchQuery, setSearchQuery] = useState<string>("");
-  const [loadingStatus, setLoadingStatus] =
-    useState<string>("Загрузка данных...");
+  const { language, setLanguage, t, formatDate } = useTranslation();
+  const [loadingStatus, setLoadingStatus] = useState<string>(() =>
+    translate("status.loading")
+  );
   const [lastUpdated, setLastUpdated] = useState<number | null>(null);
-  const [expandedDepartments, setExpandedDepartments] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
-  const [preSearchExpanded, setPreSearchExpanded] = useState<string[] | null>(
-    null
-  );
   const [rawOfficeData, setRawOfficeData] = useState<OfficeEmployee[]>([]);
+  const [updateNoticeTime, setUpdateNoticeTime] = useState<number | null>(null);
+  const [searchResult, setSearchResult] = useState<SearchResponse | null>(null);
+  const [directories, setDirectories] = useState<DirectoryInfo[]>([]);
+  const [directoriesLoaded, setDirectoriesLoaded] = useState(false);
+  const [otherMatches, setOtherMatches] = useState<DirectoryMatches[]>([]);
+  // Отдел, к которому нужно прокрутить список после открытия из быстрых фильтров
+  const [scrollTarget, setScrollTarget] = useState<string | null>(null);
+  // Сервер присылает только то, что видно роли; null — роль ещё не известна
+  const role = useSessionRole();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const cardOpen = useMatch("/employee/:id") !== null;
+  // Сообщение о скопированном номере для экранного диктора
+  const [copyNotice, setCopyNotice] = useState("");
+  // Строка кабинета, на которую попадает Tab (перемещаемый tabindex)
+  const [activeCabinetId, setActiveCabinetId] = useState<string | null>(null);
+
+  // null — основной справочник; undefined — выбор ещё не прочитан.
+  // Без сети список справочников неизвестен, и адресу доверяем как есть
+  const directorySlug = !directoriesLoaded
+    ? undefined
+    : directoryParam &&
+      (directories.length === 0 ||
+        directories.some((d) => d.slug === directoryParam && !d.default))
+    ? directoryParam
+    : null;
+  const urls = useMemo(
+    () => directoryUrls(directorySlug ?? null),
+    [directorySlug]
+  );
+  // У каждой роли свой кэш: набор записей и полей у ролей разный
+  const cacheKey =
+    (directorySlug ? `${DATA_CACHE_KEY}:${directorySlug}` : DATA_CACHE_KEY) +
+    (role && role !== "anonymous" ? `@${role}` : "");
+  const directoryReady = directorySlug !== undefined;
+  // Ответ для прежнего справочника, пришедший после переключения, не показывается
+  const activeCacheKeyRef = useRef(cacheKey);
+  activeCacheKeyRef.current = cacheKey;
+
+  const {
+    savedSearches,
+    pinnedDepartments,
+    saveSearch,
+    removeSearch,
+    togglePinned,
+  } = useQuickFilters(directorySlug ?? null);
+  const {
+    favourites,
+    isFavourite,
+    toggleFavourite,
+    exportFavourites,
+    importFavourites,
+  } = useFavourites(directorySlug ?? null, rawOfficeData, data.cabinets);
 
   /**
-   * Загружает данные для справочника.
+   * Меняет параметры адреса, оставляя остальные как есть.
+   * @param changes - Новые значения; null или пустой список удаляют параметр.
+   * @param replace - Заменить текущую запись истории, а не добавить новую.
    */
-  const fetchData = useCallback(async (forceUpdate = false) => {
-    setLoadingStatus("Проверка данных...");
-    setError(null);
+  const updateParams = useCallback(
+    (changes: Record<string, string | string[] | null>, replace = false) => {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          Object.entries(changes).forEach(([name, value]) => {
+            next.delete(name);
+            (Array.isArray(value) ? value : value ? [value] : []).forEach(
+              (item) => next.append(name, item)
+            );
+          });
+          return next;
+        },
+        { replace }
+      );
+    },
+    [setSearchParams]
+  );
+  const updateParamsRef = useRef(updateParams);
+  updateParamsRef.current = updateParams;
 
-    let cachedData: CachedData | null = null;
-    try {
-      cachedData = await localforage.getItem<CachedData>(CACHE_KEY);
-    } catch (e) {
-      console.warn("Ошибка чтения кэша (продолжаем без кэша):", e);
-    }
+  /**
+   * Меняет строку поиска. Набор текста не засоряет историю браузера:
+   * новая запись появляется только в начале поиска.
+   */
+  const setSearchQuery = (value: string) =>
+    updateParams({ [QUERY_PARAM]: value || null }, !!searchQuery && !!value);
+  const setSearchQueryRef = useRef(setSearchQuery);
+  setSearchQueryRef.current = setSearchQuery;
 
-    if (navigator.onLine || forceUpdate) {
-      setLoadingStatus(
-        navigator.onLine ? "Обновление данных..." : "Попытка обновления..."
-      );
+  const setActiveTab = useCallback(
+    (tab: HandbookTab, replace = false) =>
+      updateParams({ [TAB_PARAM]: tab === DEFAULT_TAB ? null : tab }, replace),
+    [updateParams]
+  );
+
+  /**
+   * Читает список справочников. Справочник из ссылки важнее выбора,
+   * сохранённого при прошлом посещении; сохранённый выбор переносится
+   * в адрес. Без сети используется сохранённый выбор.
+   */
+  const linkedDirectoryRef = useRef(directoryParam);
+  useEffect(() => {
+    let cancelled = false;
+    const linked = linkedDirectoryRef.current;
+    const loadDirectories = async () => {
+      const stored = await localforage
+        .getItem<string>(DIRECTORY_KEY)
+        .catch(() => null);
+      let list: DirectoryInfo[] | null = null;
       try {
-        const response = await fetch(API_URL);
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
+        const response = await fetch(DIRECTORIES_API_URL);
         const result = await response.json();
-        if (result.status !== "success") {
-          throw new Error(result.message || "Ошибка получения данных");
-        }
+        if (result.status === "success") list = result.data;
+      } catch (e) {
+        console.warn("Не удалось получить список справочников:", e);
+      }
+      if (cancelled) return;
+      const requested = linked ?? stored;
+      const selected = list
+        ? list.find((d) => d.slug === requested && !d.default)?.slug ?? null
+        : requested;
+      if (selected !== linked) {
+        updateParamsRef.current({ [DIRECTORY_PARAM]: selected }, true);
+      }
+      if (list) setDirectories(list);
+      setDirectoriesLoaded(true);
+    };
+    loadDirectories();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const currentDirectory = directories.find((d) =>
+    directorySlug ? d.slug === directorySlug : d.default
+  );
+
+  // Данные прежнего справочника сразу убираются, чтобы не смешивать их с новыми
+  useEffect(() => {
+    setData({ office: {}, cabinets: [], departments: [] });
+    setRawOfficeData([]);
+    setLastUpdated(null);
+    setSearchResult(null);
+  }, [cacheKey]);
+
+  /**
+   * Переключает справочник. Раскрытые отделы сбрасываются: в другом
+   * справочнике отделы называются иначе.
+   */
+  const selectDirectory = (slug: string) => {
+    const selected = directories.find((d) => d.slug === slug);
+    if (!selected || selected === currentDirectory) return;
+    localforage
+      .setItem(DIRECTORY_KEY, slug)
+      .catch((e) => console.warn("Не удалось сохранить выбор справочника:", e));
+    updateParams({
+      [DIRECTORY_PARAM]: selected.default ? null : selected.slug,
+      [DEPARTMENT_PARAM]: null,
+    });
+  };
+
+  /**
+   * Загружает данные для справочника.
+   */
+  const fetchData = useCallback(
+    async (forceUpdate = false) => {
+      setLoadingStatus(translate("status.checking"));
+      setError(null);
+
+      const showCachedData = (cache: CachedData) => {
+        if (activeCacheKeyRef.current !== cacheKey) return;
+        setData(cache.data);
+        setRawOfficeData(flattenOfficeData(cache.data.office));
+        setLastUpdated(cache.fetchTime);
+      };
+
+      let cachedData: CachedData | null = null;
+      try {
+        cachedData = await localforage.getItem<CachedData>(cacheKey);
+      } catch (e) {
+        console.warn("Ошибка чтения кэша (продолжаем без кэша):", e);
+      }
+
+      // Запрос делается и без сети: справочник может отдать service worker
+      setLoadingStatus(translate("status.updating"));
+      try {
+        // Сначала пробуем догнать кэш дельтой, затем — полной загрузкой
+        const newCache =
+          (cachedData?.data &&
+            !forceUpdate &&
+            (await fetchChanges(urls.handbook, cachedData).catch(
+              () => null
+            ))) ||
+          (await fetchFullData(urls.handbook, forceUpdate ? null : cachedData));
 
-        const newData = {
-          office: groupAndSortOfficeData(result.data.office),
-          cabinets: sortCabinetData(result.data.cabinets),
-        };
-        setRawOfficeData(result.data.office);
-        const newCache: CachedData = {
-          data: newData,
-          timestamp: result.data.timestamp,
-          fetchTime: Date.now(),
-        };
-
-        await localforage.setItem(CACHE_KEY, newCache);
-        setData(newData);
-        setLastUpdated(newCache.fetchTime);
-        setLoadingStatus("Данные успешно загружены с сервера.");
+        await localforage.setItem(cacheKey, newCache);
+        showCachedData(newCache);
+        setLoadingStatus(translate("status.loaded"));
         return;
       } catch (error: any) {
         console.error("Ошибка загрузки данных с API:", error);
-        setError(error.message || "Неизвестная ошибка");
-        if (cachedData?.data) {
-          setData(cachedData.data);
-          setLastUpdated(cachedData.fetchTime);
-          const flatData = Object.values(cachedData.data.office).flatMap(
-            (group) => group.employees
-          );
-          setRawOfficeData(flatData);
-          setLoadingStatus("Ошибка сети. Загружены данные из локального кэша.");
+        if (!cachedData?.data) {
+          setError(error.message || translate("error.unknown"));
+          setLoadingStatus(translate("status.offlineNoCache"));
           return;
         }
-        setLoadingStatus("Ошибка загрузки. Проверьте подключение к серверу.");
-        return;
       }
-    }
 
-    if (cachedData?.data) {
       const cacheAgeHours = differenceInHours(
         new Date(),
         new Date(cachedData.fetchTime)
       );
       const isStale = cacheAgeHours >= MAX_CACHE_AGE_HOURS;
-      setData(cachedData.data);
-      setLastUpdated(cachedData.fetchTime);
+      showCachedData(cachedData);
       setLoadingStatus(
         isStale
-          ? `Загружены данные из кэша (${cacheAgeHours}ч назад, рекомендуется обновить).`
-          : "Данные загружены из кэша."
+          ? translate("status.staleCache", { hours: cacheAgeHours })
+          : translate("status.cached")
       );
-    } else {
-      setLoadingStatus("Нет подключения к сети и нет локального кэша.");
-      setError("Данные недоступны");
-    }
-  }, []);
+    },
+    [urls.handbook, cacheKey]
+  );
 
   useEffect(() => {
-    fetchData();
-  }, [fetchData]);
+    if (directoryReady && role !== null) fetchData();
+  }, [fetchData, directoryReady, role]);
+
+  /**
+   * Подписывается на события сервера об обновлении справочника
+   * и перезагружает данные без участия пользователя.
+   */
+  useEffect(() => {
+    if (typeof EventSource === "undefined" || !directoryReady) return;
+    const source = new EventSource(`${urls.handbook}/events`);
+    source.addEventListener("handbook-updated", () => {
+      fetchData().then(() => setUpdateNoticeTime(Date.now()));
+    });
+    return () => source.close();
+  }, [fetchData, directoryReady, urls.handbook]);
+
+  /**
+   * Service worker отдаёт справочник из кэша и проверяет сервер в фоне;
+   * если данные на сервере новее, он присылает сообщение.
+   */
+  useEffect(
+    () =>
+      subscribeToHandbookUpdates(urls.handbook, () => {
+        fetchData().then(() => setUpdateNoticeTime(Date.now()));
+      }),
+    [fetchData, urls.handbook]
+  );
+
+  useEffect(() => {
+    if (updateNoticeTime === null) return;
+    const timer = setTimeout(
+      () => setUpdateNoticeTime(null),
+      UPDATE_NOTICE_DURATION_MS
+    );
+    return () => clearTimeout(timer);
+  }, [updateNoticeTime]);
 
   useEffect(() => {
     if (searchInputRef.current) {
@@ -213,13 +634,122 @@ const Handbook: React.FC = () => {
     }
   }, []);
 
+  // Сообщение убирается, чтобы повторное копирование зачитывалось снова
+  useEffect(() => {
+    if (!copyNotice) return;
+    const timer = setTimeout(() => setCopyNotice(""), COPY_NOTICE_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [copyNotice]);
+
   const handleUpdate = async () => {
-    await localforage.removeItem(CACHE_KEY);
+    await localforage.removeItem(cacheKey);
     fetchData(true);
   };
 
+  /**
+   * Ищет на сервере с задержкой после ввода. Пока ответа нет или сервер
+   * недоступен, результаты строятся по локальным данным (filterData).
+   */
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query || !directoryReady) {
+      setSearchResult(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({
+          q: query,
+          limit: String(SEARCH_LIMIT),
+        });
+        const response = await fetch(`${urls.handbook}/search?${params}`, {
+          signal: controller.signal,
+          headers: { "Accept-Language": getLanguage() },
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        const result = await response.json();
+        if (result.status !== "success") {
+          throw new Error(result.message || translate("error.search"));
+        }
+        setSearchResult(result.data);
+      } catch (error: any) {
+        if (error.name === "AbortError") return;
+        console.warn("Поиск на сервере недоступен, ищем локально:", error);
+        setSearchResult(null);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchQuery, lastUpdated, directoryReady, urls.handbook]);
+
+  /**
+   * При нескольких справочниках показывает, сколько найдено в остальных:
+   * общий поиск запрашивается с limit=1, нужны только количества.
+   */
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query || directories.length < 2 || !currentDirectory) {
+      setOtherMatches([]);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: query, limit: "1" });
+        const response = await fetch(`${COMBINED_SEARCH_URL}?${params}`, {
+          signal: controller.signal,
+          headers: { "Accept-Language": getLanguage() },
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        const result = await response.json();
+        if (result.status !== "success") {
+          throw new Error(result.message || translate("error.search"));
+        }
+        const combined: CombinedSearchResponse = result.data;
+        setOtherMatches(
+          combined.directories
+            .filter((d) => d.slug !== currentDirectory.slug)
+            .map((d) => ({
+              slug: d.slug,
+              name: d.name,
+              count: d.total.office + d.total.cabinets,
+            }))
+            .filter((d) => d.count > 0)
+        );
+      } catch (error: any) {
+        if (error.name === "AbortError") return;
+        console.warn("Поиск по всем справочникам недоступен:", error);
+        setOtherMatches([]);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchQuery, directories.length, currentDirectory]);
+
+  /** Найденные фрагменты по идентификатору записи. */
+  const searchMatches = useMemo(() => {
+    const byId = <T extends { id: string }>(
+      hits: SearchHit<T>[] = []
+    ): Record<string, Record<string, MatchRange[]>> =>
+      Object.fromEntries(hits.map((hit) => [hit.record.id, hit.matches]));
+    return {
+      office: byId(searchResult?.office),
+      cabinets: byId(searchResult?.cabinets),
+    };
+  }, [searchResult]);
+
   /**
    * Универсальная функция для фильтрации массива объектов по строковому запросу.
+   * Запрос, похожий на номер, сравнивается с номерами записи по цифрам.
    */
   const filterData = useCallback(
     <T extends Record<string, any>>(
@@ -229,12 +759,19 @@ const Handbook: React.FC = () => {
     ): T[] => {
       if (!query) return items;
       const lowerQuery = query.toLowerCase();
-      return items.filter((item) =>
-        keys.some((key) =>
-          String(item[key] || "")
-            .toLowerCase()
-            .includes(lowerQuery)
-        )
+      const digits = phoneQueryDigits(query);
+      return items.filter(
+        (item) =>
+          keys.some((key) =>
+            String(item[key] || "")
+              .toLowerCase()
+              .includes(lowerQuery)
+          ) ||
+          (digits !== null &&
+            matchesPhoneDigits(
+              Object.values<PhoneNumber[]>(item.phones || {}).flat(),
+              digits
+            ))
       );
     },
     []
@@ -244,10 +781,19 @@ const Handbook: React.FC = () => {
     if (!searchQuery) {
       return data.office;
     }
+    // Результаты сервера уже упорядочены по релевантности
+    if (searchResult) {
+      return groupOfficeData(
+        searchResult.office.map((hit) => hit.record),
+        data.departments
+      );
+    }
 
     const employeeSearchKeys: (keyof OfficeEmployee)[] = [
       "fullName",
+      "fullNameEn",
       "position",
+      "positionEn",
       "internalNumber",
     ];
 
@@ -257,66 +803,209 @@ const Handbook: React.FC = () => {
       employeeSearchKeys
     );
 
-    return groupAndSortOfficeData(filteredEmployees);
-  }, [searchQuery, data.office, rawOfficeData, filterData]);
+    return groupAndSortOfficeData(filteredEmployees, data.departments);
+  }, [
+    searchQuery,
+    searchResult,
+    data.office,
+    data.departments,
+    rawOfficeData,
+    filterData,
+  ]);
 
   const filteredCabinets = useMemo(() => {
+    if (searchQuery && searchResult) {
+      return searchResult.cabinets.map((hit) => hit.record);
+    }
     const keys: (keyof Cabinet)[] = ["city", "address", "internalNumber"];
     return filterData(data.cabinets, searchQuery, keys);
-  }, [data.cabinets, searchQuery, filterData]);
+  }, [data.cabinets, searchQuery, searchResult, filterData]);
 
   useEffect(() => {
     if (!searchQuery) return;
     const hasOfficeResults = Object.keys(filteredOffice).length > 0;
     const hasCabinetsResults = filteredCabinets.length > 0;
 
+    // Вкладка переключается сама — это не шаг истории браузера
     if (hasOfficeResults && !hasCabinetsResults && activeTab !== "office") {
-      setActiveTab("office");
+      setActiveTab("office", true);
     } else if (
       !hasOfficeResults &&
       hasCabinetsResults &&
       activeTab !== "cabinets"
     ) {
-      setActiveTab("cabinets");
+      setActiveTab("cabinets", true);
     }
-  }, [searchQuery, filteredOffice, filteredCabinets, activeTab]);
+  }, [searchQuery, filteredOffice, filteredCabinets, activeTab, setActiveTab]);
+
+  const toggleDepartment = (deptName: string) => {
+    updateParams({
+      [DEPARTMENT_PARAM]: expandedDepartments.includes(deptName)
+        ? expandedDepartments.filter((name) => name !== deptName)
+        : [...expandedDepartments, deptName],
+    });
+  };
 
+  /**
+   * Открывает закреплённый отдел: поиск сбрасывается, раскрыт только
+   * этот отдел, список прокручивается к нему.
+   */
+  const openDepartment = (deptName: string) => {
+    updateParams({
+      [QUERY_PARAM]: null,
+      [TAB_PARAM]: null,
+      [DEPARTMENT_PARAM]: [deptName],
+    });
+    setScrollTarget(deptName);
+  };
+
+  /**
+   * Горячие клавиши: «/» переводит фокус в поиск, Esc очищает поиск.
+   * Пока открыта карточка, Esc закрывает её, а поиск не трогается.
+   */
   useEffect(() => {
-    if (searchQuery && preSearchExpanded === null) {
-      setPreSearchExpanded([...expandedDepartments]);
-    } else if (!searchQuery && preSearchExpanded !== null) {
-      setExpandedDepartments(preSearchExpanded);
-      setPreSearchExpanded(null);
-    }
-  }, [searchQuery, expandedDepartments, preSearchExpanded]);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (cardOpen || e.ctrlKey || e.metaKey || e.altKey) return;
+      const input = searchInputRef.current;
+      const target = e.target as HTMLElement;
+      const editing =
+        target !== input &&
+        !!target.closest("input, textarea, select, [contenteditable]");
+      if (editing || !input) return;
+      if (e.key === "/" && target !== input) {
+        e.preventDefault();
+        input.focus();
+        input.select();
+      } else if (e.key === "Escape" && searchQuery) {
+        setSearchQueryRef.current("");
+        input.focus();
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [cardOpen, searchQuery]);
 
-  const toggleDepartment = (deptName: string) => {
-    setExpandedDepartments((prev) =>
-      prev.includes(deptName)
-        ? prev.filter((name) => name !== deptName)
-        : [...prev, deptName]
+  // Количество найденного зачитывается экранным диктором после поиска
+  const resultsAnnouncement = useMemo(() => {
+    if (!searchQuery) return "";
+    const office = Object.values(filteredOffice).reduce(
+      (sum, group) => sum + group.employees.length,
+      0
     );
+    return office + filteredCabinets.length === 0
+      ? t("results.nothingFound")
+      : t("results.found", { office, cabinets: filteredCabinets.length });
+  }, [searchQuery, filteredOffice, filteredCabinets, t]);
+
+  useEffect(() => {
+    if (!scrollTarget) return;
+    const element = document.querySelector(
+      `[data-department="${CSS.escape(scrollTarget)}"]`
+    );
+    if (!element) return;
+    element.scrollIntoView({ behavior: "smooth", block: "start" });
+    setScrollTarget(null);
+  }, [scrollTarget, data.office]);
+
+  // Сохранённые поиски общие для всех справочников, поэтому без directory
+  const savedParams = useMemo(() => {
+    const params = new URLSearchParams(searchParams);
+    params.delete(DIRECTORY_PARAM);
+    return params.toString();
+  }, [searchParams]);
+
+  /** Сохраняет текущий поиск под названием, которое введёт пользователь. */
+  const saveCurrentSearch = () => {
+    const name = window.prompt(t("search.namePrompt"), searchQuery.trim());
+    if (!name?.trim()) return;
+    saveSearch(name.trim(), savedParams);
   };
 
+  const applySearch = (search: SavedSearch) => {
+    const params = new URLSearchParams(search.params);
+    if (directoryParam) params.set(DIRECTORY_PARAM, directoryParam);
+    setSearchParams(params);
+  };
+
+  /**
+   * Расположение, руководитель и почта отдела под его названием.
+   */
+  const renderDepartmentDetails = (details: Department) => {
+    const parts: React.ReactNode[] = [
+      details.location,
+      details.head && t("department.head", { name: details.head }),
+      details.email && (
+        <a
+          href={`mailto:${details.email}`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {details.email}
+        </a>
+      ),
+    ].filter(Boolean);
+    if (parts.length === 0) return null;
+    return (
+      <span className="dept-details">
+        {parts.map((part, index) => (
+          <React.Fragment key={index}>
+            {index > 0 && " · "}
+            {part}
+          </React.Fragment>
+        ))}
+      </span>
+    );
+  };
+
+  /** Копирует номер строки и сообщает об этом экранному диктору. */
+  const copyNumber = async (number: string) => {
+    try {
+      await navigator.clipboard.writeText(number);
+      setCopyNotice(t("keyboard.numberCopied", { number }));
+    } catch (e) {
+      console.warn("Не удалось скопировать номер:", e);
+    }
+  };
+
+  const handleNavigationKeys = (event: React.KeyboardEvent<HTMLElement>) =>
+    handleListKeyDown(event, {
+      onToggleDepartment: (deptName) => {
+        if (!searchQuery) toggleDepartment(deptName);
+      },
+      onOpenEmployee: (id) =>
+        navigate({
+          pathname: `/employee/${encodeURIComponent(id)}`,
+          search: location.search,
+        }),
+      onCopyNumber: copyNumber,
+    });
+
+  /** Показано ли английское значение поля: подсветка берётся по нему. */
+  const englishShown = (value?: string) => language === "en" && !!value;
+
   const renderOfficeTable = (items: GroupedOfficeData) => {
     const departmentKeys = Object.keys(items);
     if (departmentKeys.length === 0) {
       return (
         <p className="no-results">
-          {searchQuery
-            ? "По вашему запросу ничего не найдено."
-            : "Нет данных для отображения."}
+          {searchQuery ? t("results.nothingFound") : t("results.noData")}
         </p>
       );
     }
     return (
-      <div className="office-grouped-list">
-        {departmentKeys.map((deptName) => {
+      <div className="office-grouped-list" onKeyDown={handleNavigationKeys}>
+        {departmentKeys.map((deptName, index) => {
           const group = items[deptName];
+          const toggleId = `department-toggle-${index}`;
+          const listId = `department-list-${index}`;
           const isExpanded =
             expandedDepartments.includes(deptName) || !!searchQuery;
+          const isPinned = pinnedDepartments.includes(deptName);
           return (
-            <div key={deptName} className="department-group">
+            <div
+              key={deptName}
+              className="department-group"
+              data-department={deptName}
+            >
               <div
                 className={`department-header ${isExpanded ? "expanded" : ""}`}
                 onClick={
@@ -324,33 +1013,152 @@ const Handbook: React.FC = () => {
                 }
                 style={searchQuery ? { cursor: "default" } : {}}
               >
-                <span className="dept-name">{deptName}</span>
+                <button
+                  className={`dept-pin-button ${isPinned ? "pinned" : ""}`}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    togglePinned(deptName);
+                  }}
+                  title={isPinned ? t("department.unpin") : t("department.pin")}
+                  aria-pressed={isPinned}
+                >
+                  {isPinned ? "★" : "☆"}
+                </button>
+                <div className="dept-title">
+                  {/* Щелчок и Enter обрабатывает заголовок отдела */}
+                  <button
+                    id={toggleId}
+                    className="dept-toggle"
+                    aria-expanded={isExpanded}
+                    aria-controls={listId}
+                    aria-disabled={!!searchQuery}
+                    data-nav-item
+                    data-nav-department={deptName}
+                  >
+                    <span className="dept-name">
+                      {deptName === NO_DEPARTMENT
+                        ? t("department.none")
+                        : deptName}
+                    </span>
+                  </button>
+                  {group.details && renderDepartmentDetails(group.details)}
+                </div>
                 <span className="dept-general-number">
-                  Общий номер: {group.generalNumber}
+                  {t("department.generalNumber")}{" "}
+                  <PhoneLink number={group.generalNumber} />
                 </span>
-                <span className="expand-icon">
+                <a
+                  href={buildExportUrl(
+                    "vcard",
+                    { department: deptName },
+                    urls.handbook
+                  )}
+                  className="dept-export-link"
+                  title={t("export.departmentTitle")}
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  vCard
+                </a>
+                <span className="expand-icon" aria-hidden="true">
                   {!searchQuery && (isExpanded ? "▼" : "▶")}
                 </span>
               </div>
-              <div className={`employee-list ${isExpanded ? "open" : ""}`}>
+              <div
+                id={listId}
+                role="group"
+                aria-labelledby={toggleId}
+                className={`employee-list ${isExpanded ? "open" : ""}`}
+              >
                 <div className="table-container">
                   <table>
                     <thead>
                       <tr>
-                        <th>ФИО / Должность</th>
-                        <th>Внутренний номер</th>
+                        <th>{t("table.nameAndPosition")}</th>
+                        <th>{t("table.internalNumber")}</th>
                       </tr>
                     </thead>
                     <tbody>
                       {group.employees.map((employee) => (
                         <tr
-                          key={`${employee.fullName}-${employee.internalNumber}`}
+                          key={employee.id}
+                          className="nav-row"
+                          tabIndex={-1}
+                          data-nav-item
+                          data-nav-employee={employee.id}
+                          data-nav-number={
+                            formatPhones(employee.phones.internalNumber) ||
+                            undefined
+                          }
                         >
-                          <td className="person-details">
-                            <div className="full-name">{employee.fullName}</div>
-                            <div className="position">{employee.position}</div>
+                          <td>
+                            <div className="person-with-photo">
+                              <FavouriteButton
+                                active={isFavourite("employee", employee.id)}
+                                label={localizedName(employee, language)}
+                                onToggle={() =>
+                                  toggleFavourite(
+                                    "employee",
+                                    employee.id,
+                                    employeeLabel(employee)
+                                  )
+                                }
+                              />
+                              <EmployeePhoto
+                                employeesUrl={urls.employees}
+                                employee={employee}
+                                size={40}
+                              />
+                              <div className="person-details">
+                                <EmployeeLink
+                                  id={employee.id}
+                                  className="full-name"
+                                >
+                                  <HighlightedText
+                                    text={localizedName(employee, language)}
+                                    ranges={
+                                      searchMatches.office[employee.id]?.[
+                                        englishShown(employee.fullNameEn)
+                                          ? "fullNameEn"
+                                          : "fullName"
+                                      ]
+                                    }
+                                  />
+                                </EmployeeLink>
+                                <div className="position">
+                                  <HighlightedText
+                                    text={localizedPosition(employee, language)}
+                                    ranges={
+                                      searchMatches.office[employee.id]?.[
+                                        englishShown(employee.positionEn)
+                                          ? "positionEn"
+                                          : "position"
+                                      ]
+                                    }
+                                  />
+                                </div>
+                                {employee.absence && (
+                                  <AbsenceBadge absence={employee.absence} />
+                                )}
+                              </div>
+                            </div>
+                          </td>
+                          <td>
+                            <PhoneLink
+                              number={formatPhones(
+                                employee.phones.internalNumber
+                              )}
+                            >
+                              <HighlightedText
+                                text={formatPhones(
+                                  employee.phones.internalNumber
+                                )}
+                                ranges={
+                                  searchMatches.office[employee.id]
+                                    ?.internalNumber
+                                }
+                              />
+                            </PhoneLink>
                           </td>
-                          <td>{employee.internalNumber}</td>
                         </tr>
                       ))}
                     </tbody>
@@ -365,30 +1173,69 @@ const Handbook: React.FC = () => {
   };
 
   const renderCabinetTable = (items: Cabinet[]) => (
-    <div className="table-container">
+    <div className="table-container" onKeyDown={handleNavigationKeys}>
       <table>
         <thead>
           <tr>
-            <th>Город</th>
-            <th>Адрес</th>
-            <th>Внутренний номер</th>
+            <th>{t("table.city")}</th>
+            <th>{t("table.address")}</th>
+            <th>{t("table.internalNumber")}</th>
           </tr>
         </thead>
         <tbody>
           {items.map((item, index) => (
-            <tr key={index}>
-              <td>{item.city}</td>
-              <td>{item.address}</td>
-              <td>{item.internalNumber}</td>
+            <tr
+              key={item.id}
+              className="nav-row"
+              // Tab попадает на последнюю выбранную строку, а если её больше
+              // нет в списке — на первую; дальше работают стрелки
+              tabIndex={
+                item.id === activeCabinetId ||
+                (index === 0 &&
+                  !items.some((cabinet) => cabinet.id === activeCabinetId))
+                  ? 0
+                  : -1
+              }
+              onFocus={() => setActiveCabinetId(item.id)}
+              data-nav-item
+              data-nav-number={
+                formatPhones(item.phones.internalNumber) || undefined
+              }
+            >
+              <td>
+                <FavouriteButton
+                  active={isFavourite("cabinet", item.id)}
+                  label={cabinetLabel(item)}
+                  onToggle={() =>
+                    toggleFavourite("cabinet", item.id, cabinetLabel(item))
+                  }
+                />
+                <HighlightedText
+                  text={item.city}
+                  ranges={searchMatches.cabinets[item.id]?.city}
+                />
+              </td>
+              <td>
+                <HighlightedText
+                  text={item.address}
+                  ranges={searchMatches.cabinets[item.id]?.address}
+                />
+              </td>
+              <td>
+                <PhoneLink number={formatPhones(item.phones.internalNumber)}>
+                  <HighlightedText
+                    text={formatPhones(item.phones.internalNumber)}
+                    ranges={searchMatches.cabinets[item.id]?.internalNumber}
+                  />
+                </PhoneLink>
+              </td>
             </tr>
           ))}
         </tbody>
       </table>
       {items.length === 0 && (
         <p className="no-results">
-          {searchQuery
-            ? "По вашему запросу ничего не найдено."
-            : "Нет данных для отображения."}
+          {searchQuery ? t("results.nothingFound") : t("results.noData")}
         </p>
       )}
     </div>
@@ -396,32 +1243,161 @@ const Handbook: React.FC = () => {
 
   return (
     <div className="handbook-container">
-      <h1>Корпоративный Справочник</h1>
+      <h1>{t("handbook.title")}</h1>
       <div className="controls-panel">
+        {directories.length > 1 && currentDirectory && (
+          <select
+            className="directory-select"
+            value={currentDirectory.slug}
+            onChange={(e) => selectDirectory(e.target.value)}
+            aria-label={t("handbook.directory")}
+          >
+            {directories.map((directory) => (
+              <option key={directory.slug} value={directory.slug}>
+                {directory.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <select
+          className="directory-select"
+          value={language}
+          onChange={(e) => setLanguage(e.target.value as Language)}
+          aria-label={t("handbook.language")}
+        >
+          {LANGUAGES.map(({ code, name }) => (
+            <option key={code} value={code}>
+              {name}
+            </option>
+          ))}
+        </select>
         <div className="search-wrapper">
           <input
             ref={searchInputRef}
             type="text"
-            placeholder="Поиск по всем полям..."
+            placeholder={t("search.placeholder")}
+            aria-label={t("search.placeholder")}
+            aria-keyshortcuts="/"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="search-input"
           />
           {searchQuery && (
             <button
-              onClick={() => setSearchQuery("")}
+              onClick={() => {
+                setSearchQuery("");
+                searchInputRef.current?.focus();
+              }}
               className="search-clear-button"
+              aria-label={t("search.clear")}
+              aria-keyshortcuts="Escape"
             >
               &times;
             </button>
           )}
         </div>
+        <div className="export-buttons">
+          <button
+            onClick={saveCurrentSearch}
+            className="export-button"
+            disabled={!savedParams}
+            title={t("search.saveTitle")}
+          >
+            {t("search.save")}
+          </button>
+          {activeTab === "office" && (
+            <a
+              href={buildExportUrl("vcard", { q: searchQuery }, urls.handbook)}
+              className="export-button"
+              title={t("export.vcardTitle")}
+            >
+              vCard
+            </a>
+          )}
+          {(activeTab === "office" || activeTab === "cabinets") && (
+            <a
+              href={buildExportUrl(
+                activeTab === "office" ? "office.csv" : "cabinets.csv",
+                { q: searchQuery },
+                urls.handbook
+              )}
+              className="export-button"
+              title={t("export.csvTitle")}
+            >
+              CSV
+            </a>
+          )}
+          <a
+            href={buildExportUrl(
+              "phonebook.html",
+              { q: searchQuery, print: "1" },
+              urls.handbook
+            )}
+            className="export-button"
+            target="_blank"
+            rel="noopener noreferrer"
+            title={t("export.printTitle")}
+          >
+            {t("export.print")}
+          </a>
+        </div>
       </div>
+      <QuickFilters
+        savedSearches={savedSearches}
+        pinnedDepartments={pinnedDepartments}
+        currentParams={savedParams}
+        onApplySearch={applySearch}
+        onRemoveSearch={removeSearch}
+        onOpenDepartment={openDepartment}
+        onUnpinDepartment={togglePinned}
+      />
       <div className="status-bar">
+        {updateNoticeTime && (
+          <span className="update-notice" role="status">
+            {t("status.updatedAt", {
+              time: formatDate(updateNoticeTime, "time"),
+            })}
+            <button
+              onClick={() => setUpdateNoticeTime(null)}
+              className="update-notice-close"
+              aria-label={t("status.dismiss")}
+            >
+              &times;
+            </button>
+          </span>
+        )}
         {error && <span className="error-message">{error}</span>}
+        {otherMatches.length > 0 && (
+          <span className="other-directories">
+            {t("status.alsoFound")}{" "}
+            {otherMatches.map((match, index) => (
+              <React.Fragment key={match.slug}>
+                {index > 0 && ", "}
+                <button
+                  className="link-button"
+                  onClick={() => selectDirectory(match.slug)}
+                >
+                  {match.name} ({match.count})
+                </button>
+              </React.Fragment>
+            ))}
+          </span>
+        )}
         {lastUpdated && (
           <span className="last-update">
-            Обновлено: {format(new Date(lastUpdated), "dd.MM.yyyy HH:mm:ss")}
+            {t("status.lastUpdated", {
+              time: formatDate(lastUpdated, "dateTimeSeconds"),
+            })}
+          </span>
+        )}
+        {role && role !== "anonymous" && (
+          <span className="role-links">
+            {roleAllows(role, "hr") && (
+              <Link to="/quality">{t("nav.quality")}</Link>
+            )}
+            {roleAllows(role, "admin") && (
+              <Link to="/admin">{t("nav.admin")}</Link>
+            )}
           </span>
         )}
       </div>
@@ -430,19 +1406,59 @@ const Handbook: React.FC = () => {
           className={`tab-button ${activeTab === "office" ? "active" : ""}`}
           onClick={() => setActiveTab("office")}
         >
-          Офис
+          {t("tab.office")}
         </button>
         <button
           className={`tab-button ${activeTab === "cabinets" ? "active" : ""}`}
           onClick={() => setActiveTab("cabinets")}
         >
-          Кабинеты
+          {t("tab.cabinets")}
+        </button>
+        <button
+          className={`tab-button ${activeTab === "favourites" ? "active" : ""}`}
+          onClick={() => setActiveTab("favourites")}
+        >
+          {t("tab.favourites")}
+        </button>
+        <button
+          className={`tab-button ${activeTab === "changes" ? "active" : ""}`}
+          onClick={() => setActiveTab("changes")}
+        >
+          {t("tab.changes")}
+        </button>
+        <button
+          className={`tab-button ${activeTab === "orgchart" ? "active" : ""}`}
+          onClick={() => setActiveTab("orgchart")}
+        >
+          {t("tab.orgchart")}
         </button>
       </div>
+      <div className="visually-hidden" role="status">
+        {resultsAnnouncement}
+      </div>
+      <div className="visually-hidden" role="status">
+        {copyNotice}
+      </div>
       <div className="tab-content">
         {activeTab === "office" && renderOfficeTable(filteredOffice)}
         {activeTab === "cabinets" && renderCabinetTable(filteredCabinets)}
+        {activeTab === "favourites" && (
+          <Favourites
+            favourites={favourites}
+            employeesUrl={urls.employees}
+            onToggle={toggleFavourite}
+            onExport={exportFavourites}
+            onImport={importFavourites}
+          />
+        )}
+        {activeTab === "changes" && (
+          <ChangeFeed refreshToken={lastUpdated} handbookUrl={urls.handbook} />
+        )}
+        {activeTab === "orgchart" && (
+          <OrgChart refreshToken={lastUpdated} url={urls.orgChart} />
+        )}
       </div>
+      <Outlet context={{ employees: rawOfficeData, urls }} />
     </div>
   );
 };
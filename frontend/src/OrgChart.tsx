@@ -0,0 +1,224 @@
+import React, { useCallback, useEffect, useState } from "react";
+import EmployeeLink from "./EmployeeLink";
+import {
+  NO_DEPARTMENT,
+  getLanguage,
+  localizedName,
+  localizedPosition,
+  translate,
+  useTranslation,
+} from "./i18n";
+import PhoneLink from "./PhoneLink";
+import { formatPhones } from "./phoneNumbers";
+import { OfficeEmployee } from "./types";
+import "./OrgChart.css";
+
+// Interfaces
+interface OrgEmployeeNode {
+  employee: OfficeEmployee;
+  managerId: string | null;
+  reports: OrgEmployeeNode[];
+}
+
+interface OrgDepartmentNode {
+  name: string;
+  parent: string | null;
+  employees: OrgEmployeeNode[];
+  children: OrgDepartmentNode[];
+}
+
+interface OrgChartIssue {
+  kind: string;
+  message: string;
+  employeeIds?: string[];
+  department?: string;
+}
+
+interface OrgChartData {
+  timestamp: number;
+  departments: OrgDepartmentNode[];
+  issues: OrgChartIssue[];
+}
+
+interface OrgChartProps {
+  /** Время последнего обновления справочника: при смене структура перечитывается. */
+  refreshToken: number | null;
+  /** Адрес организационной структуры выбранного справочника. */
+  url: string;
+}
+
+/**
+ * Кнопка раскрытия узла; для узла без потомков выводится пустое место,
+ * чтобы имена оставались выровненными.
+ */
+const ToggleButton: React.FC<{
+  expanded: boolean;
+  visible: boolean;
+  onClick: () => void;
+}> = ({ expanded, visible, onClick }) => {
+  const { t } = useTranslation();
+  return visible ? (
+    <button
+      className="org-toggle"
+      onClick={onClick}
+      aria-expanded={expanded}
+      aria-label={expanded ? t("orgchart.collapse") : t("orgchart.expand")}
+    >
+      {expanded ? "−" : "+"}
+    </button>
+  ) : (
+    <span className="org-toggle-placeholder" />
+  );
+};
+
+/**
+ * Сотрудник и его подчинённые. Щелчок по ФИО открывает ту же карточку
+ * сотрудника, что и таблица «Офис».
+ */
+const EmployeeNode: React.FC<{ node: OrgEmployeeNode }> = ({ node }) => {
+  const [expanded, setExpanded] = useState(true);
+  const { language } = useTranslation();
+  const { employee, reports } = node;
+  const position = localizedPosition(employee, language);
+
+  return (
+    <li className="org-employee">
+      <div className="org-row">
+        <ToggleButton
+          expanded={expanded}
+          visible={reports.length > 0}
+          onClick={() => setExpanded((prev) => !prev)}
+        />
+        <EmployeeLink id={employee.id} className="full-name">
+          {localizedName(employee, language)}
+        </EmployeeLink>
+        {position && <span className="position">{position}</span>}
+        {employee.internalNumber && (
+          <span className="org-number">
+            <PhoneLink number={formatPhones(employee.phones.internalNumber)} />
+          </span>
+        )}
+      </div>
+      {expanded && reports.length > 0 && (
+        <ul className="org-list">
+          {reports.map((report) => (
+            <EmployeeNode key={report.employee.id} node={report} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Отдел: его сотрудники и подчинённые отделы. Отделы верхнего уровня
+ * раскрыты сразу, вложенные — по щелчку.
+ */
+const DepartmentNode: React.FC<{ node: OrgDepartmentNode; depth: number }> = ({
+  node,
+  depth,
+}) => {
+  const [expanded, setExpanded] = useState(depth === 0);
+  const { t } = useTranslation();
+  const hasContent = node.employees.length > 0 || node.children.length > 0;
+
+  return (
+    <li className="org-department">
+      <div className="org-row">
+        <ToggleButton
+          expanded={expanded}
+          visible={hasContent}
+          onClick={() => setExpanded((prev) => !prev)}
+        />
+        <span className="org-department-name">
+          {node.name === NO_DEPARTMENT ? t("department.none") : node.name}
+        </span>
+      </div>
+      {expanded && hasContent && (
+        <ul className="org-list">
+          {node.employees.map((employee) => (
+            <EmployeeNode key={employee.employee.id} node={employee} />
+          ))}
+          {node.children.map((child) => (
+            <DepartmentNode key={child.name} node={child} depth={depth + 1} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Организационная структура: дерево отделов и подчинения сотрудников
+ * по колонкам «Руководитель» и «Вышестоящий отдел». Ошибки в этих
+ * колонках показываются списком над деревом.
+ */
+const OrgChart: React.FC<OrgChartProps> = ({ refreshToken, url }) => {
+  const [chart, setChart] = useState<OrgChartData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showIssues, setShowIssues] = useState(false);
+  const { t } = useTranslation();
+
+  const loadChart = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        headers: { "Accept-Language": getLanguage() },
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || translate("error.fetch"));
+      }
+      setChart(result.data);
+    } catch (error: any) {
+      setError(error.message || translate("orgchart.loadFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }, [url]);
+
+  useEffect(() => {
+    loadChart();
+  }, [loadChart, refreshToken]);
+
+  return (
+    <div className="org-chart">
+      {error && <p className="error-message">{error}</p>}
+      {chart && chart.issues.length > 0 && (
+        <div className="org-issues">
+          <button
+            className="org-issues-toggle"
+            onClick={() => setShowIssues((prev) => !prev)}
+            aria-expanded={showIssues}
+          >
+            {t("orgchart.issues", { count: chart.issues.length })}
+          </button>
+          {showIssues && (
+            <ul>
+              {chart.issues.map((issue, index) => (
+                <li key={index}>{issue.message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      {chart && chart.departments.length > 0 && (
+        <ul className="org-list org-root">
+          {chart.departments.map((department) => (
+            <DepartmentNode key={department.name} node={department} depth={0} />
+          ))}
+        </ul>
+      )}
+      {!loading && !error && chart && chart.departments.length === 0 && (
+        <p className="no-results">{t("orgchart.empty")}</p>
+      )}
+    </div>
+  );
+};
+
+export default OrgChart;
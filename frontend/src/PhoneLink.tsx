@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from "react";
+import { AdminSession, getSession } from "./adminApi";
+import { DIAL_API_URL } from "./api";
+import { getLanguage, translate, useTranslation } from "./i18n";
+import "./PhoneLink.css";
+
+// Схема ссылок на номера: tel (телефон или софтфон по умолчанию) или sip
+const PHONE_LINK_SCHEME =
+  process.env.REACT_APP_PHONE_LINK_SCHEME === "sip" ? "sip" : "tel";
+// Домен АТС для sip:-ссылок
+const SIP_DOMAIN = process.env.REACT_APP_SIP_DOMAIN || window.location.hostname;
+const DIAL_STATUS_DURATION_MS = 5000;
+const EXTENSION_PATTERN = /(?:доб\.?|ext\.?)\s*(\d+)/i;
+// Разделитель нескольких номеров в одной ячейке
+const NUMBER_SEPARATOR = /[,;]/;
+
+/**
+ * Строит ссылку для набора номера. Добавочный номер в tel:-ссылке
+ * передаётся параметром ext (RFC 3966), в sip:-ссылке отбрасывается.
+ * Из нескольких номеров через запятую берётся первый.
+ * @returns Ссылка или null, если в значении нет номера.
+ */
+export const phoneHref = (value: string): string | null => {
+  const number = firstNumber(value);
+  const extension = number.match(EXTENSION_PATTERN)?.[1];
+  const main = number.replace(EXTENSION_PATTERN, "").trim();
+  const digits = main.replace(/\D/g, "");
+  if (!digits) return null;
+  const dialed = `${main.startsWith("+") ? "+" : ""}${digits}`;
+  if (PHONE_LINK_SCHEME === "sip") {
+    return `sip:${dialed}@${SIP_DOMAIN}`;
+  }
+  return `tel:${dialed}${extension ? `;ext=${extension}` : ""}`;
+};
+
+/** Первый из нескольких номеров, записанных через запятую. */
+const firstNumber = (value: string): string =>
+  value.split(NUMBER_SEPARATOR)[0].trim();
+
+// Сессия, с которой звонят через АТС; спрашивается у сервера один раз.
+// null — звонки не настроены, вход не выполнен или у учётной записи
+// нет внутреннего номера
+let dialSession: Promise<AdminSession | null> | null = null;
+
+const getDialSession = (): Promise<AdminSession | null> => {
+  if (!dialSession) {
+    dialSession = fetch(`${DIAL_API_URL}/status`)
+      .then((response) => (response.ok ? getSession() : null))
+      .then((session) => (session?.internalNumber ? session : null))
+      .catch(() => null);
+  }
+  return dialSession;
+};
+
+/**
+ * Просит АТС соединить внутренний номер пользователя с номером to.
+ * Свой номер сервер берёт из учётной записи вошедшего пользователя.
+ * @returns Сообщение для пользователя.
+ */
+const dial = async (session: AdminSession, to: string): Promise<string> => {
+  const response = await fetch(DIAL_API_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Accept-Language": getLanguage(),
+      "X-CSRF-Token": session.csrfToken,
+    },
+    body: JSON.stringify({ to }),
+    credentials: "include",
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || result.status !== "success") {
+    throw new Error(result.message || `HTTP ${response.status}`);
+  }
+  return translate("dial.pickUp", { number: session.internalNumber || "" });
+};
+
+interface PhoneLinkProps {
+  number: string;
+  /** Содержимое ссылки; по умолчанию — сам номер. */
+  children?: React.ReactNode;
+}
+
+/**
+ * Номер телефона в виде ссылки tel:/sip:. Если на сервере настроены
+ * звонки через АТС, а у вошедшего пользователя указан внутренний номер,
+ * рядом выводится кнопка звонка со своего телефона.
+ */
+const PhoneLink: React.FC<PhoneLinkProps> = ({ number, children }) => {
+  const { t } = useTranslation();
+  const [session, setSession] = useState<AdminSession | null>(null);
+  const [calling, setCalling] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const href = phoneHref(number);
+
+  useEffect(() => {
+    let cancelled = false;
+    getDialSession().then((current) => !cancelled && setSession(current));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!status) return;
+    const timer = setTimeout(() => setStatus(null), DIAL_STATUS_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  const handleDial = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!session) return;
+    setCalling(true);
+    try {
+      setStatus(await dial(session, firstNumber(number)));
+    } catch (error: any) {
+      setStatus(error.message || t("dial.failed"));
+    } finally {
+      setCalling(false);
+    }
+  };
+
+  if (!href) return <>{children ?? number}</>;
+
+  return (
+    <span className="phone-link">
+      {/* Щелчок по номеру не должен сворачивать отдел или закрывать карточку */}
+      <a href={href} onClick={(e) => e.stopPropagation()}>
+        {children ?? number}
+      </a>
+      {session && (
+        <button
+          className="dial-button"
+          onClick={handleDial}
+          disabled={calling}
+          title={t("dial.title")}
+          aria-label={t("dial.label", { number })}
+        >
+          ☎
+        </button>
+      )}
+      {status && (
+        <span className="dial-status" role="status">
+          {status}
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default PhoneLink;
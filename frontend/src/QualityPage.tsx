@@ -0,0 +1,229 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { format } from "date-fns";
+import { DIRECTORIES_API_URL, directoryUrls } from "./api";
+import "./Handbook.css";
+import "./QualityPage.css";
+
+// Interfaces
+type QualityIssueKind =
+  | "duplicate-number"
+  | "duplicate-name"
+  | "empty-department"
+  | "invalid-number"
+  | "department-number-mismatch"
+  | "default-sort-priority";
+
+interface QualityRecordRef {
+  sheet: "office" | "cabinets" | "departments";
+  id: string;
+  title: string;
+  department?: string;
+  field?: string;
+  value?: string;
+}
+
+interface QualityIssue {
+  kind: QualityIssueKind;
+  severity: "error" | "warning";
+  message: string;
+  records: QualityRecordRef[];
+}
+
+interface QualityReport {
+  timestamp: number;
+  counts: Record<QualityIssueKind, number>;
+  issues: QualityIssue[];
+}
+
+interface DirectoryInfo {
+  slug: string;
+  name: string;
+  default: boolean;
+}
+
+// Constants
+const KIND_LABELS: Record<QualityIssueKind, string> = {
+  "duplicate-number": "Повторяющиеся номера",
+  "duplicate-name": "Повторяющиеся ФИО",
+  "empty-department": "Пустые отделы",
+  "invalid-number": "Некорректные номера",
+  "department-number-mismatch": "Расхождение с номером отдела",
+  "default-sort-priority": "Не указан приоритет",
+};
+
+const SEVERITY_LABELS: Record<QualityIssue["severity"], string> = {
+  error: "Ошибка",
+  warning: "Предупреждение",
+};
+
+const SHEET_LABELS: Record<QualityRecordRef["sheet"], string> = {
+  office: "Офис",
+  cabinets: "Кабинеты",
+  departments: "Отделы",
+};
+
+const ACCESS_DENIED_MESSAGE =
+  "Проверка данных доступна отделу кадров и администраторам.";
+
+/**
+ * Страница проверки данных для сотрудников, которые ведут книгу
+ * справочника: повторяющиеся номера и ФИО, пустые отделы, некорректные
+ * номера. Справочник выбирается параметром ?directory=<slug>.
+ */
+const QualityPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const directorySlug = searchParams.get("directory");
+  const [directories, setDirectories] = useState<DirectoryInfo[]>([]);
+  const [report, setReport] = useState<QualityReport | null>(null);
+  const [kindFilter, setKindFilter] = useState<QualityIssueKind | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handbookUrl = directoryUrls(directorySlug).handbook;
+
+  useEffect(() => {
+    fetch(DIRECTORIES_API_URL)
+      .then((response) => response.json())
+      .then((result) => {
+        if (result.status === "success") setDirectories(result.data);
+      })
+      .catch((e) =>
+        console.warn("Не удалось получить список справочников:", e)
+      );
+  }, []);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`${handbookUrl}/quality`, {
+        cache: "no-store",
+        credentials: "include",
+      });
+      if (response.status === 401 || response.status === 403) {
+        throw new Error(ACCESS_DENIED_MESSAGE);
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Ошибка получения данных");
+      }
+      setReport(result.data);
+    } catch (error: any) {
+      setReport(null);
+      setError(error.message || "Не удалось загрузить проверку данных");
+    } finally {
+      setLoading(false);
+    }
+  }, [handbookUrl]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const visibleIssues = useMemo(
+    () =>
+      (report?.issues || []).filter(
+        (issue) => !kindFilter || issue.kind === kindFilter
+      ),
+    [report, kindFilter]
+  );
+
+  const currentDirectory = directories.find((d) =>
+    directorySlug ? d.slug === directorySlug : d.default
+  );
+
+  const selectDirectory = (slug: string) => {
+    const selected = directories.find((d) => d.slug === slug);
+    setKindFilter(null);
+    setSearchParams(selected?.default ? {} : { directory: slug });
+  };
+
+  return (
+    <div className="handbook-container">
+      <div className="quality-header">
+        <h1>Проверка данных справочника</h1>
+        <Link to="/">К справочнику</Link>
+      </div>
+      <div className="controls-panel">
+        {directories.length > 1 && currentDirectory && (
+          <select
+            className="directory-select"
+            value={currentDirectory.slug}
+            onChange={(e) => selectDirectory(e.target.value)}
+            aria-label="Справочник"
+          >
+            {directories.map((directory) => (
+              <option key={directory.slug} value={directory.slug}>
+                {directory.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          className="export-button"
+          onClick={loadReport}
+          disabled={loading}
+        >
+          Проверить снова
+        </button>
+      </div>
+      <div className="status-bar">
+        {error && <span className="error-message">{error}</span>}
+        {error === ACCESS_DENIED_MESSAGE && <Link to="/admin">Войти</Link>}
+        {report && (
+          <span className="last-update">
+            Версия данных от{" "}
+            {format(new Date(report.timestamp), "dd.MM.yyyy HH:mm:ss")}
+          </span>
+        )}
+      </div>
+      {report && (
+        <div className="quality-kinds">
+          <button
+            className={`quality-kind ${kindFilter === null ? "active" : ""}`}
+            onClick={() => setKindFilter(null)}
+          >
+            Все: {report.issues.length}
+          </button>
+          {(Object.keys(KIND_LABELS) as QualityIssueKind[]).map((kind) => (
+            <button
+              key={kind}
+              className={`quality-kind ${kindFilter === kind ? "active" : ""}`}
+              onClick={() => setKindFilter(kind)}
+              disabled={report.counts[kind] === 0}
+            >
+              {KIND_LABELS[kind]}: {report.counts[kind]}
+            </button>
+          ))}
+        </div>
+      )}
+      {report && visibleIssues.length === 0 && (
+        <p className="no-results">Замечаний нет.</p>
+      )}
+      <ul className="quality-issues">
+        {visibleIssues.map((issue, index) => (
+          <li
+            key={`${issue.kind}-${index}`}
+            className={`quality-issue quality-${issue.severity}`}
+          >
+            <span className="quality-severity">
+              {SEVERITY_LABELS[issue.severity]}
+            </span>
+            <span className="quality-message">{issue.message}</span>
+            <span className="quality-records">
+              {Array.from(new Set(issue.records.map((r) => r.sheet)))
+                .map((sheet) => `«${SHEET_LABELS[sheet]}»`)
+                .join(", ")}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default QualityPage;
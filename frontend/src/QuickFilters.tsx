@@ -0,0 +1,83 @@
+import React from "react";
+import { NO_DEPARTMENT, useTranslation } from "./i18n";
+import { SavedSearch } from "./quickFilters";
+
+interface QuickFiltersProps {
+  savedSearches: SavedSearch[];
+  pinnedDepartments: string[];
+  /** Текущие параметры адреса: совпадающий сохранённый поиск выделяется. */
+  currentParams: string;
+  onApplySearch: (search: SavedSearch) => void;
+  onRemoveSearch: (name: string) => void;
+  onOpenDepartment: (department: string) => void;
+  onUnpinDepartment: (department: string) => void;
+}
+
+/**
+ * Быстрые фильтры под строкой поиска: сохранённые поиски и закреплённые
+ * отделы. Каждый фильтр можно удалить крестиком.
+ */
+const QuickFilters: React.FC<QuickFiltersProps> = ({
+  savedSearches,
+  pinnedDepartments,
+  currentParams,
+  onApplySearch,
+  onRemoveSearch,
+  onOpenDepartment,
+  onUnpinDepartment,
+}) => {
+  const { t } = useTranslation();
+  if (savedSearches.length === 0 && pinnedDepartments.length === 0) {
+    return null;
+  }
+  return (
+    <div className="quick-filters">
+      {pinnedDepartments.map((department) => {
+        const title =
+          department === NO_DEPARTMENT ? t("department.none") : department;
+        return (
+          <span key={`dept-${department}`} className="quick-filter pinned">
+            <button
+              className="quick-filter-apply"
+              onClick={() => onOpenDepartment(department)}
+              title={t("quickFilters.open")}
+            >
+              ★ {title}
+            </button>
+            <button
+              className="quick-filter-remove"
+              onClick={() => onUnpinDepartment(department)}
+              aria-label={t("quickFilters.unpin", { name: title })}
+            >
+              &times;
+            </button>
+          </span>
+        );
+      })}
+      {savedSearches.map((search) => (
+        <span
+          key={`search-${search.name}`}
+          className={`quick-filter ${
+            search.params === currentParams ? "active" : ""
+          }`}
+        >
+          <button
+            className="quick-filter-apply"
+            onClick={() => onApplySearch(search)}
+          >
+            {search.name}
+          </button>
+          <button
+            className="quick-filter-remove"
+            onClick={() => onRemoveSearch(search.name)}
+            aria-label={t("quickFilters.remove", { name: search.name })}
+          >
+            &times;
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default QuickFilters;
@@ -0,0 +1,111 @@
+import { ADMIN_API_URL } from "./api";
+import { Cabinet, OfficeEmployee, Role } from "./types";
+
+// Interfaces
+export type AdminDataset = "employees" | "cabinets" | "departments";
+
+export interface AdminSession {
+  username: string;
+  role: Exclude<Role, "anonymous">;
+  /** Внутренний номер для звонков через АТС, если он указан. */
+  internalNumber?: string | null;
+  csrfToken: string;
+}
+
+export interface AuditEntry {
+  time: string;
+  username: string;
+  ip: string;
+  action: "create" | "update" | "delete" | "login" | "login-failed" | "logout";
+  sheet?: "office" | "cabinets" | "departments";
+  recordId?: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+export interface AuditPage {
+  total: number;
+  entries: AuditEntry[];
+}
+
+/** Ошибка API администрирования с HTTP-статусом ответа. */
+export class AdminApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+/**
+ * Выполняет запрос к API администрирования. Cookie сессии отправляется
+ * всегда, CSRF-токен — для запросов, изменяющих данные.
+ */
+const request = async <T>(
+  path: string,
+  options: { method?: string; body?: unknown; csrfToken?: string } = {}
+): Promise<T> => {
+  const headers: Record<string, string> = {};
+  if (options.body !== undefined) headers["Content-Type"] = "application/json";
+  if (options.csrfToken) headers["X-CSRF-Token"] = options.csrfToken;
+
+  const response = await fetch(`${ADMIN_API_URL}${path}`, {
+    method: options.method || "GET",
+    headers,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    credentials: "include",
+  });
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result || result.status !== "success") {
+    throw new AdminApiError(
+      result?.message || `HTTP ${response.status}: ${response.statusText}`,
+      response.status
+    );
+  }
+  return result.data as T;
+};
+
+export const getSession = () => request<AdminSession>("/session");
+
+export const login = (username: string, password: string) =>
+  request<AdminSession>("/login", {
+    method: "POST",
+    body: { username, password },
+  });
+
+export const logout = (session: AdminSession) =>
+  request<null>("/logout", { method: "POST", csrfToken: session.csrfToken });
+
+export const createRecord = (
+  session: AdminSession,
+  dataset: AdminDataset,
+  values: Record<string, string>
+) =>
+  request<OfficeEmployee | Cabinet>(`/${dataset}`, {
+    method: "POST",
+    body: values,
+    csrfToken: session.csrfToken,
+  });
+
+export const updateRecord = (
+  session: AdminSession,
+  dataset: AdminDataset,
+  id: string,
+  values: Record<string, string>
+) =>
+  request<OfficeEmployee | Cabinet>(`/${dataset}/${encodeURIComponent(id)}`, {
+    method: "PUT",
+    body: values,
+    csrfToken: session.csrfToken,
+  });
+
+export const deleteRecord = (
+  session: AdminSession,
+  dataset: AdminDataset,
+  id: string
+) =>
+  request<null>(`/${dataset}/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+    csrfToken: session.csrfToken,
+  });
+
+export const getAuditLog = (limit: number, offset: number) =>
+  request<AuditPage>(`/audit?limit=${limit}&offset=${offset}`);
@@ -0,0 +1,58 @@
+// Адреса API бэкенда
+export const API_URL = process.env.REACT_APP_API_URL || "/api/handbook";
+export const EMPLOYEES_API_URL =
+  process.env.REACT_APP_EMPLOYEES_API_URL || "/api/employees";
+export const ORGCHART_API_URL =
+  process.env.REACT_APP_ORGCHART_API_URL || "/api/orgchart";
+export const ADMIN_API_URL =
+  process.env.REACT_APP_ADMIN_API_URL || "/api/admin";
+export const DIAL_API_URL = process.env.REACT_APP_DIAL_API_URL || "/api/dial";
+export const DIRECTORIES_API_URL =
+  process.env.REACT_APP_DIRECTORIES_API_URL || "/api/directories";
+export const COMBINED_SEARCH_URL =
+  process.env.REACT_APP_COMBINED_SEARCH_URL || "/api/search";
+
+/** Адреса данных одного справочника. */
+export interface DirectoryUrls {
+  handbook: string;
+  employees: string;
+  orgChart: string;
+}
+
+/**
+ * Адреса API справочника. Основной справочник (slug = null) читается
+ * по прежним адресам, остальные — через /api/directories/<slug>.
+ * @param slug - Адрес справочника или null для основного.
+ */
+export const directoryUrls = (slug: string | null): DirectoryUrls => {
+  if (slug === null) {
+    return {
+      handbook: API_URL,
+      employees: EMPLOYEES_API_URL,
+      orgChart: ORGCHART_API_URL,
+    };
+  }
+  const base = `${DIRECTORIES_API_URL}/${encodeURIComponent(slug)}`;
+  return {
+    handbook: `${base}/handbook`,
+    employees: `${base}/employees`,
+    orgChart: `${base}/orgchart`,
+  };
+};
+
+/**
+ * Строит адрес выгрузки справочника с учётом строки поиска.
+ * @param file - Имя выгрузки (vcard, office.csv, cabinets.csv, phonebook.html).
+ * @param params - Параметры запроса; пустые значения отбрасываются.
+ * @param handbookUrl - Адрес справочника, по умолчанию основного.
+ */
+export const buildExportUrl = (
+  file: string,
+  params: Record<string, string> = {},
+  handbookUrl: string = API_URL
+): string => {
+  const query = new URLSearchParams(
+    Object.entries(params).filter(([, value]) => value)
+  ).toString();
+  return `${handbookUrl}/export/${file}${query ? `?${query}` : ""}`;
+};
@@ -0,0 +1,276 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import localforage from "localforage";
+import { translate } from "./i18n";
+import { Cabinet, OfficeEmployee } from "./types";
+
+const FAVOURITES_KEY = "handbook_favourites";
+const EXPORT_FORMAT = "handbook-favourites";
+const EXPORT_VERSION = 1;
+
+export type FavouriteKind = "employee" | "cabinet";
+
+/** Запись в избранном. */
+export interface FavouriteEntry {
+  kind: FavouriteKind;
+  id: string;
+  /**
+   * ФИО сотрудника или «город, адрес» кабинета на момент добавления.
+   * По нему запись находится снова, если её ID в справочнике изменился,
+   * и он же показывается, если записи в справочнике больше нет.
+   */
+  label: string;
+}
+
+/** Избранное по справочникам; ключ "" — основной справочник. */
+type FavouritesByDirectory = Record<string, FavouriteEntry[]>;
+
+/** Файл с избранным для переноса в другой браузер. */
+interface FavouritesFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  directories: FavouritesByDirectory;
+}
+
+/** Избранное, сопоставленное с текущими данными справочника. */
+export interface ResolvedFavourites {
+  employees: OfficeEmployee[];
+  cabinets: Cabinet[];
+  /** Записи, которых нет в справочнике. */
+  missing: FavouriteEntry[];
+}
+
+export const employeeLabel = (employee: OfficeEmployee) => employee.fullName;
+
+export const cabinetLabel = (cabinet: Cabinet) =>
+  [cabinet.city, cabinet.address].filter(Boolean).join(", ");
+
+const normalizeLabel = (value: string) =>
+  value.toLowerCase().replace(/ё/g, "е").replace(/\s+/g, " ").trim();
+
+const persist = (value: FavouritesByDirectory) =>
+  localforage
+    .setItem(FAVOURITES_KEY, value)
+    .catch((e) => console.warn("Не удалось сохранить избранное:", e));
+
+const isFavouriteEntry = (value: any): value is FavouriteEntry =>
+  !!value &&
+  (value.kind === "employee" || value.kind === "cabinet") &&
+  typeof value.id === "string" &&
+  typeof value.label === "string";
+
+/**
+ * Находит записи избранного в справочнике: сначала по ID, затем по
+ * названию, если с таким названием ровно одна запись.
+ * @returns Найденные записи в порядке избранного и замены для записей,
+ * у которых изменился ID или название.
+ */
+function matchEntries<T extends { id: string }>(
+  entries: FavouriteEntry[],
+  records: T[],
+  label: (record: T) => string
+): {
+  found: T[];
+  missing: FavouriteEntry[];
+  updated: Map<FavouriteEntry, FavouriteEntry>;
+} {
+  const byId = new Map(records.map((record) => [record.id, record]));
+  const byLabel = new Map<string, T[]>();
+  records.forEach((record) => {
+    const key = normalizeLabel(label(record));
+    byLabel.set(key, [...(byLabel.get(key) || []), record]);
+  });
+
+  const found: T[] = [];
+  const missing: FavouriteEntry[] = [];
+  const updated = new Map<FavouriteEntry, FavouriteEntry>();
+  entries.forEach((entry) => {
+    const sameLabel = byLabel.get(normalizeLabel(entry.label)) || [];
+    const record =
+      byId.get(entry.id) || (sameLabel.length === 1 ? sameLabel[0] : null);
+    if (!record) {
+      missing.push(entry);
+      return;
+    }
+    found.push(record);
+    if (record.id !== entry.id || label(record) !== entry.label) {
+      updated.set(entry, { ...entry, id: record.id, label: label(record) });
+    }
+  });
+  return { found, missing, updated };
+}
+
+/**
+ * Читает файл, сохранённый exportFavourites.
+ * @throws Error, если файл не похож на файл избранного.
+ */
+async function readFavouritesFile(file: File): Promise<FavouritesByDirectory> {
+  let parsed: Partial<FavouritesFile>;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error(translate("favourites.invalidFile"));
+  }
+  if (parsed?.format !== EXPORT_FORMAT || !parsed.directories) {
+    throw new Error(translate("favourites.invalidFile"));
+  }
+  if (typeof parsed.version !== "number" || parsed.version > EXPORT_VERSION) {
+    throw new Error(translate("favourites.newerFile"));
+  }
+  return Object.fromEntries(
+    Object.entries(parsed.directories).map(([slug, entries]) => [
+      slug,
+      Array.isArray(entries) ? entries.filter(isFavouriteEntry) : [],
+    ])
+  );
+}
+
+/**
+ * Избранные сотрудники и кабинеты. Хранятся в localforage отдельно для
+ * каждого справочника и сопоставляются с данными по ID, который не
+ * меняется при обновлении справочника. Если ID всё же изменился
+ * (например, в книге появилась колонка ID), запись находится по ФИО
+ * или адресу, и новый ID сохраняется.
+ * @param directorySlug - Текущий справочник; null — основной.
+ * @param employees - Сотрудники текущего справочника.
+ * @param cabinets - Кабинеты текущего справочника.
+ */
+export function useFavourites(
+  directorySlug: string | null,
+  employees: OfficeEmployee[],
+  cabinets: Cabinet[]
+) {
+  const [favourites, setFavourites] = useState<FavouritesByDirectory>({});
+  // Последнее сохранённое состояние: импорт дописывает к нему после await
+  const favouritesRef = useRef(favourites);
+  const directoryKey = directorySlug ?? "";
+  const entries = useMemo(
+    () => favourites[directoryKey] || [],
+    [favourites, directoryKey]
+  );
+
+  useEffect(() => {
+    localforage
+      .getItem<FavouritesByDirectory>(FAVOURITES_KEY)
+      .then((stored) => {
+        if (!stored) return;
+        favouritesRef.current = stored;
+        setFavourites(stored);
+      })
+      .catch((e) => console.warn("Не удалось прочитать избранное:", e));
+  }, []);
+
+  const store = useCallback((all: FavouritesByDirectory) => {
+    favouritesRef.current = all;
+    setFavourites(all);
+    persist(all);
+  }, []);
+
+  const update = useCallback(
+    (next: FavouriteEntry[]) =>
+      store({ ...favouritesRef.current, [directoryKey]: next }),
+    [store, directoryKey]
+  );
+
+  const { resolved, updated } = useMemo<{
+    resolved: ResolvedFavourites;
+    updated: Map<FavouriteEntry, FavouriteEntry>;
+  }>(() => {
+    const kind = (k: FavouriteKind) => entries.filter((e) => e.kind === k);
+    const office = matchEntries(kind("employee"), employees, employeeLabel);
+    const rooms = matchEntries(kind("cabinet"), cabinets, cabinetLabel);
+    return {
+      resolved: {
+        employees: office.found,
+        cabinets: rooms.found,
+        missing: [...office.missing, ...rooms.missing],
+      },
+      updated: new Map([...office.updated, ...rooms.updated]),
+    };
+  }, [entries, employees, cabinets]);
+
+  // Новые ID и названия запоминаются; если две записи указали
+  // на одну и ту же, остаётся первая
+  useEffect(() => {
+    if (updated.size === 0) return;
+    const seen = new Set<string>();
+    update(
+      entries
+        .map((entry) => updated.get(entry) ?? entry)
+        .filter((entry) => {
+          const key = `${entry.kind}:${entry.id}`;
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        })
+    );
+  }, [updated, entries, update]);
+
+  const isFavourite = useCallback(
+    (kind: FavouriteKind, id: string) =>
+      entries.some((entry) => entry.kind === kind && entry.id === id),
+    [entries]
+  );
+
+  /** Добавляет запись в избранное или убирает её оттуда. */
+  const toggleFavourite = useCallback(
+    (kind: FavouriteKind, id: string, label: string) =>
+      update(
+        isFavourite(kind, id)
+          ? entries.filter((e) => !(e.kind === kind && e.id === id))
+          : [...entries, { kind, id, label }]
+      ),
+    [entries, isFavourite, update]
+  );
+
+  /** Скачивает избранное всех справочников файлом JSON. */
+  const exportFavourites = useCallback(() => {
+    const file: FavouritesFile = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      directories: favouritesRef.current,
+    };
+    const url = URL.createObjectURL(
+      new Blob([JSON.stringify(file, null, 2)], { type: "application/json" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "favourites.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  /**
+   * Добавляет к избранному записи из файла; уже добавленные не дублируются.
+   * @returns Количество новых записей.
+   * @throws Error, если файл не удалось прочитать.
+   */
+  const importFavourites = useCallback(
+    async (file: File) => {
+      const imported = await readFavouritesFile(file);
+      const all = { ...favouritesRef.current };
+      let added = 0;
+      Object.entries(imported).forEach(([slug, list]) => {
+        const current = all[slug] || [];
+        const fresh = list.filter(
+          (entry) =>
+            !current.some((e) => e.kind === entry.kind && e.id === entry.id)
+        );
+        added += fresh.length;
+        all[slug] = [...current, ...fresh];
+      });
+      store(all);
+      return added;
+    },
+    [store]
+  );
+
+  return {
+    favourites: resolved,
+    isFavourite,
+    toggleFavourite,
+    exportFavourites,
+    importFavourites,
+  };
+}
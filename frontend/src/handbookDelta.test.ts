@@ -0,0 +1,52 @@
+import { applyDatasetDelta } from "./handbookDelta";
+
+interface Row {
+  id: string;
+  phone: string;
+}
+
+const a: Row = { id: "a", phone: "101" };
+const b: Row = { id: "b", phone: "102" };
+const c: Row = { id: "c", phone: "103" };
+
+test("применяет добавления, удаления и изменения", () => {
+  const changed = { id: "b", phone: "112" };
+
+  const result = applyDatasetDelta([a, b, c], {
+    added: [{ id: "d", phone: "104" }],
+    removed: [c],
+    changed: [{ before: b, after: changed }],
+  });
+
+  expect(result).toEqual([a, changed, { id: "d", phone: "104" }]);
+});
+
+test("сопоставляет записи по всем полям, а не по ссылке", () => {
+  const result = applyDatasetDelta([a, b], {
+    added: [],
+    removed: [{ ...a }],
+    changed: [],
+  });
+
+  expect(result).toEqual([b]);
+});
+
+test("добавляет изменённую запись, которой нет в кэше", () => {
+  const after = { id: "c", phone: "113" };
+
+  const result = applyDatasetDelta([a], {
+    added: [],
+    removed: [],
+    changed: [{ before: c, after }],
+  });
+
+  expect(result).toEqual([a, after]);
+});
+
+test("не меняет исходный список", () => {
+  const items = [a, b];
+
+  applyDatasetDelta(items, { added: [c], removed: [a], changed: [] });
+
+  expect(items).toEqual([a, b]);
+});
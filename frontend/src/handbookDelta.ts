@@ -0,0 +1,42 @@
+import { Cabinet, Department, OfficeEmployee } from "./types";
+
+/** Изменения одного набора записей между версиями справочника. */
+export interface DatasetDelta<T> {
+  added: T[];
+  removed: T[];
+  changed: { before: T; after: T }[];
+}
+
+/** Ответ /handbook/changes: изменения с версии from до версии to. */
+export interface HandbookDelta {
+  from: number;
+  to: number;
+  office: DatasetDelta<OfficeEmployee>;
+  cabinets: DatasetDelta<Cabinet>;
+  departments: DatasetDelta<Department>;
+}
+
+// Записи содержат вложенные разобранные номера, поэтому сравниваются целиком
+const isSameRecord = <T extends object>(a: T, b: T): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Применяет к списку записей дельту, полученную с сервера.
+ * Записи сопоставляются по совпадению всех полей.
+ */
+export const applyDatasetDelta = <T extends object>(
+  items: T[],
+  delta: DatasetDelta<T>
+): T[] => {
+  const result = [...items];
+  delta.removed.forEach((removed) => {
+    const index = result.findIndex((item) => isSameRecord(item, removed));
+    if (index !== -1) result.splice(index, 1);
+  });
+  delta.changed.forEach(({ before, after }) => {
+    const index = result.findIndex((item) => isSameRecord(item, before));
+    if (index !== -1) result[index] = after;
+    else result.push(after);
+  });
+  return [...result, ...delta.added];
+};
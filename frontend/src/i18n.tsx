@@ -0,0 +1,173 @@
+// Язык интерфейса справочника: строки, форматы дат и английские ФИО
+// и должности из книги. Выбор языка хранится в localforage.
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import localforage from "localforage";
+import { Locale, format } from "date-fns";
+import { enGB, ru as ruLocale } from "date-fns/locale";
+import ru, { MessageKey } from "./locales/ru";
+import en from "./locales/en";
+import { OfficeEmployee } from "./types";
+
+export type Language = "ru" | "en";
+export type { MessageKey };
+
+/** Языки в переключателе: название каждого — на нём самом. */
+export const LANGUAGES: { code: Language; name: string }[] = [
+  { code: "ru", name: "Русский" },
+  { code: "en", name: "English" },
+];
+
+/** Форматы дат интерфейса. */
+export type DateStyle =
+  | "dayMonth"
+  | "time"
+  | "date"
+  | "dateTime"
+  | "dateTimeSeconds";
+
+const LANGUAGE_KEY = "handbook_language";
+const BUNDLES: Record<Language, Record<MessageKey, string>> = { ru, en };
+// Английский интерфейс — с британскими датами: день перед месяцем
+// и 24-часовое время
+const DATE_LOCALES: Record<Language, Locale> = { ru: ruLocale, en: enGB };
+const DATE_FORMATS: Record<Language, Record<DateStyle, string>> = {
+  ru: {
+    dayMonth: "dd.MM",
+    time: "HH:mm",
+    date: "dd.MM.yyyy",
+    dateTime: "dd.MM.yyyy HH:mm",
+    dateTimeSeconds: "dd.MM.yyyy HH:mm:ss",
+  },
+  en: {
+    dayMonth: "d MMM",
+    time: "HH:mm",
+    date: "d MMM yyyy",
+    dateTime: "d MMM yyyy, HH:mm",
+    dateTimeSeconds: "d MMM yyyy, HH:mm:ss",
+  },
+};
+
+/** Язык браузера, если он поддерживается; иначе русский. */
+const browserLanguage = (): Language =>
+  navigator.language?.toLowerCase().startsWith("en") ? "en" : "ru";
+
+// Текущий язык для кода вне компонентов: сообщений об ошибках
+// в функциях загрузки и заголовка Accept-Language
+let currentLanguage: Language = browserLanguage();
+
+/** Текущий язык интерфейса. */
+export const getLanguage = (): Language => currentLanguage;
+
+/**
+ * Строка интерфейса на указанном языке с подставленными значениями.
+ * @param params - Значения для {name} в строке.
+ */
+const translateTo = (
+  language: Language,
+  key: MessageKey,
+  params?: Record<string, string | number>
+): string =>
+  BUNDLES[language][key].replace(/\{(\w+)\}/g, (match, name) =>
+    params && name in params ? String(params[name]) : match
+  );
+
+/**
+ * Строка интерфейса на текущем языке. В компонентах используется
+ * useTranslation, чтобы они перерисовывались при смене языка.
+ */
+export const translate = (
+  key: MessageKey,
+  params?: Record<string, string | number>
+) => translateTo(currentLanguage, key, params);
+
+/**
+ * Группа сотрудников без отдела, как её называет сервер в структуре
+ * и выгрузках. На экран выводится перевод department.none.
+ */
+export const NO_DEPARTMENT = "Без отдела";
+
+/** ФИО сотрудника на языке интерфейса; без перевода — как в книге. */
+export const localizedName = (employee: OfficeEmployee, language: Language) =>
+  (language === "en" && employee.fullNameEn) || employee.fullName;
+
+/** Должность сотрудника на языке интерфейса. */
+export const localizedPosition = (
+  employee: OfficeEmployee,
+  language: Language
+) => (language === "en" && employee.positionEn) || employee.position;
+
+interface I18nContextValue {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  /** Дата в формате языка интерфейса. */
+  formatDate: (date: Date | number, style: DateStyle) => string;
+}
+
+const contextValue = (
+  language: Language,
+  setLanguage: (language: Language) => void
+): I18nContextValue => ({
+  language,
+  setLanguage,
+  t: (key, params) => translateTo(language, key, params),
+  formatDate: (date, style) =>
+    format(date, DATE_FORMATS[language][style], {
+      locale: DATE_LOCALES[language],
+    }),
+});
+
+// Без LanguageProvider интерфейс остаётся на русском
+const I18nContext = createContext<I18nContextValue>(
+  contextValue("ru", () => undefined)
+);
+
+/**
+ * Делает язык доступным компонентам. Пока сохранённый выбор читается,
+ * используется язык браузера.
+ */
+export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [language, setLanguageState] = useState<Language>(currentLanguage);
+
+  useEffect(() => {
+    localforage
+      .getItem<Language>(LANGUAGE_KEY)
+      .then((stored) => {
+        if (stored && stored in BUNDLES) setLanguageState(stored);
+      })
+      .catch((e) => console.warn("Не удалось прочитать выбор языка:", e));
+  }, []);
+
+  useEffect(() => {
+    currentLanguage = language;
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = useCallback((next: Language) => {
+    setLanguageState(next);
+    localforage
+      .setItem(LANGUAGE_KEY, next)
+      .catch((e) => console.warn("Не удалось сохранить выбор языка:", e));
+  }, []);
+
+  const value = useMemo(
+    () => contextValue(language, setLanguage),
+    [language, setLanguage]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+/** Язык интерфейса и функции перевода. */
+export function useTranslation(): I18nContextValue {
+  return useContext(I18nContext);
+}
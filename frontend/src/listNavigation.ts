@@ -0,0 +1,112 @@
+import React from "react";
+
+// Разметка списка, по которой работает навигация с клавиатуры:
+// data-nav-item — элемент, между которыми переходят стрелки;
+// data-nav-department — заголовок отдела (с aria-expanded);
+// data-nav-employee и data-nav-number — сотрудник и номер строки.
+const ITEM_SELECTOR = "[data-nav-item]";
+const DEPARTMENT_SELECTOR = "[data-nav-department]";
+
+export interface ListNavigationActions {
+  /** Раскрывает или сворачивает отдел. */
+  onToggleDepartment: (department: string) => void;
+  /** Открывает карточку сотрудника. */
+  onOpenEmployee: (id: string) => void;
+  /** Копирует номер строки в буфер обмена. */
+  onCopyNumber: (number: string) => void;
+}
+
+/**
+ * Элементы, доступные стрелкам: строки свёрнутых отделов скрыты
+ * (visibility: hidden) и пропускаются.
+ */
+const visibleItems = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLElement>(ITEM_SELECTOR)).filter(
+    (item) => getComputedStyle(item).visibility !== "hidden"
+  );
+
+const hasTextSelection = () => !!window.getSelection()?.toString();
+
+/**
+ * Обрабатывает клавиши в списке отделов и строк, по образцу дерева ARIA:
+ * ↑/↓ — соседний элемент, Home/End — первый и последний, → раскрывает
+ * отдел или переходит к его первой строке, ← сворачивает отдел или
+ * возвращает к заголовку, Enter открывает карточку, Ctrl+C копирует номер.
+ * Клавиши внутри ссылок и кнопок строки остаются им.
+ * @param event - Событие keydown контейнера списка.
+ */
+export function handleListKeyDown(
+  event: React.KeyboardEvent<HTMLElement>,
+  actions: ListNavigationActions
+) {
+  const item = event.target as HTMLElement;
+  if (!item.matches(ITEM_SELECTOR)) return;
+
+  const items = visibleItems(event.currentTarget);
+  const index = items.indexOf(item);
+  const department = item.dataset.navDepartment;
+  const expanded = item.getAttribute("aria-expanded") === "true";
+
+  const focusItem = (target: HTMLElement | null | undefined) => {
+    if (!target) return;
+    event.preventDefault();
+    target.focus();
+  };
+
+  // По коду клавиши, чтобы Ctrl+C работал и в русской раскладке.
+  // Выделенный текст копируется как обычно
+  if (
+    (event.ctrlKey || event.metaKey) &&
+    event.code === "KeyC" &&
+    item.dataset.navNumber &&
+    !hasTextSelection()
+  ) {
+    event.preventDefault();
+    actions.onCopyNumber(item.dataset.navNumber);
+    return;
+  }
+
+  switch (event.key) {
+    case "ArrowDown":
+      focusItem(items[index + 1]);
+      break;
+    case "ArrowUp":
+      focusItem(items[index - 1]);
+      break;
+    case "Home":
+      focusItem(items[0]);
+      break;
+    case "End":
+      focusItem(items[items.length - 1]);
+      break;
+    case "ArrowRight":
+      if (department === undefined) break;
+      if (expanded) {
+        focusItem(items[index + 1]);
+      } else {
+        event.preventDefault();
+        actions.onToggleDepartment(department);
+      }
+      break;
+    case "ArrowLeft":
+      if (department !== undefined) {
+        if (expanded) {
+          event.preventDefault();
+          actions.onToggleDepartment(department);
+        }
+      } else {
+        focusItem(
+          item
+            .closest(".department-group")
+            ?.querySelector<HTMLElement>(DEPARTMENT_SELECTOR)
+        );
+      }
+      break;
+    case "Enter":
+      if (item.dataset.navEmployee) {
+        event.preventDefault();
+        actions.onOpenEmployee(item.dataset.navEmployee);
+      }
+      break;
+  }
+}
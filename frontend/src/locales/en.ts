@@ -0,0 +1,131 @@
+import { MessageKey } from "./ru";
+
+// Строки интерфейса справочника на английском
+const en: Record<MessageKey, string> = {
+  "handbook.title": "Corporate Directory",
+  "handbook.directory": "Directory",
+  "handbook.language": "Interface language",
+
+  "search.placeholder": "Search all fields...",
+  "search.save": "Save search",
+  "search.saveTitle": "Save the search, tab and expanded departments",
+  "search.namePrompt": "Search name:",
+  "search.clear": "Clear search",
+
+  "export.vcardTitle": "Download contacts for your phone or mail (vCard)",
+  "export.csvTitle": "Download a spreadsheet for Excel (CSV)",
+  "export.print": "Print",
+  "export.printTitle": "Printable directory (can be saved as PDF)",
+  "export.departmentTitle": "Download department contacts (vCard)",
+
+  "status.checking": "Checking data...",
+  "status.loading": "Loading data...",
+  "status.updating": "Updating data...",
+  "status.loaded": "Data loaded successfully.",
+  "status.offlineNoCache": "No connection to the server and no local cache.",
+  "status.staleCache":
+    "Loaded from cache ({hours}h ago, refreshing is recommended).",
+  "status.cached": "Loaded from cache.",
+  "status.updatedAt": "Directory updated at {time}",
+  "status.dismiss": "Dismiss notification",
+  "status.alsoFound": "Also found:",
+  "status.lastUpdated": "Updated: {time}",
+
+  "error.fetch": "Failed to get data",
+  "error.search": "Search failed",
+  "error.unknown": "Unknown error",
+
+  "nav.quality": "Data check",
+  "nav.admin": "Administration",
+
+  "tab.office": "Staff",
+  "tab.cabinets": "Rooms",
+  "tab.favourites": "Favourites",
+  "tab.changes": "Changes",
+  "tab.orgchart": "Org chart",
+
+  "table.nameAndPosition": "Name / Position",
+  "table.department": "Department",
+  "table.internalNumber": "Extension",
+  "table.generalNumber": "Main number",
+  "table.city": "City",
+  "table.address": "Address",
+
+  "results.nothingFound": "Nothing matches your search.",
+  "results.noData": "No data to display.",
+  "results.found": "Employees found: {office}, rooms: {cabinets}.",
+
+  "department.none": "No department",
+  "department.generalNumber": "Main number:",
+  "department.head": "Head: {name}",
+  "department.pin": "Pin department",
+  "department.unpin": "Unpin department",
+
+  "quickFilters.open": "Open department",
+  "quickFilters.unpin": "Unpin department “{name}”",
+  "quickFilters.remove": "Remove saved search “{name}”",
+
+  "favourites.add": "Add to favourites",
+  "favourites.remove": "Remove from favourites",
+  "favourites.addLabel": "Add “{label}” to favourites",
+  "favourites.removeLabel": "Remove “{label}” from favourites",
+  "favourites.added": "Entries added: {count}.",
+  "favourites.nothingAdded":
+    "All entries from the file are already in favourites.",
+  "favourites.importFailed": "Failed to load the file.",
+  "favourites.export": "Export",
+  "favourites.exportTitle":
+    "Save favourites to a file to move them to another browser",
+  "favourites.import": "Import",
+  "favourites.importTitle": "Add entries from a favourites file",
+  "favourites.empty": "Employees and rooms marked with a ☆ will appear here.",
+  "favourites.missing": "These entries are no longer in the directory:",
+  "favourites.invalidFile": "The file is not a favourites file.",
+  "favourites.newerFile":
+    "The file was saved by a newer version of the directory. Reload the page.",
+
+  "absence.vacation": "on vacation",
+  "absence.sick-leave": "on sick leave",
+  "absence.business-trip": "on a business trip",
+  "absence.until": "until {date}",
+  "absence.substitute": ", covered by",
+
+  "dial.pickUp": "Pick up the phone at {number}",
+  "dial.failed": "The call failed",
+  "dial.title": "Call from your own phone via the PBX",
+  "dial.label": "Call {number} via the PBX",
+
+  "changes.joined": "New employee:",
+  "changes.left": "Left the directory:",
+  "changes.moved": "Moved to another department:",
+  "changes.renamed": "Name changed:",
+  "changes.positionChanged": "New position:",
+  "changes.internalNumberChanged": "Extension changed:",
+  "changes.generalNumberChanged": "Main number changed:",
+  "changes.numberChanged": "Number changed:",
+  "changes.cabinetAdded": "New room:",
+  "changes.cabinetRemoved": "Room removed:",
+  "changes.cabinetNumberChanged": "Room number changed",
+  "changes.loadFailed": "Failed to load the change history",
+  "changes.empty": "No changes yet.",
+  "changes.more": "Show more",
+
+  "orgchart.expand": "Expand",
+  "orgchart.collapse": "Collapse",
+  "orgchart.loadFailed": "Failed to load the org chart",
+  "orgchart.issues": "Org chart issues: {count}",
+  "orgchart.empty": "The directory has no employees.",
+
+  "card.close": "Close card",
+  "card.loading": "Loading...",
+  "card.notFound": "Employee not found.",
+  "card.linkCopied": "Link copied",
+  "card.copyLink": "Copy link",
+  "card.vcard": "Download vCard",
+  "card.colleagues": "Colleagues in the department",
+  "card.noColleagues": "No other employees in the department.",
+
+  "keyboard.numberCopied": "Number {number} copied",
+};
+
+export default en;
@@ -0,0 +1,132 @@
+// Строки интерфейса справочника на русском. Ключи общие для всех языков:
+// en.ts обязан перевести каждый. {name} — подставляемое значение.
+const ru = {
+  "handbook.title": "Корпоративный Справочник",
+  "handbook.directory": "Справочник",
+  "handbook.language": "Язык интерфейса",
+
+  "search.placeholder": "Поиск по всем полям...",
+  "search.save": "Сохранить поиск",
+  "search.saveTitle": "Сохранить поиск, вкладку и раскрытые отделы",
+  "search.namePrompt": "Название поиска:",
+  "search.clear": "Очистить поиск",
+
+  "export.vcardTitle": "Скачать контакты для телефона или почты (vCard)",
+  "export.csvTitle": "Скачать таблицу для Excel (CSV)",
+  "export.print": "Печать",
+  "export.printTitle": "Печатная версия справочника (можно сохранить в PDF)",
+  "export.departmentTitle": "Скачать контакты отдела (vCard)",
+
+  "status.checking": "Проверка данных...",
+  "status.loading": "Загрузка данных...",
+  "status.updating": "Обновление данных...",
+  "status.loaded": "Данные успешно загружены.",
+  "status.offlineNoCache": "Нет подключения к серверу и нет локального кэша.",
+  "status.staleCache":
+    "Загружены данные из кэша ({hours}ч назад, рекомендуется обновить).",
+  "status.cached": "Данные загружены из кэша.",
+  "status.updatedAt": "Справочник обновлён в {time}",
+  "status.dismiss": "Скрыть уведомление",
+  "status.alsoFound": "Также найдено:",
+  "status.lastUpdated": "Обновлено: {time}",
+
+  "error.fetch": "Ошибка получения данных",
+  "error.search": "Ошибка поиска",
+  "error.unknown": "Неизвестная ошибка",
+
+  "nav.quality": "Проверка данных",
+  "nav.admin": "Администрирование",
+
+  "tab.office": "Офис",
+  "tab.cabinets": "Кабинеты",
+  "tab.favourites": "Избранное",
+  "tab.changes": "Изменения",
+  "tab.orgchart": "Структура",
+
+  "table.nameAndPosition": "ФИО / Должность",
+  "table.department": "Отдел",
+  "table.internalNumber": "Внутренний номер",
+  "table.generalNumber": "Общий номер",
+  "table.city": "Город",
+  "table.address": "Адрес",
+
+  "results.nothingFound": "По вашему запросу ничего не найдено.",
+  "results.noData": "Нет данных для отображения.",
+  "results.found": "Найдено сотрудников: {office}, кабинетов: {cabinets}.",
+
+  "department.none": "Без отдела",
+  "department.generalNumber": "Общий номер:",
+  "department.head": "Руководитель: {name}",
+  "department.pin": "Закрепить отдел",
+  "department.unpin": "Открепить отдел",
+
+  "quickFilters.open": "Открыть отдел",
+  "quickFilters.unpin": "Открепить отдел «{name}»",
+  "quickFilters.remove": "Удалить сохранённый поиск «{name}»",
+
+  "favourites.add": "Добавить в избранное",
+  "favourites.remove": "Убрать из избранного",
+  "favourites.addLabel": "Добавить «{label}» в избранное",
+  "favourites.removeLabel": "Убрать «{label}» из избранного",
+  "favourites.added": "Добавлено записей: {count}.",
+  "favourites.nothingAdded": "Все записи из файла уже есть в избранном.",
+  "favourites.importFailed": "Не удалось загрузить файл.",
+  "favourites.export": "Выгрузить",
+  "favourites.exportTitle":
+    "Сохранить избранное в файл, чтобы перенести в другой браузер",
+  "favourites.import": "Загрузить",
+  "favourites.importTitle": "Добавить записи из файла избранного",
+  "favourites.empty":
+    "Здесь появятся сотрудники и кабинеты, отмеченные звёздочкой ☆.",
+  "favourites.missing": "Этих записей больше нет в справочнике:",
+  "favourites.invalidFile": "Файл не является файлом избранного.",
+  "favourites.newerFile":
+    "Файл сохранён более новой версией справочника. Обновите страницу.",
+
+  "absence.vacation": "в отпуске",
+  "absence.sick-leave": "на больничном",
+  "absence.business-trip": "в командировке",
+  "absence.until": "до {date}",
+  "absence.substitute": ", замещает",
+
+  "dial.pickUp": "Снимите трубку телефона {number}",
+  "dial.failed": "Не удалось позвонить",
+  "dial.title": "Позвонить со своего телефона через АТС",
+  "dial.label": "Позвонить на номер {number} через АТС",
+
+  "changes.joined": "Новый сотрудник:",
+  "changes.left": "Покинул справочник:",
+  "changes.moved": "Перевод в другой отдел:",
+  "changes.renamed": "Смена ФИО:",
+  "changes.positionChanged": "Новая должность:",
+  "changes.internalNumberChanged": "Сменился внутренний номер:",
+  "changes.generalNumberChanged": "Сменился общий номер:",
+  "changes.numberChanged": "Сменился номер:",
+  "changes.cabinetAdded": "Новый кабинет:",
+  "changes.cabinetRemoved": "Кабинет удалён:",
+  "changes.cabinetNumberChanged": "Сменился номер кабинета",
+  "changes.loadFailed": "Не удалось загрузить историю изменений",
+  "changes.empty": "Изменений пока не было.",
+  "changes.more": "Показать ещё",
+
+  "orgchart.expand": "Развернуть",
+  "orgchart.collapse": "Свернуть",
+  "orgchart.loadFailed": "Не удалось загрузить структуру",
+  "orgchart.issues": "Замечаний к структуре: {count}",
+  "orgchart.empty": "В справочнике нет сотрудников.",
+
+  "card.close": "Закрыть карточку",
+  "card.loading": "Загрузка...",
+  "card.notFound": "Сотрудник не найден.",
+  "card.linkCopied": "Ссылка скопирована",
+  "card.copyLink": "Скопировать ссылку",
+  "card.vcard": "Скачать vCard",
+  "card.colleagues": "Коллеги из отдела",
+  "card.noColleagues": "В отделе нет других сотрудников.",
+
+  "keyboard.numberCopied": "Номер {number} скопирован",
+};
+
+export type MessageKey = keyof typeof ru;
+
+export default ru;
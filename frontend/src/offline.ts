@@ -0,0 +1,115 @@
+// Работа без сети: регистрация service worker и уведомления от него.
+// Модуль используется и страницей, и самим service worker.
+
+/** Кэш service worker с ответами /api/handbook. */
+export const HANDBOOK_CACHE_NAME = "handbook-data";
+/** Кэш service worker с карточками сотрудников и структурой. */
+export const DETAILS_CACHE_NAME = "handbook-details";
+/** Кэш service worker с фотографиями сотрудников. */
+export const PHOTOS_CACHE_NAME = "handbook-photos";
+/**
+ * Ключ справочника в localforage. У справочника из каталога к нему
+ * добавляется «:slug», у роли, отличной от anonymous, — «@роль».
+ * Версия в ключе меняется вместе с форматом записей в кэше.
+ */
+export const DATA_CACHE_KEY = "handbook_data_cache_v9";
+
+/**
+ * Через сколько часов закэшированный справочник считается устаревшим.
+ * Задаётся переменной REACT_APP_MAX_CACHE_AGE_HOURS при сборке.
+ */
+export const MAX_CACHE_AGE_HOURS =
+  Number(process.env.REACT_APP_MAX_CACHE_AGE_HOURS) || 12;
+
+// Адрес, с которого обслуживается приложение (homepage в package.json)
+const PUBLIC_URL = process.env.PUBLIC_URL || "";
+// Сообщение, которое рассылает BroadcastUpdatePlugin из workbox
+const BROADCAST_UPDATE_META = "workbox-broadcast-update";
+
+interface RegisterOptions {
+  /** Вызывается, когда установлена новая версия приложения. */
+  onUpdate?: (registration: ServiceWorkerRegistration) => void;
+}
+
+/**
+ * Регистрирует service worker. В режиме разработки не делает ничего:
+ * кэш сборки мешал бы перезагрузке изменённых файлов.
+ */
+export function registerServiceWorker(options: RegisterOptions = {}): void {
+  if (
+    process.env.NODE_ENV !== "production" ||
+    !("serviceWorker" in navigator)
+  ) {
+    return;
+  }
+  // Service worker работает только на своём домене
+  const publicUrl = new URL(PUBLIC_URL || "/", window.location.href);
+  if (publicUrl.origin !== window.location.origin) return;
+
+  window.addEventListener("load", async () => {
+    try {
+      const registration = await navigator.serviceWorker.register(
+        `${PUBLIC_URL}/service-worker.js`
+      );
+      registration.addEventListener("updatefound", () => {
+        const installing = registration.installing;
+        if (!installing) return;
+        installing.addEventListener("statechange", () => {
+          // Без controller это первая установка, а не обновление
+          if (
+            installing.state === "installed" &&
+            navigator.serviceWorker.controller
+          ) {
+            options.onUpdate?.(registration);
+          }
+        });
+      });
+    } catch (error) {
+      console.error("Ошибка регистрации service worker:", error);
+    }
+  });
+}
+
+/**
+ * Удаляет ответы справочника и фотографии из кэша service worker. Нужно
+ * при смене роли: в кэше данные, которые видела прежняя роль.
+ * Копии справочника в localforage удаляет clearRoleData из session.ts:
+ * этот модуль входит в service worker, и localforage ему не нужен.
+ */
+export async function clearDataCaches(): Promise<void> {
+  if (typeof caches === "undefined") return;
+  await Promise.all(
+    [HANDBOOK_CACHE_NAME, DETAILS_CACHE_NAME, PHOTOS_CACHE_NAME].map((name) =>
+      caches.delete(name)
+    )
+  );
+}
+
+/**
+ * Подписывается на сообщения service worker о том, что в кэше появилась
+ * более свежая версия справочника.
+ * @param url - Адрес данных справочника.
+ * @param onUpdate - Вызывается при каждом обновлении.
+ * @returns Функция отписки.
+ */
+export function subscribeToHandbookUpdates(
+  url: string,
+  onUpdate: () => void
+): () => void {
+  if (!("serviceWorker" in navigator)) return () => {};
+  const handbookUrl = new URL(url, window.location.href).href;
+
+  const handleMessage = (event: MessageEvent) => {
+    const { meta, payload } = event.data || {};
+    if (
+      meta === BROADCAST_UPDATE_META &&
+      payload?.cacheName === HANDBOOK_CACHE_NAME &&
+      payload?.updatedURL === handbookUrl
+    ) {
+      onUpdate();
+    }
+  };
+  navigator.serviceWorker.addEventListener("message", handleMessage);
+  return () =>
+    navigator.serviceWorker.removeEventListener("message", handleMessage);
+}
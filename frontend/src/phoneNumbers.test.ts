@@ -0,0 +1,41 @@
+import {
+  formatPhones,
+  matchesPhoneDigits,
+  phoneQueryDigits,
+} from "./phoneNumbers";
+import { PhoneNumber } from "./types";
+
+const city: PhoneNumber = {
+  raw: "8 495 123-45-67",
+  e164: "+74951234567",
+  extension: null,
+  formatted: "+7 (495) 123-45-67",
+};
+const internal: PhoneNumber = {
+  raw: "101",
+  e164: null,
+  extension: "101",
+  formatted: "101",
+};
+
+test("phoneQueryDigits выделяет цифры из запроса, похожего на номер", () => {
+  expect(phoneQueryDigits(" +7 (495) 123-45 ")).toBe("749512345");
+  expect(phoneQueryDigits("10")).toBe("10");
+  expect(phoneQueryDigits("1")).toBeNull();
+  expect(phoneQueryDigits("Иванов 101")).toBeNull();
+});
+
+test("matchesPhoneDigits находит номер в любой записи", () => {
+  const phones = [city, internal];
+
+  expect(matchesPhoneDigits(phones, "4951234567")).toBe(true);
+  expect(matchesPhoneDigits(phones, "84951234567")).toBe(true);
+  expect(matchesPhoneDigits(phones, "1234")).toBe(true);
+  expect(matchesPhoneDigits(phones, "101")).toBe(true);
+  expect(matchesPhoneDigits(phones, "999")).toBe(false);
+});
+
+test("formatPhones выводит номера через запятую", () => {
+  expect(formatPhones([city, internal])).toBe("+7 (495) 123-45-67, 101");
+  expect(formatPhones([])).toBe("");
+});
@@ -0,0 +1,42 @@
+import { PhoneNumber } from "./types";
+
+// Слово, похожее на номер: цифры, «+», скобки, дефисы, точки и пробелы
+const PHONE_QUERY_PATTERN = /^\+?[\d\s()\-.]+$/;
+const COUNTRY_CODE = "7";
+const TRUNK_PREFIX = "8";
+
+/**
+ * Номера для отображения через запятую.
+ * @param phones - Номера, разобранные сервером.
+ */
+export const formatPhones = (phones: PhoneNumber[]): string =>
+  phones.map((phone) => phone.formatted).join(", ");
+
+/**
+ * Цифры строки поиска, если она похожа на номер телефона.
+ * @returns Цифры или null, если в строке есть буквы или меньше двух цифр.
+ */
+export const phoneQueryDigits = (query: string): string | null => {
+  if (!PHONE_QUERY_PATTERN.test(query.trim())) return null;
+  const digits = query.replace(/\D/g, "");
+  return digits.length >= 2 ? digits : null;
+};
+
+/**
+ * Проверяет, есть ли цифры запроса в одном из номеров независимо от
+ * записи: «4951234567» и «8495…» находят «+7 (495) 123-45-67».
+ * @param phones - Номера записи.
+ * @param digits - Цифры запроса из phoneQueryDigits.
+ */
+export const matchesPhoneDigits = (
+  phones: PhoneNumber[],
+  digits: string
+): boolean =>
+  phones.some((phone) => {
+    const numberDigits = phone.formatted.replace(/\D/g, "");
+    return (
+      numberDigits.includes(digits) ||
+      (digits.startsWith(TRUNK_PREFIX) &&
+        numberDigits.startsWith(COUNTRY_CODE + digits.slice(1)))
+    );
+  });
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useState } from "react";
+import localforage from "localforage";
+
+const SAVED_SEARCHES_KEY = "handbook_saved_searches";
+const PINNED_DEPARTMENTS_KEY = "handbook_pinned_departments";
+
+/** Сохранённый поиск: название и параметры адреса справочника. */
+export interface SavedSearch {
+  name: string;
+  /** Строка параметров без «?»: q=...&tab=...&dept=... */
+  params: string;
+}
+
+/** Закреплённые отделы по справочникам; ключ "" — основной справочник. */
+type PinnedDepartments = Record<string, string[]>;
+
+const persist = (key: string, value: unknown) =>
+  localforage
+    .setItem(key, value)
+    .catch((e) => console.warn("Не удалось сохранить быстрые фильтры:", e));
+
+/**
+ * Сохранённые поиски и закреплённые отделы. Хранятся в localforage
+ * и не зависят от сервера; отделы закрепляются отдельно для каждого
+ * справочника, поиски — общие.
+ * @param directorySlug - Текущий справочник; null — основной.
+ */
+export function useQuickFilters(directorySlug: string | null) {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [pinned, setPinned] = useState<PinnedDepartments>({});
+  const directoryKey = directorySlug ?? "";
+
+  useEffect(() => {
+    localforage
+      .getItem<SavedSearch[]>(SAVED_SEARCHES_KEY)
+      .then((stored) => stored && setSavedSearches(stored))
+      .catch((e) =>
+        console.warn("Не удалось прочитать сохранённые поиски:", e)
+      );
+    localforage
+      .getItem<PinnedDepartments>(PINNED_DEPARTMENTS_KEY)
+      .then((stored) => stored && setPinned(stored))
+      .catch((e) =>
+        console.warn("Не удалось прочитать закреплённые отделы:", e)
+      );
+  }, []);
+
+  /** Сохраняет поиск; поиск с тем же названием заменяется. */
+  const saveSearch = useCallback(
+    (name: string, params: string) => {
+      const next = [
+        ...savedSearches.filter((search) => search.name !== name),
+        { name, params },
+      ];
+      setSavedSearches(next);
+      persist(SAVED_SEARCHES_KEY, next);
+    },
+    [savedSearches]
+  );
+
+  const removeSearch = useCallback(
+    (name: string) => {
+      const next = savedSearches.filter((search) => search.name !== name);
+      setSavedSearches(next);
+      persist(SAVED_SEARCHES_KEY, next);
+    },
+    [savedSearches]
+  );
+
+  /** Закрепляет отдел текущего справочника или снимает закрепление. */
+  const togglePinned = useCallback(
+    (department: string) => {
+      const current = pinned[directoryKey] || [];
+      const next = {
+        ...pinned,
+        [directoryKey]: current.includes(department)
+          ? current.filter((name) => name !== department)
+          : [...current, department],
+      };
+      setPinned(next);
+      persist(PINNED_DEPARTMENTS_KEY, next);
+    },
+    [pinned, directoryKey]
+  );
+
+  return {
+    savedSearches,
+    pinnedDepartments: pinned[directoryKey] || [],
+    saveSearch,
+    removeSearch,
+    togglePinned,
+  };
+}
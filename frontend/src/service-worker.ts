@@ -0,0 +1,139 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+// Service worker справочника. Сборка (react-scripts build) подставляет
+// в self.__WB_MANIFEST список файлов приложения, и они кэшируются при
+// установке, поэтому приложение открывается и без сети.
+
+import { BroadcastUpdatePlugin } from "workbox-broadcast-update";
+import { clientsClaim } from "workbox-core";
+import { ExpirationPlugin } from "workbox-expiration";
+import { createHandlerBoundToURL, precacheAndRoute } from "workbox-precaching";
+import { registerRoute } from "workbox-routing";
+import { NetworkFirst, StaleWhileRevalidate } from "workbox-strategies";
+import {
+  API_URL,
+  DIRECTORIES_API_URL,
+  EMPLOYEES_API_URL,
+  ORGCHART_API_URL,
+} from "./api";
+import {
+  DETAILS_CACHE_NAME,
+  HANDBOOK_CACHE_NAME,
+  MAX_CACHE_AGE_HOURS,
+  PHOTOS_CACHE_NAME,
+} from "./offline";
+
+declare const self: ServiceWorkerGlobalScope;
+
+// Адрес, с которого обслуживается приложение (homepage в package.json)
+const PUBLIC_URL = process.env.PUBLIC_URL || "";
+// Кэш карточек сотрудников и организационной структуры
+const DETAILS_MAX_ENTRIES = 500;
+const PHOTOS_MAX_ENTRIES = 1000;
+const PHOTO_PATH_PATTERN = /\/employees\/[^/]+\/photo$/;
+// Сколько ждать сети, прежде чем отдать карточку из кэша
+const NETWORK_TIMEOUT_SECONDS = 3;
+const FILE_EXTENSION_PATTERN = /\/[^/?]+\.[^/]+$/;
+
+/** Путь адреса API; адреса могут быть заданы относительно сайта. */
+const pathOf = (url: string) => new URL(url, self.location.origin).pathname;
+const HANDBOOK_PATH = pathOf(API_URL);
+const EMPLOYEES_PATH = pathOf(EMPLOYEES_API_URL);
+const ORGCHART_PATH = pathOf(ORGCHART_API_URL);
+const DIRECTORIES_PATH = pathOf(DIRECTORIES_API_URL);
+
+/**
+ * Разбирает адрес справочника из /api/directories/<slug>/...
+ * @returns Оставшаяся часть пути (handbook, employees/<id>, orgchart)
+ * или null, если адрес не относится к справочникам.
+ */
+const directoryResource = (pathname: string): string | null => {
+  if (!pathname.startsWith(`${DIRECTORIES_PATH}/`)) return null;
+  const rest = pathname.slice(DIRECTORIES_PATH.length + 1);
+  const slash = rest.indexOf("/");
+  return slash > 0 ? rest.slice(slash + 1) : null;
+};
+
+clientsClaim();
+
+precacheAndRoute(self.__WB_MANIFEST);
+
+// Все переходы внутри приложения обслуживает index.html из кэша
+registerRoute(
+  ({ request, url }) =>
+    request.mode === "navigate" &&
+    !url.pathname.startsWith("/api/") &&
+    !FILE_EXTENSION_PATTERN.test(url.pathname),
+  createHandlerBoundToURL(`${PUBLIC_URL}/index.html`)
+);
+
+/**
+ * Справочник отдаётся сразу из кэша и параллельно запрашивается с сервера.
+ * Если ETag ответа сервера отличается от закэшированного, открытые вкладки
+ * получают сообщение workbox-broadcast-update и перечитывают данные.
+ */
+registerRoute(
+  ({ request, url }) =>
+    request.method === "GET" &&
+    url.origin === self.location.origin &&
+    (url.pathname === HANDBOOK_PATH ||
+      directoryResource(url.pathname) === "handbook"),
+  new StaleWhileRevalidate({
+    cacheName: HANDBOOK_CACHE_NAME,
+    plugins: [
+      {
+        // Заголовки If-None-Match клиента отбрасываются: на его ETag сервер
+        // мог бы ответить 304, и кэш остался бы устаревшим
+        requestWillFetch: async ({ request }) =>
+          new Request(request.url, { credentials: request.credentials }),
+      },
+      new BroadcastUpdatePlugin({ headersToCheck: ["etag"] }),
+      new ExpirationPlugin({ maxAgeSeconds: MAX_CACHE_AGE_HOURS * 60 * 60 }),
+    ],
+  })
+);
+
+/**
+ * Фотографии показываются сразу из кэша и обновляются в фоне: без сети
+ * таблица остаётся с фотографиями.
+ */
+registerRoute(
+  ({ request, url }) =>
+    request.method === "GET" &&
+    url.origin === self.location.origin &&
+    PHOTO_PATH_PATTERN.test(url.pathname),
+  new StaleWhileRevalidate({
+    cacheName: PHOTOS_CACHE_NAME,
+    plugins: [new ExpirationPlugin({ maxEntries: PHOTOS_MAX_ENTRIES })],
+  })
+);
+
+registerRoute(
+  ({ request, url }) =>
+    request.method === "GET" &&
+    url.origin === self.location.origin &&
+    (url.pathname.startsWith(`${EMPLOYEES_PATH}/`) ||
+      url.pathname === ORGCHART_PATH ||
+      url.pathname === DIRECTORIES_PATH ||
+      /^(employees\/[^/]+|orgchart)$/.test(
+        directoryResource(url.pathname) ?? ""
+      )),
+  new NetworkFirst({
+    cacheName: DETAILS_CACHE_NAME,
+    networkTimeoutSeconds: NETWORK_TIMEOUT_SECONDS,
+    plugins: [
+      new ExpirationPlugin({
+        maxEntries: DETAILS_MAX_ENTRIES,
+        maxAgeSeconds: MAX_CACHE_AGE_HOURS * 60 * 60,
+      }),
+    ],
+  })
+);
+
+// Новая версия приложения включается по команде со страницы
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "SKIP_WAITING") {
+    self.skipWaiting();
+  }
+});
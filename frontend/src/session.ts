@@ -0,0 +1,75 @@
+// Роль пользователя на странице справочника: от неё зависят данные,
+// которые присылает сервер, и доступные элементы управления.
+import { useEffect, useState } from "react";
+import localforage from "localforage";
+import { AdminApiError, getSession } from "./adminApi";
+import { DATA_CACHE_KEY, clearDataCaches } from "./offline";
+import { Role } from "./types";
+
+// Роль при прошлом посещении: без сети справочник открывается с ней
+const ROLE_KEY = "handbook_role";
+// Роли в порядке расширения прав, как на сервере
+const ROLES: Role[] = ["anonymous", "employee", "hr", "admin"];
+
+/**
+ * Доступно ли роли то, что открыто для required и старших ролей.
+ */
+export const roleAllows = (role: Role, required: Role) =>
+  ROLES.indexOf(role) >= ROLES.indexOf(required);
+
+/**
+ * Удаляет данные, которые видела роль: кэш service worker и копии
+ * справочника в localforage, сохранённые для ролей старше anonymous.
+ * Вызывается при смене роли и при выходе.
+ */
+export async function clearRoleData(): Promise<void> {
+  const keys = await localforage.keys();
+  await Promise.all([
+    clearDataCaches(),
+    ...keys
+      .filter((key) => key.startsWith(DATA_CACHE_KEY) && key.includes("@"))
+      .map((key) => localforage.removeItem(key)),
+  ]);
+}
+
+/**
+ * Определяет роль по сессии на сервере. При смене роли кэши
+ * очищаются: в них данные, которые видела прежняя роль.
+ * @returns Роль или null, пока она не определена.
+ */
+export function useSessionRole(): Role | null {
+  const [role, setRole] = useState<Role | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const detect = async () => {
+      const stored = await localforage
+        .getItem<Role>(ROLE_KEY)
+        .catch(() => null);
+      let current: Role;
+      try {
+        current = (await getSession()).role;
+      } catch (error) {
+        // Ответ сервера (401, 404) означает, что вход не выполнен;
+        // без сети остаётся прежняя роль
+        current =
+          error instanceof AdminApiError ? "anonymous" : stored || "anonymous";
+      }
+      if (current !== stored) {
+        await clearRoleData().catch((e) =>
+          console.warn("Не удалось очистить кэш справочника:", e)
+        );
+        localforage
+          .setItem(ROLE_KEY, current)
+          .catch((e) => console.warn("Не удалось сохранить роль:", e));
+      }
+      if (!cancelled) setRole(current);
+    };
+    detect();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return role;
+}
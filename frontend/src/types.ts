@@ -0,0 +1,64 @@
+// Data Interfaces
+/** Номер телефона после разбора на сервере. */
+export interface PhoneNumber {
+  raw: string;
+  /** Внешний номер в формате E.164; null — внутренний или не распознан. */
+  e164: string | null;
+  extension: string | null;
+  /** Номер для отображения: «+7 (495) 123-45-67 доб. 123». */
+  formatted: string;
+}
+
+/**
+ * Роль пользователя. От неё зависит, какие записи и поля присылает
+ * сервер; anonymous — вход не выполнен.
+ */
+export type Role = "anonymous" | "employee" | "hr" | "admin";
+
+export type AbsenceType = "vacation" | "sick-leave" | "business-trip";
+
+/** Отсутствие сотрудника на текущую дату; даты — ГГГГ-ММ-ДД. */
+export interface EmployeeAbsence {
+  type: AbsenceType;
+  from: string;
+  to: string;
+  /** ID замещающего, если он найден в справочнике. */
+  substituteId: string | null;
+  substituteName: string;
+}
+
+export interface OfficeEmployee {
+  id: string;
+  department: string;
+  position: string;
+  fullName: string;
+  /** ФИО и должность по-английски (пусто — не указаны). */
+  fullNameEn: string;
+  positionEn: string;
+  internalNumber: string;
+  generalNumber: string;
+  phones: Record<"internalNumber" | "generalNumber", PhoneNumber[]>;
+  sortPriority: number;
+  manager: string;
+  parentDepartment: string;
+  absence: EmployeeAbsence | null;
+}
+
+export interface Department {
+  id: string;
+  name: string;
+  generalNumber: string;
+  phones: Record<"generalNumber", PhoneNumber[]>;
+  location: string;
+  email: string;
+  head: string;
+  sortOrder: number;
+}
+
+export interface Cabinet {
+  id: string;
+  city: string;
+  address: string;
+  internalNumber: string;
+  phones: Record<"internalNumber", PhoneNumber[]>;
+}